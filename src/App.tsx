@@ -1,13 +1,12 @@
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { HelmetProvider } from 'react-helmet-async';
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import InfiniteCanvas from "./pages/InfiniteCanvas";
-
-const queryClient = new QueryClient();
+import { queryClient } from "@/lib/query-cache";
 
 const App = () => (
   <HelmetProvider>
@@ -1,42 +1,81 @@
 
-import { ArrowLeft, Plus, File, FileText, Moon, Sun, ZoomIn, ZoomOut, Upload, ChevronsUp, Home, Loader2, Trash2, StickyNote } from "lucide-react";
+import { ArrowLeft, Plus, File, FileText, Moon, Sun, ZoomIn, ZoomOut, Upload, ChevronsUp, Home, Loader2, Trash2, StickyNote, Undo2, Redo2, Frame, Eye, PenLine, Shapes, SquareKanban } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useTheme } from "@/hooks/use-theme";
 import { useDropzone } from "react-dropzone";
-import { supabase } from "@/integrations/supabase/client";
 import { useState } from "react";
-import { NodeData, Node } from "@/types";
+import { NodeData, Node, Edge } from "@/types";
 import { findAvailablePosition } from "@/lib/node-placement";
+import type { SpatialIndex } from "@/lib/spatial-index";
+import { clearCanvas } from "@/lib/node-mutations";
+import { getFileNodeType, uploadCanvasFile } from "@/lib/canvas-files";
+import { useHistoryStore } from "@/lib/history";
+import { useCanvasStore } from "@/lib/store";
+import { useInkStore } from "@/lib/ink";
+import { SHAPE_KINDS, ShapeKind } from "@/lib/shapes";
+import { createKanbanBoard, DEFAULT_KANBAN_SIZE, serializeKanbanBoard } from "@/lib/kanban";
+import type { CanvasAccess } from "@/lib/canvas-access";
+import type { Tables } from "@/integrations/supabase/types";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { StackIcon } from "@/components/ui/stack-icon";
+import { PresenceAvatars } from "./PresenceAvatars";
+import { SyncStatus } from "./SyncStatus";
+import { DetailSettings } from "./DetailSettings";
+import { ShareDialog } from "./ShareDialog";
+import { CanvasExpiry } from "./CanvasExpiry";
+import { TrashPanel } from "./TrashPanel";
+import { ExportMenu } from "./ExportMenu";
+import { DuplicateCanvasDialog } from "./DuplicateCanvasDialog";
+import { JsonCanvasImportDialog } from "./JsonCanvasImportDialog";
+import { TemplatesDialog } from "./TemplatesDialog";
+import { ShapeIcon } from "./ShapeIcon";
 import { cn } from "@/lib/utils";
 
 interface CanvasControlsProps {
   code: string;
   canvasId: string;
   nodes: Node[];
+  edges: Edge[];
   onAddNode: (node: NodeData) => void;
   onZoomIn: () => void;
   onZoomOut: () => void;
   onCenterView?: () => void;
   viewportBounds?: { x: number; y: number; width: number; height: number };
   scale?: number;
+  spatialIndex: SpatialIndex;
+  canvas?: Tables<"canvases"> | null;
 }
 
 export const CanvasControls = ({ 
   code, 
   canvasId, 
   nodes, 
+  edges,
   onAddNode, 
   onZoomIn, 
   onZoomOut,
   onCenterView,
   viewportBounds,
-  scale = 1
+  scale = 1,
+  spatialIndex,
+  canvas
 }: CanvasControlsProps) => {
   const { theme, setTheme } = useTheme();
   const [isUploading, setIsUploading] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
+  const canUndo = useHistoryStore((state) => state.past.length > 0);
+  const canRedo = useHistoryStore((state) => state.future.length > 0);
+  const undo = useHistoryStore((state) => state.undo);
+  const redo = useHistoryStore((state) => state.redo);
+  const readOnly = useCanvasStore((state) => state.readOnly);
+  const inkTool = useInkStore((state) => state.tool);
+  const setInkTool = useInkStore((state) => state.setTool);
 
   const onDrop = async (acceptedFiles: File[]) => {
     if (isUploading || !canvasId) return;
@@ -44,29 +83,16 @@ export const CanvasControls = ({
     try {
       for (const file of acceptedFiles) {
         try {
-          const timestamp = new Date().getTime();
-          const uniqueFileName = `${timestamp}_${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
-          const filePath = `${code}/${uniqueFileName}`;
           const MAX_SIZE = 100 * 1024 * 1024; // Increased from 10MB to 100MB
           if (file.size > MAX_SIZE) {
             continue;
           }
-          const { error: uploadError } = await supabase.storage
-            .from('slate_files')
-            .upload(filePath, file, {
-              cacheControl: '3600',
-              upsert: false
-            });
-          if (uploadError) {
-            continue;
-          }
+          const filePath = await uploadCanvasFile(code, file, file.name);
           const dimensions = { width: 300, height: 200 };
-          const position = findAvailablePosition(nodes, dimensions, viewportBounds || null);
+          const position = findAvailablePosition(spatialIndex, dimensions, viewportBounds || null);
           const node: NodeData = {
             canvas_id: canvasId,
-            node_type: (file.type.startsWith('image/') ? 'image' : 
-                      file.type.startsWith('video/') ? 'video' : 
-                      file.type === 'application/pdf' ? 'pdf' : 'file') as 'image' | 'video' | 'pdf' | 'file',
+            node_type: getFileNodeType(file.type),
             file_path: filePath,
             file_name: file.name,
             file_type: file.type,
@@ -85,7 +111,8 @@ export const CanvasControls = ({
 
   const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
     onDrop,
-    noClick: true
+    noClick: true,
+    disabled: readOnly
   });
 
   const handleCreateTextNode = () => {
@@ -100,7 +127,7 @@ export const CanvasControls = ({
     };
 
     // Find a position that's visible in the current viewport
-    const position = findAvailablePosition(nodes, dimensions, viewportBounds || null);
+    const position = findAvailablePosition(spatialIndex, dimensions, viewportBounds || null);
     
     const node: NodeData = {
       canvas_id: canvasId,
@@ -113,6 +140,61 @@ export const CanvasControls = ({
     onAddNode(node);
   };
 
+  const handleCreateFrame = () => {
+    if (!canvasId) {
+      return;
+    }
+
+    const dimensions = {
+      width: Math.min(600, (viewportBounds?.width || 1000) * 0.6),
+      height: Math.min(400, (viewportBounds?.height || 800) * 0.5)
+    };
+
+    const position = findAvailablePosition(spatialIndex, dimensions, viewportBounds || null);
+
+    onAddNode({
+      canvas_id: canvasId,
+      node_type: 'frame',
+      content: 'Untitled frame',
+      position,
+      dimensions
+    });
+  };
+
+  const handleCreateShape = (kind: ShapeKind) => {
+    if (!canvasId) {
+      return;
+    }
+
+    const dimensions = SHAPE_KINDS[kind].size;
+    const position = findAvailablePosition(spatialIndex, dimensions, viewportBounds || null);
+
+    onAddNode({
+      canvas_id: canvasId,
+      node_type: 'shape',
+      content: '',
+      position,
+      dimensions,
+      style: { shape: kind }
+    });
+  };
+
+  const handleCreateBoard = () => {
+    if (!canvasId) {
+      return;
+    }
+
+    const position = findAvailablePosition(spatialIndex, DEFAULT_KANBAN_SIZE, viewportBounds || null);
+
+    onAddNode({
+      canvas_id: canvasId,
+      node_type: 'kanban',
+      content: serializeKanbanBoard(createKanbanBoard()),
+      position,
+      dimensions: DEFAULT_KANBAN_SIZE
+    });
+  };
+
   const handleUploadClick = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -125,27 +207,7 @@ export const CanvasControls = ({
     try {
       setIsClearing(true);
       
-      // Delete all files from storage first
-      const filesToDelete = nodes
-        .filter(node => node.file_path)
-        .map(node => node.file_path as string);
-        
-      if (filesToDelete.length > 0) {
-        const { error: storageError } = await supabase.storage
-          .from('slate_files')
-          .remove(filesToDelete);
-          
-        if (storageError) throw storageError;
-      }
-      
-      // Delete all nodes from the database
-      const { error: dbError } = await supabase
-        .from('nodes')
-        .delete()
-        .eq('canvas_id', canvasId);
-        
-      if (dbError) throw dbError;
-      
+      await clearCanvas(nodes);
     } catch (error) {
       // Use standardized error handler
       import('@/lib/error-handler').then(({ handleError }) => {
@@ -188,39 +250,167 @@ export const CanvasControls = ({
             </TooltipContent>
           </Tooltip>
         
-          <div className="hidden sm:block h-px w-full bg-border my-1" />
-          
-          <div className="flex sm:flex-col gap-2">
+          <SyncStatus />
+
+          <PresenceAvatars />
+
+          {readOnly ? (
             <Tooltip>
               <TooltipTrigger asChild>
-                <Button variant="outline" size="icon" onClick={handleCreateTextNode}>
-                  <StickyNote className="h-4 w-4" />
-                </Button>
+                <div className="flex h-10 w-10 items-center justify-center rounded-md border bg-muted text-muted-foreground">
+                  <Eye className="h-4 w-4" />
+                </div>
               </TooltipTrigger>
               <TooltipContent side="right">
                 <div className="space-y-1">
-                  <p>Create note</p>
-                  <p className="text-xs text-muted-foreground">Add a new text note to your canvas</p>
+                  <p>View only</p>
+                  <p className="text-xs text-muted-foreground">Open an edit link to make changes</p>
                 </div>
               </TooltipContent>
             </Tooltip>
+          ) : (
+            <ShareDialog
+              code={code}
+              publicAccess={(canvas?.public_access ?? 'edit') as CanvasAccess}
+              hasPassword={!!canvas?.has_password}
+            />
+          )}
+
+          {canvas && <CanvasExpiry canvas={canvas} />}
+
+          {canvas && <ExportMenu canvas={canvas} nodes={nodes} edges={edges} viewportBounds={viewportBounds} />}
+
+          {canvas && <DuplicateCanvasDialog code={code} />}
+
+          {!readOnly && (
+            <>
+              <div className="hidden sm:block h-px w-full bg-border my-1" />
+          
+              <div className="flex sm:flex-col gap-2">
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="icon" onClick={handleCreateTextNode}>
+                      <StickyNote className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="right">
+                    <div className="space-y-1">
+                      <p>Create note</p>
+                      <p className="text-xs text-muted-foreground">Add a new text note to your canvas</p>
+                    </div>
+                  </TooltipContent>
+                </Tooltip>
             
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button variant="outline" size="icon" onClick={handleUploadClick}>
-                  <Upload className="h-4 w-4" />
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent side="right">
-                <div className="space-y-1">
-                  <p>Upload files</p>
-                  <p className="text-xs text-muted-foreground">Upload images, videos, PDFs, and more</p>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="icon" onClick={handleCreateFrame}>
+                      <Frame className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="right">
+                    <div className="space-y-1">
+                      <p>Create frame</p>
+                      <p className="text-xs text-muted-foreground">Group nodes by dragging them into a titled area</p>
+                    </div>
+                  </TooltipContent>
+                </Tooltip>
+
+                <DropdownMenu>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="icon" disabled={!canvasId}>
+                          <Shapes className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent side="right">
+                      <div className="space-y-1">
+                        <p>Add shape</p>
+                        <p className="text-xs text-muted-foreground">Boxes, diamonds and more for flowcharts</p>
+                      </div>
+                    </TooltipContent>
+                  </Tooltip>
+                  <DropdownMenuContent side="right" align="start">
+                    {(Object.keys(SHAPE_KINDS) as ShapeKind[]).map((kind) => (
+                      <DropdownMenuItem key={kind} onSelect={() => handleCreateShape(kind)}>
+                        <ShapeIcon kind={kind} className="mr-2 h-4 w-4" />
+                        {SHAPE_KINDS[kind].label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="icon" onClick={handleCreateBoard}>
+                      <SquareKanban className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="right">
+                    <div className="space-y-1">
+                      <p>Create board</p>
+                      <p className="text-xs text-muted-foreground">A kanban board with columns of cards to drag along</p>
+                    </div>
+                  </TooltipContent>
+                </Tooltip>
+
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant={inkTool ? "default" : "outline"}
+                      size="icon"
+                      onClick={() => setInkTool(inkTool ? null : 'pen')}
+                      disabled={!canvasId}
+                    >
+                      <PenLine className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="right">
+                    <div className="space-y-1">
+                      <p>{inkTool ? "Stop drawing (Esc)" : "Draw"}</p>
+                      <p className="text-xs text-muted-foreground">Sketch freehand with a pen, finger or mouse</p>
+                    </div>
+                  </TooltipContent>
+                </Tooltip>
+
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="icon" onClick={handleUploadClick}>
+                      <Upload className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="right">
+                    <div className="space-y-1">
+                      <p>Upload files</p>
+                      <p className="text-xs text-muted-foreground">Upload images, videos, PDFs, and more</p>
                   
 
-                </div>
-              </TooltipContent>
-            </Tooltip>
-          </div>
+                    </div>
+                  </TooltipContent>
+                </Tooltip>
+
+                {canvasId && (
+                  <JsonCanvasImportDialog
+                    code={code}
+                    canvasId={canvasId}
+                    spatialIndex={spatialIndex}
+                    viewportBounds={viewportBounds}
+                  />
+                )}
+
+                {canvasId && (
+                  <TemplatesDialog
+                    canvasId={canvasId}
+                    nodes={nodes}
+                    edges={edges}
+                    spatialIndex={spatialIndex}
+                    viewportBounds={viewportBounds}
+                  />
+                )}
+              </div>
+            </>
+          )}
           
           <div {...getRootProps()} className="contents">
             <input {...getInputProps()} />
@@ -272,33 +462,70 @@ export const CanvasControls = ({
                 </TooltipContent>
               </Tooltip>
             )}
+
+            <DetailSettings />
           </div>
           
-          <div className="hidden sm:block h-px w-full bg-border my-1" />
+          {!readOnly && (
+            <>
+              <div className="hidden sm:block h-px w-full bg-border my-1" />
           
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button 
-                variant="outline" 
-                size="icon"
-                onClick={handleClearCanvas}
-                disabled={isClearing || nodes.length === 0}
-                className={cn(
-                  "hover:bg-destructive/90 hover:text-destructive-foreground",
-                  isClearing && "opacity-50 cursor-not-allowed"
-                )}
-              >
-                {isClearing ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <Trash2 className="h-4 w-4" />
-                )}
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent side="right">
-              <p>Clear canvas</p>
-            </TooltipContent>
-          </Tooltip>
+              <div className="flex sm:flex-col gap-2">
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="icon" onClick={undo} disabled={!canUndo}>
+                      <Undo2 className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="right">
+                    <p>Undo (Ctrl+Z)</p>
+                  </TooltipContent>
+                </Tooltip>
+            
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="icon" onClick={redo} disabled={!canRedo}>
+                      <Redo2 className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="right">
+                    <p>Redo (Ctrl+Shift+Z)</p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+          
+              <div className="hidden sm:block h-px w-full bg-border my-1" />
+
+              {canvasId && <TrashPanel canvasId={canvasId} />}
+          
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button 
+                    variant="outline" 
+                    size="icon"
+                    onClick={handleClearCanvas}
+                    disabled={isClearing || nodes.length === 0}
+                    className={cn(
+                      "hover:bg-destructive/90 hover:text-destructive-foreground",
+                      isClearing && "opacity-50 cursor-not-allowed"
+                    )}
+                  >
+                    {isClearing ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="right">
+                  <div className="space-y-1">
+                    <p>Clear canvas</p>
+                    <p className="text-xs text-muted-foreground">Moves every node to the trash</p>
+                  </div>
+                </TooltipContent>
+              </Tooltip>
+            </>
+          )}
           
           <Tooltip>
             <TooltipTrigger asChild>
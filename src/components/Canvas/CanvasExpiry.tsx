@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Loader2, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { Tables } from "@/integrations/supabase/types";
+import { useCanvasStore } from "@/lib/store";
+import {
+  CanvasRetention,
+  formatTimeLeft,
+  getCanvasExpiry,
+  getRetention,
+  RETENTION_OPTIONS,
+  setCanvasRetention,
+} from "@/lib/canvas-retention";
+import { cn } from "@/lib/utils";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Largest unit only, to fit under the icon
+const formatShort = (ms: number) => {
+  const hours = ms / HOUR_MS;
+  if (hours >= 24) return `${Math.floor(hours / 24)}d`;
+  if (hours >= 1) return `${Math.floor(hours)}h`;
+  return `${Math.max(0, Math.floor(ms / 60000))}m`;
+};
+
+const formatDays = (days: number) => `${days} ${days === 1 ? "day" : "days"}`;
+
+/**
+ * Live countdown to when the cleanup job deletes this canvas, with
+ * controls for editors to change or extend its retention
+ */
+export const CanvasExpiry = ({ canvas }: { canvas: Tables<"canvases"> }) => {
+  const readOnly = useCanvasStore((state) => state.readOnly);
+  const [now, setNow] = useState(Date.now);
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const retention = getRetention(canvas);
+  const timeLeft = getCanvasExpiry(canvas).getTime() - now;
+  // Tick every second once seconds matter, or while the details are open
+  const tickMs = open || timeLeft < HOUR_MS ? 1000 : 60000;
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), tickMs);
+    return () => clearInterval(interval);
+  }, [tickMs]);
+
+  const updateRetention = async (next: CanvasRetention) => {
+    setIsSaving(true);
+    try {
+      await setCanvasRetention(canvas, next);
+      setNow(Date.now());
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Retention Update Failed",
+          message: "Could not change when this canvas is deleted"
+        });
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const description = timeLeft > 0
+    ? `Deleted in ${formatTimeLeft(timeLeft)}`
+    : "Scheduled for deletion";
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon"
+              className={cn(
+                "h-auto flex-col gap-0.5 py-1.5",
+                timeLeft < 24 * HOUR_MS && "text-amber-600 dark:text-amber-400",
+                timeLeft < HOUR_MS && "text-destructive"
+              )}
+              aria-label={description}
+            >
+              <Timer className="h-4 w-4" />
+              <span className="text-[10px] leading-none">{formatShort(timeLeft)}</span>
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="right">
+          <p>{description}</p>
+        </TooltipContent>
+      </Tooltip>
+      <PopoverContent side="right" align="start" className="w-72 space-y-4">
+        <div className="space-y-1">
+          <p className="text-sm font-medium">{description}</p>
+          <p className="text-xs text-muted-foreground">
+            This canvas and all its files are removed on {getCanvasExpiry(canvas).toLocaleString()}.
+          </p>
+        </div>
+
+        {readOnly ? (
+          <p className="text-xs text-muted-foreground">Only editors can keep this canvas for longer.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Keep this canvas for</Label>
+              <Select
+                value={retention}
+                disabled={isSaving}
+                onValueChange={(value) => updateRetention(value as CanvasRetention)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RETENTION_OPTIONS) as CanvasRetention[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {RETENTION_OPTIONS[option].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button className="w-full" disabled={isSaving} onClick={() => updateRetention(retention)}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Extend to {formatDays(RETENTION_OPTIONS[retention].days)} from now
+            </Button>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
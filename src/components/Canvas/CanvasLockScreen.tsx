@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { unlockCanvas } from "@/lib/canvas-access";
+
+interface CanvasLockScreenProps {
+  code: string;
+  hasPassword: boolean;
+}
+
+/**
+ * Shown instead of the canvas when the code alone doesn't grant access
+ */
+export const CanvasLockScreen = ({ code, hasPassword }: CanvasLockScreenProps) => {
+  const navigate = useNavigate();
+  const [password, setPassword] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockCanvas(code, { password });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unable to unlock this canvas");
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center bg-background p-4">
+      <div className="w-full max-w-sm text-center">
+        <div className="mx-auto mb-6 flex h-14 w-14 items-center justify-center rounded-full bg-muted">
+          <Lock className="h-6 w-6 text-muted-foreground" />
+        </div>
+
+        <h1 className="text-2xl font-bold mb-2">This canvas is private</h1>
+        <p className="text-muted-foreground mb-8">
+          {hasPassword
+            ? "Enter the password or open a share link to see it."
+            : "Ask its owner for a share link to see it."}
+        </p>
+
+        {hasPassword && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              aria-label="Canvas password"
+              autoFocus
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" className="w-full" disabled={!password || isUnlocking}>
+              {isUnlocking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Unlock
+            </Button>
+          </form>
+        )}
+
+        <Button variant="ghost" className="w-full mt-4" onClick={() => navigate("/")}>
+          Return home
+        </Button>
+      </div>
+    </main>
+  );
+};
+
+interface CanvasNotFoundProps {
+  code: string;
+  onCreate: () => Promise<unknown>;
+}
+
+/**
+ * Shown for codes nobody has used yet, so a typo doesn't silently start a new canvas
+ */
+export const CanvasNotFound = ({ code, onCreate }: CanvasNotFoundProps) => {
+  const navigate = useNavigate();
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    await onCreate();
+    setIsCreating(false);
+  };
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center bg-background p-4">
+      <div className="w-full max-w-sm text-center">
+        <h1 className="text-2xl font-bold mb-2">No canvas here yet</h1>
+        <p className="text-muted-foreground mb-8">
+          There is no canvas called <span className="font-medium text-foreground">{code}</span>.
+          Check the link for typos, or start a new canvas with this code.
+        </p>
+
+        <div className="space-y-4">
+          <Button className="w-full" onClick={handleCreate} disabled={isCreating}>
+            {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create canvas
+          </Button>
+          <Button variant="outline" className="w-full" onClick={() => navigate("/")}>
+            Return home
+          </Button>
+        </div>
+      </div>
+    </main>
+  );
+};
@@ -1,10 +1,26 @@
-import React, { useCallback, useRef, useState, useEffect } from "react";
+import React, { useCallback, useRef, useState, useEffect, useMemo } from "react";
 import { Node } from "@/types";
 import { cn } from "@/lib/utils";
 import { FilePreview } from "./FilePreview";
-import { supabase } from "@/integrations/supabase/client";
-import { Trash2, Move, Maximize2, ChevronsUpDown, Download, Bold, Italic, Underline } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { Trash2, Move, Maximize2, ChevronsUpDown, Download, Bold, Italic, Underline, Palette, ListChecks, Ungroup } from "lucide-react";
+import { applyGroupTransform, GroupTransform, useCanvasStore } from "@/lib/store";
+import { FRAME_HEADER_HEIGHT, getMinNodeSize } from "@/lib/geometry";
+import { isFrame, isFrameCollapsed } from "@/lib/frames";
+import { deleteNodes, recordContentChange, replaceNodes, updateNodeContent, writeContent } from "@/lib/node-mutations";
+import { downloadBlob } from "@/lib/download";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { FrameHeader } from "./FrameHeader";
+import { InkStroke } from "./InkStroke";
+import { isDrawing } from "@/lib/ink";
+import { getShapeKind, getShapeLabelRect, getShapePaths, getShapeStyle, isShape } from "@/lib/shapes";
+import { countTasks, setTaskChecked } from "@/lib/tasks";
+import { explodeKanbanBoard, kanbanToMarkdown, parseKanbanBoard } from "@/lib/kanban";
+import { KanbanView } from "./KanbanView";
+import { NodeStylePanel } from "./NodeStylePanel";
+import { getNodeAppearance, NODE_COLORS, NODE_FONTS } from "@/lib/node-style";
+import { RemoteCarets } from "./RemoteCarets";
+import { useCollaborativeText } from "@/hooks/useCollaborativeText";
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeRaw from 'rehype-raw';
@@ -22,6 +38,9 @@ type CodeProps = React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTML
   inline?: boolean;
 };
 
+// Save a snapshot at least this often while edits keep arriving
+const SNAPSHOT_MAX_WAIT_MS = 5000;
+
 /**
  * Safely parse position object from potential string
  */
@@ -69,9 +88,15 @@ interface CanvasNodeProps {
   node: Node;
   scale: number;
   onUpdate: (nodeId: string, position: Position, dimensions?: Dimensions) => void;
+  onConnect: (sourceId: string, targetId: string) => void;
+  resolveGroupMembers: (nodeId: string, mode: 'move' | 'resize') => string[];
+  // Number of nodes inside this node when it is a frame
+  childCount?: number;
+  // Free spot on the canvas for nodes this node turns into
+  findSpace: (size: Dimensions) => Position;
 }
 
-const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
+const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate, onConnect, resolveGroupMembers, childCount = 0, findSpace }) => {
   const nodeRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
@@ -89,6 +114,27 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
   const [isSaving, setIsSaving] = useState(false);
   const [lastSavedContent, setLastSavedContent] = useState(node.content || '');
   const lastSaveTimeRef = useRef<number>(0);
+  const firstUnsavedAtRef = useRef<number | null>(null);
+  const setLiveRect = useCanvasStore((state) => state.setLiveRect);
+  const clearLiveRect = useCanvasStore((state) => state.clearLiveRect);
+  const setPendingLink = useCanvasStore((state) => state.setPendingLink);
+  const isSelected = useCanvasStore((state) => state.selectedIds.includes(node.id));
+  const groupTransform = useCanvasStore((state) => state.groupTransform);
+  const setGroupTransform = useCanvasStore((state) => state.setGroupTransform);
+  const setSelection = useCanvasStore((state) => state.setSelection);
+  const toggleSelected = useCanvasStore((state) => state.toggleSelected);
+  const readOnly = useCanvasStore((state) => state.readOnly);
+  const lastFollowedTransformRef = useRef<GroupTransform | null>(null);
+  const editStartContentRef = useRef<string | null>(null);
+  // Latest content for effects that should only run when editing starts or stops
+  const contentRef = useRef(content);
+  contentRef.current = content;
+  const minSize = useMemo(() => getMinNodeSize(node.node_type), [node.node_type]);
+  const appearance = useMemo(() => getNodeAppearance(node), [node]);
+  const noteColor = appearance.color ? NODE_COLORS[appearance.color] : null;
+  const isFollowingGroup = !!groupTransform &&
+    groupTransform.leaderId !== node.id &&
+    groupTransform.memberIds.includes(node.id);
   const [textStyle, setTextStyle] = useState<{
     bold: boolean;
     italic: boolean;
@@ -106,8 +152,21 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
     }
   }, [isEditing, node]);
 
+  // Record each editing session as one undoable text edit
+  useEffect(() => {
+    if (isEditing) {
+      editStartContentRef.current = contentRef.current;
+      return;
+    }
+
+    if (editStartContentRef.current !== null) {
+      recordContentChange(node.id, editStartContentRef.current, contentRef.current);
+      editStartContentRef.current = null;
+    }
+  }, [isEditing, node.id]);
+
   // Enhanced auto-save with visual feedback
-  const updateContent = useCallback((newContent: string) => {
+  const saveContent = useCallback((newContent: string) => {
     setContent(newContent);
     
     // Clear any pending update
@@ -118,25 +177,23 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
     // Only show saving indicator if content actually changed
     if (newContent !== lastSavedContent) {
       setIsSaving(true);
+      firstUnsavedAtRef.current = firstUnsavedAtRef.current ?? Date.now();
     }
+
+    // Don't let a steady stream of edits postpone the snapshot forever
+    const waitedFor = Date.now() - (firstUnsavedAtRef.current ?? Date.now());
+    const delay = waitedFor >= SNAPSHOT_MAX_WAIT_MS ? 0 : 750;
     
     // Set new timeout for update
     contentUpdateTimeoutRef.current = setTimeout(async () => {
       try {
         const now = Date.now();
         // Only save if content changed and enough time passed since last save
-        if (newContent !== lastSavedContent && now - lastSaveTimeRef.current > 1000) {
-          const { error } = await supabase
-            .from('nodes')
-            .update({ 
-              content: newContent,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', node.id);
-
-          if (error) throw error;
+        if (newContent !== lastSavedContent && (delay === 0 || now - lastSaveTimeRef.current > 1000)) {
+          await writeContent(node.id, newContent);
           setLastSavedContent(newContent);
           lastSaveTimeRef.current = now;
+          firstUnsavedAtRef.current = null;
         }
       } catch (error) {
         import('@/lib/error-handler').then(({ handleError }) => {
@@ -148,9 +205,32 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
       } finally {
         setIsSaving(false);
       }
-    }, 750); // Increased debounce time for better performance
+    }, delay); // Increased debounce time for better performance
   }, [node.id, lastSavedContent]);
 
+  // Concurrent edits from other people are merged while this node is edited
+  const collab = useCollaborativeText({
+    nodeId: node.id,
+    enabled: isEditing && (node.node_type === 'text' || isShape(node)),
+    initialContent: content,
+    onChange: saveContent,
+    // Only this editor's own changes become its undo step
+    onSessionEnd: (before, after) => {
+      editStartContentRef.current = null;
+      recordContentChange(node.id, before, after);
+    }
+  });
+  const { isActive: isCollaborating, applyLocalChange, broadcastCaret } = collab;
+
+  const updateContent = useCallback((newContent: string) => {
+    if (isCollaborating) {
+      // The merged text comes back through saveContent
+      applyLocalChange(newContent);
+      return;
+    }
+    saveContent(newContent);
+  }, [isCollaborating, applyLocalChange, saveContent]);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -184,6 +264,7 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
       if (!content.trim()) return; // Don't format empty content
       const newContent = formatText(content);
       updateContent(newContent);
+      recordContentChange(node.id, content, newContent);
       return;
     }
     
@@ -217,6 +298,21 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
 
     if (e.button === 0 && !(e.target as HTMLElement).closest('button')) {
       e.stopPropagation();
+
+      // Shift-click adds or removes the node from the selection without dragging
+      if (e.shiftKey) {
+        toggleSelected(node.id);
+        return;
+      }
+
+      // Clicking outside the current selection starts a new one
+      if (!isSelected) {
+        setSelection([node.id]);
+      }
+
+      // Viewers can select nodes but not move them
+      if (readOnly) return;
+
       document.body.style.userSelect = 'none';
       setIsDragging(true);
       setDragStart({
@@ -224,7 +320,24 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
         y: e.clientY / scale - position.y
       });
     }
-  }, [scale, position, isEditing]);
+  }, [scale, position, isEditing, isSelected, readOnly, node.id, setSelection, toggleSelected]);
+
+  /**
+   * Broadcast this node's move/resize so the rest of its group follows it
+   */
+  const updateGroupTransform = useCallback((rect: { x: number; y: number; width: number; height: number }, mode: 'move' | 'resize') => {
+    const memberIds = resolveGroupMembers(node.id, mode);
+    if (memberIds.length === 0) return;
+
+    setGroupTransform({
+      leaderId: node.id,
+      memberIds,
+      dx: rect.x - position.x,
+      dy: rect.y - position.y,
+      scaleX: rect.width / dimensions.width,
+      scaleY: rect.height / dimensions.height
+    });
+  }, [node.id, position.x, position.y, dimensions.width, dimensions.height, resolveGroupMembers, setGroupTransform]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
     if (isDragging) {
@@ -235,8 +348,10 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
         y: e.clientY / scale - dragStart.y
       };
       setCurrentPosition(newPosition);
+      setLiveRect(node.id, { ...newPosition, ...currentDimensions });
+      updateGroupTransform({ ...newPosition, ...currentDimensions }, 'move');
     }
-  }, [isDragging, dragStart, scale]);
+  }, [isDragging, dragStart, scale, node.id, currentDimensions, setLiveRect, updateGroupTransform]);
 
   const handleMouseUp = useCallback(() => {
     // Handle resize end
@@ -246,6 +361,7 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
       setContent(resizeStart.content || content);
       onUpdate(node.id, currentPosition, currentDimensions);
       setIsResizing(false);
+      setGroupTransform(null);
     }
     
     // Handle drag end
@@ -253,8 +369,9 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
       document.body.style.userSelect = '';
       onUpdate(node.id, currentPosition);
       setIsDragging(false);
+      setGroupTransform(null);
     }
-  }, [isDragging, isResizing, currentPosition, currentDimensions, node.id, onUpdate, resizeStart.content, content]);
+  }, [isDragging, isResizing, currentPosition, currentDimensions, node.id, onUpdate, resizeStart.content, content, setGroupTransform]);
 
   const handleMouseLeave = useCallback(() => {
     // Don't end drag/resize on leave - only on mouse up
@@ -263,29 +380,45 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
     }
   }, [isResizing, isDragging, handleMouseUp]);
 
-  const handleResizeMove = useCallback((clientX: number, clientY: number) => {
-    const sensitivityFactor = 0.8;
+  const handleResizeMove = useCallback((clientX: number, clientY: number, lockAspect = false) => {
+    // Shape outlines follow the pointer exactly so they can be lined up
+    const sensitivityFactor = isShape(node) ? 1 : 0.8;
     const deltaX = ((clientX - resizeStart.x) / scale) * sensitivityFactor;
     const deltaY = ((clientY - resizeStart.y) / scale) * sensitivityFactor;
     
-    const minWidth = node.node_type === 'text' ? 150 : 100;
-    const minHeight = node.node_type === 'text' ? 100 : 100;
-    
-    const newDimensions = {
-      width: Math.max(resizeStart.width + deltaX, minWidth),
-      height: Math.max(resizeStart.height + deltaY, minHeight)
+    let newDimensions = {
+      width: Math.max(resizeStart.width + deltaX, minSize.width),
+      height: Math.max(resizeStart.height + deltaY, minSize.height)
     };
+
+    // Shift keeps the proportions the resize started with, growing along
+    // whichever side the pointer moved further
+    if (lockAspect && resizeStart.width > 0 && resizeStart.height > 0) {
+      const factor = Math.max(
+        (resizeStart.width + deltaX) / resizeStart.width,
+        (resizeStart.height + deltaY) / resizeStart.height,
+        minSize.width / resizeStart.width,
+        minSize.height / resizeStart.height
+      );
+      newDimensions = {
+        width: resizeStart.width * factor,
+        height: resizeStart.height * factor
+      };
+    }
     
     setCurrentDimensions(newDimensions);
+    setLiveRect(node.id, { ...currentPosition, ...newDimensions });
+    updateGroupTransform({ ...currentPosition, ...newDimensions }, 'resize');
     return newDimensions;
-  }, [resizeStart, scale, node.node_type]);
+  }, [node, resizeStart, scale, minSize.width, minSize.height, currentPosition, setLiveRect, updateGroupTransform]);
 
   const handleResizeEnd = useCallback((finalDimensions: Dimensions) => {
     document.body.style.userSelect = '';
     setIsResizing(false);
     setContent(resizeStart.content || content);
     onUpdate(node.id, currentPosition, finalDimensions);
-  }, [node.id, currentPosition, resizeStart.content, content, onUpdate]);
+    setGroupTransform(null);
+  }, [node.id, currentPosition, resizeStart.content, content, onUpdate, setGroupTransform]);
 
   const handleResizeStart = useCallback((e: React.MouseEvent) => {
     if (e.button === 0) {  // Only start resize on left click
@@ -303,12 +436,12 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
 
       const handleMouseMove = (e: MouseEvent) => {
         e.preventDefault();
-        handleResizeMove(e.clientX, e.clientY);
+        handleResizeMove(e.clientX, e.clientY, e.shiftKey);
       };
 
       const handleMouseUp = (e: MouseEvent) => {
         e.preventDefault();
-        const finalDimensions = handleResizeMove(e.clientX, e.clientY);
+        const finalDimensions = handleResizeMove(e.clientX, e.clientY, e.shiftKey);
         handleResizeEnd(finalDimensions);
         document.removeEventListener('mousemove', handleMouseMove);
         document.removeEventListener('mouseup', handleMouseUp);
@@ -320,6 +453,7 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
   }, [currentDimensions, content, handleResizeMove, handleResizeEnd]);
 
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
+    if (readOnly) return;
     if (e.touches.length === 1 && !(e.target as HTMLElement).closest('button') && !(e.target as HTMLElement).closest('textarea')) {
       e.stopPropagation();
       
@@ -331,7 +465,7 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
         y: touch.clientY / scale - position.y
       });
     }
-  }, [scale, position]);
+  }, [scale, position, readOnly]);
 
   const handleTouchMove = useCallback((e: React.TouchEvent) => {
     if (isDragging && e.touches.length === 1) {
@@ -343,8 +477,10 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
         y: touch.clientY / scale - dragStart.y
       };
       setCurrentPosition(newPosition);
+      setLiveRect(node.id, { ...newPosition, ...currentDimensions });
+      updateGroupTransform({ ...newPosition, ...currentDimensions }, 'move');
     }
-  }, [isDragging, dragStart, scale]);
+  }, [isDragging, dragStart, scale, node.id, currentDimensions, setLiveRect, updateGroupTransform]);
 
   const handleTouchEnd = useCallback(() => {
     if (isResizing) {
@@ -354,8 +490,9 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
       document.body.style.userSelect = '';
       onUpdate(node.id, currentPosition);
       setIsDragging(false);
+      setGroupTransform(null);
     }
-  }, [isResizing, isDragging, currentDimensions, currentPosition, node.id, handleResizeEnd, onUpdate]);
+  }, [isResizing, isDragging, currentDimensions, currentPosition, node.id, handleResizeEnd, onUpdate, setGroupTransform]);
 
   const handleTouchResizeStart = useCallback((e: React.TouchEvent) => {
     if (e.touches.length === 1) {
@@ -383,12 +520,80 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
     }
   }, [isResizing, handleResizeMove]);
 
+  // Drag from the connector handle onto another node to link them
+  const handleConnectStart = useCallback((e: React.MouseEvent) => {
+    if (e.button !== 0 || !nodeRef.current) return;
+    e.stopPropagation();
+    e.preventDefault();
+    document.body.style.userSelect = 'none';
+
+    const origin = currentPosition;
+    const toWorld = (clientX: number, clientY: number) => {
+      const rect = nodeRef.current!.getBoundingClientRect();
+      return {
+        x: origin.x + (clientX - rect.left) / scale,
+        y: origin.y + (clientY - rect.top) / scale
+      };
+    };
+
+    setPendingLink({ sourceId: node.id, pointer: toWorld(e.clientX, e.clientY) });
+
+    const handleMouseMove = (e: MouseEvent) => {
+      setPendingLink({ sourceId: node.id, pointer: toWorld(e.clientX, e.clientY) });
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      document.body.style.userSelect = '';
+      setPendingLink(null);
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+
+      const target = document.elementFromPoint(e.clientX, e.clientY)?.closest('[data-node-id]');
+      const targetId = target?.getAttribute('data-node-id');
+      if (targetId && targetId !== node.id) {
+        onConnect(node.id, targetId);
+      }
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  }, [currentPosition, scale, node.id, onConnect, setPendingLink]);
+
   const handleDoubleClick = useCallback((e: React.MouseEvent) => {
-    if (node.node_type === 'text' && !(e.target as HTMLElement).closest('.node-controls')) {
+    if (readOnly) return;
+    const editable = node.node_type === 'text' || node.node_type === 'shape';
+    if (editable && !(e.target as HTMLElement).closest('.node-controls')) {
       e.stopPropagation();
       setIsEditing(true);
     }
-  }, [node.node_type]);
+  }, [node.node_type, readOnly]);
+
+  // Tick a task in the preview without opening the editor. The clicked
+  // checkbox's list item gives the task's (1-based) source line, which is
+  // toggled in the text.
+  const handleToggleTask = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const checkbox = e.currentTarget;
+    // Task items carry the source line they were parsed from; a checkbox
+    // written in raw HTML next to the item's own isn't a task
+    const item = checkbox.closest('[data-task-line]');
+    if (!item || item.querySelector('input[type="checkbox"]') !== checkbox) return;
+
+    const next = setTaskChecked(content, Number(item.getAttribute('data-task-line')) - 1, checkbox.checked);
+    if (next === content) return;
+
+    const before = content;
+    setContent(next);
+    setLastSavedContent(next);
+    updateNodeContent(node.id, before, next).catch((error) => {
+      setContent(before);
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Task Update Failed",
+          message: "Unable to check off the task"
+        });
+      });
+    });
+  };
 
   const handleBlur = () => {
     setIsEditing(false);
@@ -396,27 +601,15 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
     if (contentUpdateTimeoutRef.current) {
       clearTimeout(contentUpdateTimeoutRef.current);
       if (content !== lastSavedContent) {
-        updateContent(content);
+        saveContent(content);
       }
     }
   };
 
   const handleDelete = async () => {
     try {
-      if (node.file_path) {
-        const { error: storageError } = await supabase.storage
-          .from('slate_files')
-          .remove([node.file_path]);
-
-        if (storageError) throw storageError;
-      }
-
-      const { error: dbError } = await supabase
-        .from('nodes')
-        .delete()
-        .eq('id', node.id);
-
-      if (dbError) throw dbError;
+      // Goes to the trash, so it can still be restored
+      await deleteNodes([node]);
     } catch (error) {
       // Use standardized error handler
       import('@/lib/error-handler').then(({ handleError }) => {
@@ -436,48 +629,22 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
       if (node.node_type === 'text') {
         // For text nodes, create a text file with the content
         const blob = new Blob([content || ''], { type: 'text/plain' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `text-note-${node.id.slice(0, 8)}.txt`;
-        a.setAttribute('download', `text-note-${node.id.slice(0, 8)}.txt`);
-        document.body.appendChild(a);
-        a.click();
-        setTimeout(() => {
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
-        }, 100);
+        downloadBlob(blob, `text-note-${node.id.slice(0, 8)}.txt`);
         
         // Only show notifications for errors, not for successful downloads
+      } else if (node.node_type === 'kanban') {
+        const blob = new Blob([kanbanToMarkdown(parseKanbanBoard(content))], { type: 'text/markdown' });
+        downloadBlob(blob, `board-${node.id.slice(0, 8)}.md`);
       } else if (node.file_path) {
         // For file nodes, need to fetch the file first to ensure it downloads properly
         // No notification needed for starting download
         
-        // Get the public URL from Supabase
-        const { data } = supabase.storage.from('slate_files').getPublicUrl(node.file_path);
-        if (!data.publicUrl) throw new Error('Could not generate download URL');
+        // Fetch the file as a blob to force download; the bucket is private,
+        // so it comes through the client, which carries the canvas token
+        const { data: blob, error } = await supabase.storage.from('slate_files').download(node.file_path);
+        if (error) throw error;
         
-        // Fetch the file as a blob to force download
-        const response = await fetch(data.publicUrl);
-        if (!response.ok) throw new Error('Failed to fetch file from storage');
-        
-        const blob = await response.blob();
-        const blobUrl = URL.createObjectURL(blob);
-        
-        // Create download link and trigger it
-        const filename = node.file_name || `file-${node.id.slice(0, 8)}`;
-        const a = document.createElement('a');
-        a.href = blobUrl;
-        a.download = filename;
-        a.setAttribute('download', filename); // Enforce download attribute
-        document.body.appendChild(a);
-        a.click();
-        
-        // Clean up
-        setTimeout(() => {
-          document.body.removeChild(a);
-          URL.revokeObjectURL(blobUrl);
-        }, 100);
+        downloadBlob(blob, node.file_name || `file-${node.id.slice(0, 8)}`);
         
         // No notification for successful download - browser shows its own UI
       }
@@ -492,6 +659,20 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
     }
   };
 
+  // Break a board up into a frame per column with a note per card
+  const handleExplode = async () => {
+    try {
+      await replaceNodes([node], explodeKanbanBoard(node, findSpace), 'Explode board');
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Explode Failed",
+          message: "Unable to turn the board into notes"
+        });
+      });
+    }
+  };
+
   const handleToggleMaximize = useCallback(() => {
     if (isMaximized) {
       // Restore previous dimensions
@@ -528,6 +709,22 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
     }
   }, [node.node_type, isDragging]);
 
+  // Borders chosen in the style panel, in the note's color when it has one
+  const calculateBorderStyle = (): React.CSSProperties => {
+    if (!appearance.border && !noteColor) return {};
+    const color = noteColor?.swatch ?? calculateBorderColor();
+    switch (appearance.border) {
+      case 'none':
+        return { border: 'none' };
+      case 'thick':
+        return { border: `3px solid ${color}` };
+      case 'dashed':
+        return { border: `2px dashed ${color}` };
+      default:
+        return { border: `1.5px solid ${color}` };
+    }
+  };
+
   // Calculate header sizes based on node dimensions
   const calculateHeaderStyle = useCallback(() => {
     // More aggressive scaling based on node size
@@ -748,40 +945,353 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
     }
   };
 
+  // Follow the group while another selected node is dragged, then keep the
+  // final geometry locally until the persisted update arrives
+  useEffect(() => {
+    if (isFollowingGroup) {
+      lastFollowedTransformRef.current = groupTransform;
+      return;
+    }
+
+    const transform = lastFollowedTransformRef.current;
+    if (!groupTransform && transform) {
+      lastFollowedTransformRef.current = null;
+      const next = applyGroupTransform({ ...currentPosition, ...currentDimensions }, transform, minSize);
+      setCurrentPosition({ x: next.x, y: next.y });
+      setCurrentDimensions({ width: next.width, height: next.height });
+      setLiveRect(node.id, next);
+    }
+  }, [isFollowingGroup, groupTransform, currentPosition, currentDimensions, minSize, node.id, setLiveRect]);
+
+  const displayRect = isFollowingGroup
+    ? applyGroupTransform({ ...currentPosition, ...currentDimensions }, groupTransform, minSize)
+    : { ...currentPosition, ...currentDimensions };
+
   const headerStyle = calculateHeaderStyle();
   const contentStyle = calculateContentStyle();
+  const tasks = node.node_type === 'text' ? countTasks(content) : { done: 0, total: 0 };
 
   // If node attributes change externally, update local state
   useEffect(() => {
     setCurrentPosition(safeParsePosition(node.position));
     setCurrentDimensions(safeParseDimensions(node.dimensions));
-    setContent(node.content || '');
-  }, [node.position, node.dimensions, node.content]);
+    // Persisted geometry has caught up, so connectors can use it again
+    clearLiveRect(node.id);
+  }, [node.position, node.dimensions, node.id, clearLiveRect]);
+
+  // Drawings are bare ink: only the stroke itself can be grabbed, and the
+  // bounds, resize handle and delete button show while selected
+  if (isDrawing(node)) {
+    const isInteracting = isDragging || isResizing;
+
+    return (
+      <div
+        ref={nodeRef}
+        id={`node-${node.id}`}
+        data-node-id={node.id}
+        className={cn(
+          "group absolute rounded-md",
+          isInteracting ? "pointer-events-auto cursor-grabbing" : "pointer-events-none",
+          !isInteracting && !readOnly && "cursor-grab",
+          isSelected && "ring-2 ring-primary/60 ring-offset-2 ring-offset-transparent",
+        )}
+        style={{
+          transform: `translate(${displayRect.x}px, ${displayRect.y}px)`,
+          width: displayRect.width,
+          height: displayRect.height,
+          transition: isInteracting || isFollowingGroup ? 'none' : 'all 0.2s ease-out',
+          touchAction: "none",
+          willChange: isInteracting ? "transform" : "auto",
+          ...(appearance.opacity !== undefined && { opacity: appearance.opacity }),
+        }}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+      >
+        <InkStroke node={node} interactive className="absolute inset-0 h-full w-full" />
+
+        {isSelected && !readOnly && (
+          <>
+            <button
+              className="absolute -top-3 -right-3 flex h-6 w-6 items-center justify-center rounded-full border bg-background shadow-sm pointer-events-auto hover:bg-destructive hover:text-destructive-foreground"
+              onClick={handleDelete}
+              title="Delete drawing"
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+
+            {/* Resize handle */}
+            <div
+              className="absolute -bottom-2 -right-2 h-4 w-4 rounded-sm border-2 border-primary bg-background cursor-se-resize pointer-events-auto"
+              onMouseDown={handleResizeStart}
+              onTouchStart={handleTouchResizeStart}
+              onTouchMove={handleTouchResize}
+              onTouchEnd={handleTouchEnd}
+            />
+          </>
+        )}
+      </div>
+    );
+  }
+
+  // Shapes are an SVG outline with a centered label; double-click edits the
+  // label, and Shift while resizing keeps their proportions
+  if (isShape(node)) {
+    const isInteracting = isDragging || isResizing;
+    const kind = getShapeKind(node);
+    const shapeStyle = getShapeStyle(node);
+    const { outline, detail } = getShapePaths(kind, displayRect.width, displayRect.height, shapeStyle.strokeWidth / 2);
+    const labelRect = getShapeLabelRect(kind, displayRect.width, displayRect.height);
+    const labelStyle: React.CSSProperties = {
+      fontFamily: appearance.font ? NODE_FONTS[appearance.font].family : undefined,
+      fontSize: `${appearance.fontSize ?? 14}px`,
+      lineHeight: '1.4',
+      textAlign: appearance.textAlign ?? 'center',
+    };
+
+    return (
+      <div
+        ref={nodeRef}
+        id={`node-${node.id}`}
+        data-node-id={node.id}
+        className={cn(
+          "group absolute",
+          isInteracting && "cursor-grabbing",
+          !isInteracting && !isEditing && !readOnly && "cursor-grab",
+        )}
+        style={{
+          transform: `translate(${displayRect.x}px, ${displayRect.y}px)`,
+          width: displayRect.width,
+          height: displayRect.height,
+          transition: isInteracting || isFollowingGroup ? 'none' : 'all 0.2s ease-out',
+          touchAction: "none",
+          willChange: isInteracting ? "transform" : "auto",
+          '--shape-fill': shapeStyle.fill.light,
+          '--shape-fill-dark': shapeStyle.fill.dark,
+          ...(!isInteracting && appearance.opacity !== undefined && { opacity: appearance.opacity }),
+        } as React.CSSProperties}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onDoubleClick={handleDoubleClick}
+      >
+        <svg
+          className={cn(
+            "absolute inset-0 h-full w-full overflow-visible drop-shadow-md",
+            isInteracting && "opacity-75"
+          )}
+          viewBox={`0 0 ${displayRect.width} ${displayRect.height}`}
+        >
+          {isSelected && (
+            <path
+              d={getShapePaths(kind, displayRect.width, displayRect.height, -4).outline}
+              fill="none"
+              className="stroke-primary"
+              strokeWidth={2}
+            />
+          )}
+          <path
+            d={outline}
+            className="fill-[var(--shape-fill)] dark:fill-[var(--shape-fill-dark)]"
+            stroke={shapeStyle.strokeWidth > 0 ? shapeStyle.stroke : 'none'}
+            strokeWidth={shapeStyle.strokeWidth}
+            strokeDasharray={shapeStyle.dashArray}
+            strokeLinejoin="round"
+          />
+          {detail && shapeStyle.strokeWidth > 0 && (
+            <path d={detail} fill="none" stroke={shapeStyle.stroke} strokeWidth={shapeStyle.strokeWidth} />
+          )}
+        </svg>
+
+        <div
+          className="absolute flex items-center justify-center overflow-hidden p-2"
+          style={{ left: labelRect.x, top: labelRect.y, width: labelRect.width, height: labelRect.height }}
+        >
+          {isEditing ? (
+            <textarea
+              id={`textarea-${node.id}`}
+              className="w-full h-full bg-transparent resize-none focus:outline-none text-gray-800 dark:text-gray-100"
+              value={content}
+              onChange={(e) => updateContent(e.target.value)}
+              onBlur={handleBlur}
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === 'Escape' || ((e.ctrlKey || e.metaKey) && e.key === 's')) {
+                  e.preventDefault();
+                  e.currentTarget.blur();
+                }
+              }}
+              readOnly={!isCollaborating}
+              style={labelStyle}
+              autoFocus
+              placeholder={isCollaborating ? "Label" : "Connecting..."}
+            />
+          ) : (
+            <div
+              className="w-full max-h-full whitespace-pre-wrap break-words select-none text-gray-800 dark:text-gray-100"
+              style={labelStyle}
+            >
+              {content}
+            </div>
+          )}
+        </div>
+
+        {/* Connector handle */}
+        {!readOnly && !isEditing && (
+          <div
+            className="absolute top-1/2 -right-2 w-4 h-4 -translate-y-1/2 rounded-full border-2 border-primary bg-background cursor-crosshair opacity-0 group-hover:opacity-100 transition-opacity"
+            onMouseDown={handleConnectStart}
+            title="Drag to connect to another node"
+          />
+        )}
+
+        {isSelected && !readOnly && !isEditing && (
+          <>
+            <div className="node-controls absolute -top-3 -right-3 flex gap-1">
+              <NodeStylePanel nodes={[node]}>
+                <button
+                  className="flex h-6 w-6 items-center justify-center rounded-full border bg-background shadow-sm hover:bg-accent"
+                  title="Style"
+                >
+                  <Palette className="h-3 w-3" />
+                </button>
+              </NodeStylePanel>
+              <button
+                className="flex h-6 w-6 items-center justify-center rounded-full border bg-background shadow-sm hover:bg-destructive hover:text-destructive-foreground"
+                onClick={handleDelete}
+                title="Delete shape"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+
+            {/* Resize handle */}
+            <div
+              className="absolute -bottom-2 -right-2 h-4 w-4 rounded-sm border-2 border-primary bg-background cursor-se-resize"
+              onMouseDown={handleResizeStart}
+              onTouchStart={handleTouchResizeStart}
+              onTouchMove={handleTouchResize}
+              onTouchEnd={handleTouchEnd}
+              title="Resize (hold Shift to keep proportions)"
+            />
+          </>
+        )}
+      </div>
+    );
+  }
+
+  // Frames are a title bar over a see-through area; only the bar and handles
+  // take pointer events so nodes and the canvas behind stay reachable
+  if (isFrame(node)) {
+    const collapsed = isFrameCollapsed(node);
+    const isInteracting = isDragging || isResizing;
+
+    return (
+      <div
+        ref={nodeRef}
+        id={`node-${node.id}`}
+        data-node-id={node.id}
+        className={cn(
+          "group absolute rounded-lg",
+          isInteracting ? "pointer-events-auto cursor-grabbing" : "pointer-events-none cursor-grab",
+          isSelected && "ring-2 ring-primary ring-offset-2 ring-offset-background",
+        )}
+        style={{
+          transform: `translate(${displayRect.x}px, ${displayRect.y}px)`,
+          width: displayRect.width,
+          height: collapsed ? FRAME_HEADER_HEIGHT : displayRect.height,
+          transition: isInteracting || isFollowingGroup ? 'none' : 'all 0.2s ease-out',
+          touchAction: "none",
+          willChange: isInteracting ? "transform" : "auto",
+        }}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+      >
+        <FrameHeader node={node} childCount={childCount} onDelete={handleDelete} />
+
+        {!collapsed && (
+          <>
+            <div
+              className="absolute inset-x-0 bottom-0 rounded-b-lg border-2 border-t-0 border-dashed border-primary/30 bg-primary/5"
+              style={{ top: FRAME_HEADER_HEIGHT }}
+            />
+
+            {/* Resize handle */}
+            {!readOnly && (
+              <div
+                className="absolute bottom-0 right-0 w-8 h-8 cursor-se-resize pointer-events-auto rounded-tl"
+                onMouseDown={handleResizeStart}
+                onTouchStart={handleTouchResizeStart}
+                onTouchMove={handleTouchResize}
+                onTouchEnd={handleTouchEnd}
+                style={{
+                  background: 'linear-gradient(135deg, transparent 50%, rgba(209, 213, 219, 0.5) 50%)',
+                }}
+              />
+            )}
+          </>
+        )}
+
+        {/* Connector handle */}
+        {!readOnly && (
+          <div
+            className="absolute w-4 h-4 -translate-y-1/2 rounded-full border-2 border-primary bg-background cursor-crosshair pointer-events-auto opacity-0 group-hover:opacity-100 transition-opacity"
+            style={{ top: FRAME_HEADER_HEIGHT / 2, right: -8 }}
+            onMouseDown={handleConnectStart}
+            title="Drag to connect to another node"
+          />
+        )}
+      </div>
+    );
+  }
 
   return (
     <div
       ref={nodeRef}
       id={`node-${node.id}`}
+      data-node-id={node.id}
       className={cn(
-        "absolute rounded-lg overflow-hidden transition-all duration-200",
-        "bg-gradient-to-b from-white to-gray-50 dark:from-gray-800 dark:to-gray-900",
+        "group absolute rounded-lg overflow-hidden transition-all duration-200",
+        noteColor
+          ? "bg-[var(--note-bg)] dark:bg-[var(--note-bg-dark)]"
+          : "bg-gradient-to-b from-white to-gray-50 dark:from-gray-800 dark:to-gray-900",
         "shadow-lg hover:shadow-xl",
         "before:absolute before:inset-0 before:rounded-lg before:pointer-events-none",
         "before:transition-opacity before:duration-200",
         "before:border-[1.5px] before:border-opacity-40 hover:before:border-opacity-60",
         isDragging && "cursor-grabbing opacity-75",
-        !isDragging && !isEditing && "cursor-grab",
+        !isDragging && !isEditing && !readOnly && "cursor-grab",
         isResizing && "cursor-se-resize opacity-75",
         isEditing && "ring-2 ring-primary/30 before:border-primary/60",
+        isSelected && !isEditing && "ring-2 ring-primary ring-offset-2 ring-offset-background",
       )}
       style={{
-        transform: `translate(${currentPosition.x}px, ${currentPosition.y}px)`,
-        width: currentDimensions.width,
-        height: currentDimensions.height,
-        transition: isDragging || isResizing ? 'none' : 'all 0.2s ease-out',
+        transform: `translate(${displayRect.x}px, ${displayRect.y}px)`,
+        width: displayRect.width,
+        height: displayRect.height,
+        transition: isDragging || isResizing || isFollowingGroup ? 'none' : 'all 0.2s ease-out',
         touchAction: "none",
         willChange: isDragging || isResizing ? "transform" : "auto",
         '--border-color': calculateBorderColor(),
+        '--note-bg': noteColor?.light,
+        '--note-bg-dark': noteColor?.dark,
+        ...calculateBorderStyle(),
+        // The drag and resize feedback wins over the node's own opacity
+        ...(!isDragging && !isResizing && appearance.opacity !== undefined && { opacity: appearance.opacity }),
       } as React.CSSProperties}
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
@@ -795,7 +1305,10 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
       {/* Header bar with controls */}
       <TooltipProvider delayDuration={300}>
         <div 
-          className="absolute top-0 left-0 right-0 bg-gray-100 dark:bg-gray-700 border-b dark:border-gray-600 flex items-center px-3 transition-all duration-200"
+          className={cn(
+            "absolute top-0 left-0 right-0 border-b flex items-center px-3 transition-all duration-200",
+            noteColor ? "bg-black/5 dark:bg-white/10 border-black/10 dark:border-white/10" : "bg-gray-100 dark:bg-gray-700 dark:border-gray-600"
+          )}
           style={{ 
             height: `${headerStyle.height}px`,
             minHeight: '32px'
@@ -814,9 +1327,23 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
           >
             {node.file_name || node.node_type}
           </div>
+
+          {tasks.total > 0 && (
+            <div
+              className={cn(
+                "flex items-center gap-1 mr-2 flex-shrink-0 select-none tabular-nums",
+                tasks.done === tasks.total ? "text-green-600 dark:text-green-400" : "text-gray-500 dark:text-gray-400"
+              )}
+              style={{ fontSize: `${headerStyle.fontSize - 2}px` }}
+              title={`${tasks.done} of ${tasks.total} tasks done`}
+            >
+              <ListChecks className="h-3.5 w-3.5" />
+              {tasks.done}/{tasks.total}
+            </div>
+          )}
           
           <div className="flex items-center gap-2">
-            {node.node_type === 'text' && (
+            {node.node_type === 'text' && !readOnly && (
               <>
                 {isSaving && (
                   <div className="text-xs text-muted-foreground animate-pulse">
@@ -890,6 +1417,53 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
               </>
             )}
             
+            {node.node_type === 'kanban' && !readOnly && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    onClick={handleExplode}
+                    className="p-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors flex items-center justify-center"
+                    style={{ 
+                      width: `${headerStyle.iconSize + 12}px`,
+                      height: `${headerStyle.iconSize + 12}px`
+                    }}
+                  >
+                    <Ungroup 
+                      style={{ width: `${headerStyle.iconSize}px`, height: `${headerStyle.iconSize}px` }}
+                      className="text-gray-500 dark:text-gray-400" 
+                    />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="top">
+                  <p>Explode to canvas</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+
+            {!readOnly && (
+              <Tooltip>
+                <NodeStylePanel nodes={[node]}>
+                  <TooltipTrigger asChild>
+                    <button
+                      className="p-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors flex items-center justify-center"
+                      style={{ 
+                        width: `${headerStyle.iconSize + 12}px`,
+                        height: `${headerStyle.iconSize + 12}px`
+                      }}
+                    >
+                      <Palette 
+                        style={{ width: `${headerStyle.iconSize}px`, height: `${headerStyle.iconSize}px` }}
+                        className="text-gray-500 dark:text-gray-400" 
+                      />
+                    </button>
+                  </TooltipTrigger>
+                </NodeStylePanel>
+                <TooltipContent side="top">
+                  <p>Style</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+
             <Tooltip>
               <TooltipTrigger asChild>
                 <button
@@ -932,26 +1506,28 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
               </TooltipContent>
             </Tooltip>
             
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <button
-                  onClick={handleDelete}
-                  className="p-1.5 rounded-full hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors flex items-center justify-center"
-                  style={{ 
-                    width: `${headerStyle.iconSize + 12}px`,
-                    height: `${headerStyle.iconSize + 12}px`
-                  }}
-                >
-                  <Trash2 
-                    style={{ width: `${headerStyle.iconSize}px`, height: `${headerStyle.iconSize}px` }}
-                    className="text-red-500 dark:text-red-400" 
-                  />
-                </button>
-              </TooltipTrigger>
-              <TooltipContent side="top">
-                <p>Delete</p>
-              </TooltipContent>
-            </Tooltip>
+            {!readOnly && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    onClick={handleDelete}
+                    className="p-1.5 rounded-full hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors flex items-center justify-center"
+                    style={{ 
+                      width: `${headerStyle.iconSize + 12}px`,
+                      height: `${headerStyle.iconSize + 12}px`
+                    }}
+                  >
+                    <Trash2 
+                      style={{ width: `${headerStyle.iconSize}px`, height: `${headerStyle.iconSize}px` }}
+                      className="text-red-500 dark:text-red-400" 
+                    />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="top">
+                  <p>Delete</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
           </div>
         </div>
       </TooltipProvider>
@@ -980,21 +1556,34 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
                   onBlur={handleBlur}
                   onClick={(e) => e.stopPropagation()}
                   onKeyDown={handleKeyDown}
+                  onSelect={(e) => broadcastCaret(e.currentTarget.selectionStart, e.currentTarget.selectionEnd)}
+                  readOnly={!isCollaborating}
                   style={{
                     ...contentStyle,
+                    ...(appearance.font && { fontFamily: NODE_FONTS[appearance.font].family }),
+                    ...(appearance.fontSize && { fontSize: `${appearance.fontSize}px` }),
+                    textAlign: appearance.textAlign,
                     fontWeight: textStyle.bold ? 'bold' : 'normal',
                     fontStyle: textStyle.italic ? 'italic' : 'normal',
                     textDecoration: textStyle.underline ? 'underline' : 'none'
                   }}
                   autoFocus
                   spellCheck="true"
-                  placeholder="Start typing... (Supports Markdown)"
+                  placeholder={isCollaborating ? "Start typing... (Supports Markdown)" : "Connecting..."}
+                />
+                <RemoteCarets
+                  textareaId={`textarea-${node.id}`}
+                  carets={collab.remoteCarets}
+                  content={content}
                 />
               </div>
             ) : (
               <div 
                 className="w-full h-full overflow-auto prose dark:prose-invert max-w-none prose-sm"
                 style={{
+                  fontFamily: appearance.font ? NODE_FONTS[appearance.font].family : undefined,
+                  fontSize: appearance.fontSize ? `${appearance.fontSize}px` : undefined,
+                  textAlign: appearance.textAlign,
                   fontWeight: textStyle.bold ? 'bold' : 'normal',
                   fontStyle: textStyle.italic ? 'italic' : 'normal',
                   textDecoration: textStyle.underline ? 'underline' : 'none'
@@ -1071,10 +1660,29 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
                     ),
                     td: ({node, ...props}) => (
                       <td {...props} className="border border-muted px-4 py-2" />
+                    ),
+                    li: ({node, className, ...props}) => className?.includes('task-list-item') ? (
+                      <li {...props} data-task-line={node?.position?.start.line} className={cn(className, "list-none")} />
+                    ) : (
+                      <li {...props} className={className} />
+                    ),
+                    // Task list checkboxes can be ticked right in the preview
+                    input: ({type, checked, disabled}) => type === 'checkbox' ? (
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        disabled={readOnly}
+                        onChange={handleToggleTask}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onDoubleClick={(e) => e.stopPropagation()}
+                        className={cn("mr-1.5 align-middle", !readOnly && "cursor-pointer")}
+                      />
+                    ) : (
+                      <input type={type} checked={checked} disabled={disabled} />
                     )
                   }}
                 >
-                  {content || 'Double click to edit'}
+                  {content || (readOnly ? '' : 'Double click to edit')}
                 </ReactMarkdown>
               </div>
             )}
@@ -1084,19 +1692,35 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({ node, scale, onUpdate }) => {
         {(node.node_type === 'image' || node.node_type === 'video' || node.node_type === 'pdf') && (
           <FilePreview node={node} />
         )}
+
+        {node.node_type === 'kanban' && (
+          <KanbanView node={node} readOnly={readOnly} />
+        )}
       </div>
 
-      {/* Resize handle */}
-      <div
-        className="absolute bottom-0 right-0 w-8 h-8 cursor-se-resize hover:bg-gray-200/50 dark:hover:bg-gray-700/50 rounded-tl transition-colors"
-        onMouseDown={handleResizeStart}
-        onTouchStart={handleTouchResizeStart}
-        onTouchMove={handleTouchResize}
-        onTouchEnd={handleTouchEnd}
-        style={{
-          background: 'linear-gradient(135deg, transparent 50%, rgba(209, 213, 219, 0.5) 50%)',
-        }}
-      />
+      {/* Viewers only get to look */}
+      {!readOnly && (
+        <>
+          {/* Connector handle */}
+          <div
+            className="absolute top-1/2 right-1 -translate-y-1/2 w-4 h-4 rounded-full border-2 border-primary bg-background cursor-crosshair opacity-0 group-hover:opacity-100 transition-opacity"
+            onMouseDown={handleConnectStart}
+            title="Drag to connect to another node"
+          />
+
+          {/* Resize handle */}
+          <div
+            className="absolute bottom-0 right-0 w-8 h-8 cursor-se-resize hover:bg-gray-200/50 dark:hover:bg-gray-700/50 rounded-tl transition-colors"
+            onMouseDown={handleResizeStart}
+            onTouchStart={handleTouchResizeStart}
+            onTouchMove={handleTouchResize}
+            onTouchEnd={handleTouchEnd}
+            style={{
+              background: 'linear-gradient(135deg, transparent 50%, rgba(209, 213, 219, 0.5) 50%)',
+            }}
+          />
+        </>
+      )}
     </div>
   );
 };
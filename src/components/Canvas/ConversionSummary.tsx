@@ -0,0 +1,26 @@
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import type { ConversionReport } from "@/lib/json-canvas";
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+/**
+ * What a JSON Canvas import or export carried over, and what it couldn't
+ */
+export const ConversionSummary = ({ report, verb }: { report: ConversionReport; verb: string }) => (
+  <div className="space-y-3 text-sm">
+    <p className="flex items-center gap-2">
+      <CheckCircle2 className="h-4 w-4 shrink-0 text-primary" />
+      {verb} {plural(report.nodes, "node")} and {plural(report.edges, "connector")}
+    </p>
+    {report.issues.length > 0 && (
+      <ul className="space-y-2 rounded-md border border-amber-500/40 bg-amber-500/10 p-3">
+        {report.issues.map((issue) => (
+          <li key={issue} className="flex gap-2 text-amber-700 dark:text-amber-400">
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+            <span>{issue}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,73 @@
+import { Layers } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { DEFAULT_DETAIL_THRESHOLDS, useDetailStore } from "@/lib/level-of-detail";
+
+const toPercent = (zoom: number) => `${Math.round(zoom * 100)}%`;
+
+/**
+ * Zoom levels below which nodes are simplified, to keep large canvases smooth
+ */
+export const DetailSettings = () => {
+  const thresholds = useDetailStore((state) => state.thresholds);
+  const setThresholds = useDetailStore((state) => state.setThresholds);
+
+  return (
+    <Popover>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="icon">
+              <Layers className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="right">
+          <p>Zoomed-out detail</p>
+        </TooltipContent>
+      </Tooltip>
+      <PopoverContent side="right" align="start" className="w-64 space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Simplify nodes below</Label>
+            <span className="text-xs text-muted-foreground">{toPercent(thresholds.placeholder)}</span>
+          </div>
+          <Slider
+            min={0.1}
+            max={1}
+            step={0.05}
+            value={[thresholds.placeholder]}
+            onValueChange={([placeholder]) => setThresholds({ ...thresholds, placeholder })}
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Draw as one layer below</Label>
+            <span className="text-xs text-muted-foreground">{toPercent(thresholds.canvas)}</span>
+          </div>
+          <Slider
+            min={0.1}
+            max={1}
+            step={0.05}
+            value={[thresholds.canvas]}
+            onValueChange={([canvas]) => setThresholds({ ...thresholds, canvas })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Selected nodes stay editable at any zoom. Zoom back in to see full content.
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() => setThresholds(DEFAULT_DETAIL_THRESHOLDS)}
+        >
+          Reset to defaults
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
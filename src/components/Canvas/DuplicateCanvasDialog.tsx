@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Copy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { toast } from "@/hooks/use-toast";
+import { sanitizeCanvasCode } from "@/lib/canvas-bundle";
+import { duplicateCanvas } from "@/lib/canvas-duplicate";
+
+/**
+ * Copies the open canvas, files included, to a new code and opens the copy
+ */
+export const DuplicateCanvasDialog = ({ code }: { code: string }) => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [newCode, setNewCode] = useState("");
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const cleanCode = sanitizeCanvasCode(newCode);
+
+  const handleOpenChange = (next: boolean) => {
+    if (isDuplicating) return;
+    if (next) setNewCode(`${code}-copy`);
+    setOpen(next);
+  };
+
+  const handleDuplicate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isDuplicating) return;
+
+    setIsDuplicating(true);
+    try {
+      // An empty name lets the server pick a free one
+      const copy = await duplicateCanvas(code, cleanCode);
+
+      if (copy.missingFiles.length > 0) {
+        toast({
+          title: "Duplicated With Missing Files",
+          description: `Notes stand in for what couldn't be copied: ${copy.missingFiles.join(", ")}`,
+          variant: "destructive"
+        });
+      }
+      setOpen(false);
+      navigate(`/${copy.code}`);
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Duplicate Failed"
+        });
+      });
+    } finally {
+      setIsDuplicating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="icon">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="right">
+          <div className="space-y-1">
+            <p>Duplicate canvas</p>
+            <p className="text-xs text-muted-foreground">Start a new canvas from this one</p>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Duplicate canvas</DialogTitle>
+          <DialogDescription>
+            Copies every node, connector and file to a new canvas you can edit. The trash, password and share links stay here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleDuplicate} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-code">New canvas name</Label>
+            <div className="flex items-center">
+              <div className="flex border border-r-0 border-input bg-muted h-10 px-3 rounded-l-md items-center text-sm text-muted-foreground" aria-hidden="true">
+                slates.me/
+              </div>
+              <Input
+                id="duplicate-code"
+                value={newCode}
+                onChange={(e) => setNewCode(e.target.value)}
+                placeholder="Leave empty to generate one"
+                className="rounded-l-none"
+                disabled={isDuplicating}
+                autoFocus
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={isDuplicating}>
+              {isDuplicating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isDuplicating ? "Duplicating..." : "Duplicate"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
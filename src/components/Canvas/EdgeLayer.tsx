@@ -0,0 +1,292 @@
+import { useEffect, useMemo, useState } from "react";
+import { Edge, EdgeLineStyle, Node } from "@/types";
+import { performMutation } from "@/lib/offline-store";
+import { patchCachedEdges, removeRows, upsertRows } from "@/lib/query-cache";
+import { FRAME_HEADER_HEIGHT, getMinNodeSize, getNodeRect, getRectBoundaryPoint, getRectCenter, Point, Rect } from "@/lib/geometry";
+import { applyGroupTransform, useCanvasStore } from "@/lib/store";
+import { isFrameCollapsed } from "@/lib/frames";
+import { cn } from "@/lib/utils";
+import { MoveLeft, MoveRight, Minus, Trash2 } from "lucide-react";
+
+const DASH_ARRAYS: Record<EdgeLineStyle, string | undefined> = {
+  solid: undefined,
+  dashed: "10 6",
+  dotted: "2 6",
+};
+
+const NEXT_LINE_STYLE: Record<EdgeLineStyle, EdgeLineStyle> = {
+  solid: "dashed",
+  dashed: "dotted",
+  dotted: "solid",
+};
+
+type EdgeUpdates = Partial<Pick<Edge, "label" | "arrow_start" | "arrow_end" | "line_style">>;
+
+interface EdgeLayerProps {
+  edges: Edge[];
+  nodes: Node[];
+  scale: number;
+}
+
+/**
+ * Compute the visible segment of an edge, clipped to the borders of both nodes
+ */
+const getEdgeSegment = (source: Rect, target: Rect): { start: Point; end: Point } => {
+  const start = getRectBoundaryPoint(source, getRectCenter(target));
+  const end = getRectBoundaryPoint(target, getRectCenter(source));
+  return { start, end };
+};
+
+export const EdgeLayer = ({ edges, nodes, scale }: EdgeLayerProps) => {
+  const liveRects = useCanvasStore((state) => state.liveRects);
+  const pendingLink = useCanvasStore((state) => state.pendingLink);
+  const groupTransform = useCanvasStore((state) => state.groupTransform);
+  const readOnly = useCanvasStore((state) => state.readOnly);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState("");
+
+  // Resolve node bounds, preferring live geometry while nodes are being dragged
+  const nodeRects = useMemo(() => {
+    const rects: Record<string, Rect> = {};
+    nodes.forEach((node) => {
+      const live = liveRects[node.id];
+      // Collapsed frames only show their header, even mid-drag
+      const rect = live && isFrameCollapsed(node)
+        ? { ...live, height: FRAME_HEADER_HEIGHT }
+        : live || getNodeRect(node);
+      const isFollower =
+        groupTransform &&
+        groupTransform.leaderId !== node.id &&
+        groupTransform.memberIds.includes(node.id);
+      rects[node.id] = isFollower
+        ? applyGroupTransform(rect, groupTransform, getMinNodeSize(node.node_type))
+        : rect;
+    });
+    return rects;
+  }, [nodes, liveRects, groupTransform]);
+
+  // Skip edges whose endpoints no longer exist (e.g. before a cascade delete syncs)
+  const segments = useMemo(() => {
+    return edges
+      .filter((edge) => nodeRects[edge.source_id] && nodeRects[edge.target_id])
+      .map((edge) => ({
+        edge,
+        ...getEdgeSegment(nodeRects[edge.source_id], nodeRects[edge.target_id]),
+      }));
+  }, [edges, nodeRects]);
+
+  const selected = segments.find((segment) => segment.edge.id === selectedEdgeId);
+
+  useEffect(() => {
+    setLabelDraft(selected?.edge.label || "");
+  }, [selected?.edge.id, selected?.edge.label]);
+
+  // Deselect when clicking anywhere outside the edge toolbar or another edge
+  useEffect(() => {
+    if (!selectedEdgeId) return;
+
+    const handlePointerDown = (e: MouseEvent) => {
+      const target = e.target as Element;
+      if (target.closest("[data-edge-toolbar]") || target.closest("[data-edge-id]")) return;
+      setSelectedEdgeId(null);
+    };
+
+    document.addEventListener("mousedown", handlePointerDown);
+    return () => document.removeEventListener("mousedown", handlePointerDown);
+  }, [selectedEdgeId]);
+
+  const updateEdge = async (edgeId: string, updates: EdgeUpdates) => {
+    try {
+      const changes = { ...updates, updated_at: new Date().toISOString() };
+      await performMutation({ kind: "update", table: "edges", ids: [edgeId], changes });
+      patchCachedEdges((cached) => upsertRows(cached, [{ ...changes, id: edgeId }], false));
+    } catch (error) {
+      import("@/lib/error-handler").then(({ handleError }) => {
+        handleError(error, {
+          title: "Connector Update Failed",
+          message: "Unable to update the connector"
+        });
+      });
+    }
+  };
+
+  const deleteEdge = async (edgeId: string) => {
+    setSelectedEdgeId(null);
+    try {
+      await performMutation({ kind: "delete", table: "edges", ids: [edgeId] });
+      patchCachedEdges((cached) => removeRows(cached, (edge) => edge.id === edgeId));
+    } catch (error) {
+      import("@/lib/error-handler").then(({ handleError }) => {
+        handleError(error, {
+          title: "Delete Failed",
+          message: "Unable to delete the connector"
+        });
+      });
+    }
+  };
+
+  const commitLabel = () => {
+    if (!selected) return;
+    const label = labelDraft.trim() || null;
+    if (label !== (selected.edge.label || null)) {
+      updateEdge(selected.edge.id, { label });
+    }
+  };
+
+  const pendingSegment = useMemo(() => {
+    if (!pendingLink || !nodeRects[pendingLink.sourceId]) return null;
+    return {
+      start: getRectBoundaryPoint(nodeRects[pendingLink.sourceId], pendingLink.pointer),
+      end: pendingLink.pointer,
+    };
+  }, [pendingLink, nodeRects]);
+
+  return (
+    <>
+      <svg
+        className="absolute top-0 left-0 overflow-visible pointer-events-none"
+        width={1}
+        height={1}
+      >
+        <defs>
+          <marker
+            id="edge-arrow"
+            viewBox="0 0 10 10"
+            refX="9"
+            refY="5"
+            markerWidth="8"
+            markerHeight="8"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-gray-500 dark:fill-gray-400" />
+          </marker>
+        </defs>
+
+        {segments.map(({ edge, start, end }) => {
+          const isSelected = edge.id === selectedEdgeId;
+          const midX = (start.x + end.x) / 2;
+          const midY = (start.y + end.y) / 2;
+
+          return (
+            <g key={edge.id} data-edge-id={edge.id}>
+              {/* Wide invisible stroke makes thin lines easy to click */}
+              <line
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                stroke="transparent"
+                strokeWidth={14 / scale}
+                style={{ pointerEvents: "stroke", cursor: "pointer" }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setSelectedEdgeId(edge.id);
+                }}
+              />
+              <line
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                className={cn(
+                  isSelected ? "stroke-primary" : "stroke-gray-500 dark:stroke-gray-400"
+                )}
+                strokeWidth={isSelected ? 3 : 2}
+                strokeDasharray={DASH_ARRAYS[edge.line_style]}
+                strokeLinecap="round"
+                markerStart={edge.arrow_start ? "url(#edge-arrow)" : undefined}
+                markerEnd={edge.arrow_end ? "url(#edge-arrow)" : undefined}
+              />
+              {edge.label && (
+                <text
+                  x={midX}
+                  y={midY}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  className="fill-gray-700 dark:fill-gray-200 stroke-gray-100 dark:stroke-gray-900 text-sm font-medium select-none"
+                  style={{ paintOrder: "stroke", strokeWidth: 4 }}
+                >
+                  {edge.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {pendingSegment && (
+          <line
+            x1={pendingSegment.start.x}
+            y1={pendingSegment.start.y}
+            x2={pendingSegment.end.x}
+            y2={pendingSegment.end.y}
+            className="stroke-primary"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            markerEnd="url(#edge-arrow)"
+          />
+        )}
+      </svg>
+
+      {selected && !readOnly && (
+        <div
+          data-edge-toolbar
+          className="absolute z-40 flex items-center gap-1 bg-background/95 backdrop-blur-sm p-1 rounded-lg border shadow-md"
+          style={{
+            transform: `translate(${(selected.start.x + selected.end.x) / 2}px, ${(selected.start.y + selected.end.y) / 2}px) scale(${1 / scale}) translate(-50%, calc(-100% - 12px))`,
+            transformOrigin: "0 0",
+          }}
+          onMouseDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+        >
+          <input
+            value={labelDraft}
+            onChange={(e) => setLabelDraft(e.target.value)}
+            onBlur={commitLabel}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+            }}
+            placeholder="Label"
+            className="h-7 w-28 rounded-md border bg-transparent px-2 text-xs focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+          <button
+            onClick={() => updateEdge(selected.edge.id, { arrow_start: !selected.edge.arrow_start })}
+            className={cn(
+              "h-7 w-7 rounded-md flex items-center justify-center hover:bg-muted",
+              selected.edge.arrow_start && "bg-muted text-primary"
+            )}
+            title="Toggle start arrow"
+          >
+            <MoveLeft className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => updateEdge(selected.edge.id, { arrow_end: !selected.edge.arrow_end })}
+            className={cn(
+              "h-7 w-7 rounded-md flex items-center justify-center hover:bg-muted",
+              selected.edge.arrow_end && "bg-muted text-primary"
+            )}
+            title="Toggle end arrow"
+          >
+            <MoveRight className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => updateEdge(selected.edge.id, { line_style: NEXT_LINE_STYLE[selected.edge.line_style] })}
+            className="h-7 px-2 rounded-md flex items-center gap-1 text-xs hover:bg-muted capitalize"
+            title="Change line style"
+          >
+            <Minus className="h-4 w-4" />
+            {selected.edge.line_style}
+          </button>
+          <button
+            onClick={() => deleteEdge(selected.edge.id)}
+            className="h-7 w-7 rounded-md flex items-center justify-center text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30"
+            title="Delete connector"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
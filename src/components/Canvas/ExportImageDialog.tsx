@@ -0,0 +1,230 @@
+import { useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  ExportFormat,
+  ExportTheme,
+  getExportBounds,
+  getNodesInRegion,
+  getSafePixelRatio,
+  renderCanvasPdf,
+  renderCanvasPng,
+  renderCanvasSvg,
+} from "@/lib/canvas-export";
+import { downloadBlob } from "@/lib/download";
+import { getFrameTitle, isFrame } from "@/lib/frames";
+import { Rect } from "@/lib/geometry";
+import { useCanvasStore } from "@/lib/store";
+import { Edge, Node } from "@/types";
+
+interface ExportImageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  code: string;
+  nodes: Node[];
+  edges: Edge[];
+  viewportBounds?: Rect;
+}
+
+const PIXEL_RATIOS = [1, 2, 4];
+
+// Frames fill their page in one-page-per-frame PDFs
+const PAGE_PADDING = 20;
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  png: "image/png",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+};
+
+/**
+ * Export the whole canvas, the current view, the selection or a single
+ * frame as PNG, SVG or PDF
+ */
+export const ExportImageDialog = ({ open, onOpenChange, code, nodes, edges, viewportBounds }: ExportImageDialogProps) => {
+  const selectedIds = useCanvasStore((state) => state.selectedIds);
+  const [area, setArea] = useState("canvas");
+  const [format, setFormat] = useState<ExportFormat>("png");
+  const [pixelRatio, setPixelRatio] = useState(2);
+  const [theme, setTheme] = useState<ExportTheme>(
+    () => (document.documentElement.classList.contains("dark") ? "dark" : "light")
+  );
+  const [background, setBackground] = useState(true);
+  const [pagePerFrame, setPagePerFrame] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const frames = useMemo(() => nodes.filter(isFrame), [nodes]);
+  const selected = useMemo(() => nodes.filter((node) => selectedIds.includes(node.id)), [nodes, selectedIds]);
+
+  const region = useMemo((): Rect | null => {
+    if (area === "view") return viewportBounds ?? null;
+    if (area === "selection") return getExportBounds(selected);
+    if (area.startsWith("frame:")) {
+      const frame = frames.find((node) => `frame:${node.id}` === area);
+      return frame ? getExportBounds([frame]) : null;
+    }
+    return getExportBounds(nodes);
+  }, [area, viewportBounds, selected, frames, nodes]);
+
+  // Frames within the region, top to bottom, for one-page-per-frame PDFs
+  const regionFrames = useMemo(
+    () => (region ? getNodesInRegion(frames, region) : [])
+      .map((frame) => getExportBounds([frame], PAGE_PADDING) as Rect)
+      .sort((a, b) => a.y - b.y || a.x - b.x),
+    [frames, region]
+  );
+
+  const effectiveRatio = region ? getSafePixelRatio(region, pixelRatio) : pixelRatio;
+
+  const handleExport = async () => {
+    if (!region || progress !== null) return;
+
+    setProgress("Rendering...");
+    try {
+      const options = { theme, background };
+      let blob: Blob;
+      if (format === "svg") {
+        blob = new Blob([await renderCanvasSvg(nodes, edges, region, options)], { type: MIME_TYPES.svg });
+      } else if (format === "png") {
+        blob = await renderCanvasPng(nodes, edges, region, options, pixelRatio);
+      } else {
+        const pages = pagePerFrame && regionFrames.length > 0
+          ? regionFrames
+          : [region];
+        blob = await renderCanvasPdf(nodes, edges, pages, options, (page) => {
+          if (pages.length > 1) setProgress(`Rendering page ${page + 1}/${pages.length}`);
+        });
+      }
+
+      downloadBlob(blob, `${code}.${format}`);
+      onOpenChange(false);
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Export Failed",
+          message: "Unable to render this canvas"
+        });
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => progress === null && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export image or PDF</DialogTitle>
+          <DialogDescription>Rendered at full quality, including parts of the canvas that are off screen.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Area</Label>
+            <Select value={area} onValueChange={setArea}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="canvas">Whole canvas</SelectItem>
+                <SelectItem value="view" disabled={!viewportBounds}>Current view</SelectItem>
+                <SelectItem value="selection" disabled={selected.length === 0}>
+                  Selection{selected.length > 0 && ` (${selected.length})`}
+                </SelectItem>
+                {frames.map((frame) => (
+                  <SelectItem key={frame.id} value={`frame:${frame.id}`}>
+                    Frame: {getFrameTitle(frame)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={format}
+              onValueChange={(value) => value && setFormat(value as ExportFormat)}
+            >
+              <ToggleGroupItem value="png">PNG</ToggleGroupItem>
+              <ToggleGroupItem value="svg">SVG</ToggleGroupItem>
+              <ToggleGroupItem value="pdf">PDF</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          {format === "png" && (
+            <div className="space-y-2">
+              <Label>Scale</Label>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                className="justify-start"
+                value={String(pixelRatio)}
+                onValueChange={(value) => value && setPixelRatio(Number(value))}
+              >
+                {PIXEL_RATIOS.map((ratio) => (
+                  <ToggleGroupItem key={ratio} value={String(ratio)}>{ratio}x</ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              {region && (
+                <p className="text-xs text-muted-foreground">
+                  {Math.round(region.width * effectiveRatio)} × {Math.round(region.height * effectiveRatio)} px
+                  {effectiveRatio < pixelRatio && " (reduced to fit the browser's limits)"}
+                </p>
+              )}
+            </div>
+          )}
+
+          {format === "pdf" && regionFrames.length > 0 && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="export-page-per-frame">One page per frame</Label>
+              <Switch id="export-page-per-frame" checked={pagePerFrame} onCheckedChange={setPagePerFrame} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Theme</Label>
+            <Select value={theme} onValueChange={(value) => setTheme(value as ExportTheme)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="light">Light</SelectItem>
+                <SelectItem value="dark">Dark</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {format !== "pdf" && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="export-background">Include background</Label>
+              <Switch id="export-background" checked={background} onCheckedChange={setBackground} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={!region || progress !== null}>
+            {progress !== null && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {progress ?? `Export ${format.toUpperCase()}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { Download, FileArchive, FileImage, FileJson, FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { toast } from "@/hooks/use-toast";
+import type { Tables } from "@/integrations/supabase/types";
+import { exportCanvasBundle } from "@/lib/canvas-bundle";
+import { getFileUrls } from "@/lib/canvas-files";
+import { MARKDOWN_ORDERS, MarkdownOrder, toMarkdown } from "@/lib/canvas-markdown";
+import { downloadBlob } from "@/lib/download";
+import type { Rect } from "@/lib/geometry";
+import { ConversionReport, toJsonCanvas } from "@/lib/json-canvas";
+import { Edge, Node } from "@/types";
+import { ConversionSummary } from "./ConversionSummary";
+import { ExportImageDialog } from "./ExportImageDialog";
+
+// How long file links in a Markdown export keep working
+const MARKDOWN_LINK_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+/**
+ * Ways to get a canvas out of Slate: a zip that can be imported from the
+ * home page, a JSON Canvas file for Obsidian and friends, a Markdown
+ * document of its notes, or a picture of it
+ */
+export const ExportMenu = ({ canvas, nodes, edges, viewportBounds }: {
+  canvas: Tables<"canvases">;
+  nodes: Node[];
+  edges: Edge[];
+  viewportBounds?: Rect;
+}) => {
+  const [progress, setProgress] = useState<string | null>(null);
+  const [report, setReport] = useState<ConversionReport | null>(null);
+  const [imageDialogOpen, setImageDialogOpen] = useState(false);
+
+  const handleExportBundle = async () => {
+    setProgress("Preparing...");
+    try {
+      const { blob, missingFiles } = await exportCanvasBundle(canvas, nodes, edges, ({ done, total }) => {
+        if (total > 0) setProgress(`Downloading files ${done}/${total}`);
+      });
+      downloadBlob(blob, `${canvas.code}.slate.zip`);
+
+      if (missingFiles > 0) {
+        toast({
+          title: "Exported With Missing Files",
+          description: `${missingFiles} ${missingFiles === 1 ? "file" : "files"} couldn't be downloaded and were left out`,
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Export Failed",
+          message: "Unable to export this canvas"
+        });
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleExportJsonCanvas = () => {
+    const { canvas: doc, report } = toJsonCanvas(nodes, edges);
+    downloadBlob(
+      new Blob([JSON.stringify(doc, null, 2)], { type: "application/json" }),
+      `${canvas.code}.canvas`
+    );
+    // Only worth interrupting for if something was lost on the way
+    if (report.issues.length > 0) setReport(report);
+  };
+
+  const handleExportMarkdown = async (order: MarkdownOrder) => {
+    setProgress("Preparing...");
+    try {
+      const paths = nodes.map((node) => node.file_path).filter((path): path is string => !!path);
+      const fileUrls = await getFileUrls(paths, MARKDOWN_LINK_TTL_SECONDS);
+      downloadBlob(
+        new Blob([toMarkdown(nodes, order, canvas.code, fileUrls)], { type: "text/markdown" }),
+        `${canvas.code}.md`
+      );
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Export Failed",
+          message: "Unable to export this canvas"
+        });
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="icon" disabled={progress !== null}>
+                {progress !== null ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              </Button>
+            </DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent side="right">
+            <p>{progress ?? "Export canvas"}</p>
+          </TooltipContent>
+        </Tooltip>
+        <DropdownMenuContent side="right" align="start" className="w-64">
+          <DropdownMenuLabel>Export canvas</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={handleExportBundle}>
+            <FileArchive className="mr-2 h-4 w-4" />
+            <div>
+              <p>Slate bundle (.zip)</p>
+              <p className="text-xs text-muted-foreground">Every node and file, to import later</p>
+            </div>
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleExportJsonCanvas}>
+            <FileJson className="mr-2 h-4 w-4" />
+            <div>
+              <p>JSON Canvas (.canvas)</p>
+              <p className="text-xs text-muted-foreground">For Obsidian and other JSON Canvas apps</p>
+            </div>
+          </DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <FileText className="mr-2 h-4 w-4" />
+              <div>
+                <p>Markdown (.md)</p>
+                <p className="text-xs text-muted-foreground">Notes as one document, for a wiki; file links last a week</p>
+              </div>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-64">
+              <DropdownMenuLabel>Reading order</DropdownMenuLabel>
+              {(Object.keys(MARKDOWN_ORDERS) as MarkdownOrder[]).map((order) => (
+                <DropdownMenuItem key={order} onSelect={() => handleExportMarkdown(order)}>
+                  <div>
+                    <p>{MARKDOWN_ORDERS[order].label}</p>
+                    <p className="text-xs text-muted-foreground">{MARKDOWN_ORDERS[order].description}</p>
+                  </div>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuItem onSelect={() => setImageDialogOpen(true)}>
+            <FileImage className="mr-2 h-4 w-4" />
+            <div>
+              <p>Image or PDF...</p>
+              <p className="text-xs text-muted-foreground">Sharp PNG, SVG or PDF for slides and documents</p>
+            </div>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={report !== null} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Exported to JSON Canvas</DialogTitle>
+            <DialogDescription>Some parts of this canvas have no JSON Canvas equivalent.</DialogDescription>
+          </DialogHeader>
+          {report && <ConversionSummary report={report} verb="Exported" />}
+        </DialogContent>
+      </Dialog>
+
+      <ExportImageDialog
+        open={imageDialogOpen}
+        onOpenChange={setImageDialogOpen}
+        code={canvas.code}
+        nodes={nodes}
+        edges={edges}
+        viewportBounds={viewportBounds}
+      />
+    </>
+  );
+};
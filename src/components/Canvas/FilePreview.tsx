@@ -1,5 +1,6 @@
 import { Node } from "@/types";
-import { supabase } from "@/integrations/supabase/client";
+import { getFileUrl } from "@/lib/canvas-files";
+import { useFileUrl } from "@/hooks/useFileUrl";
 import { FileIcon, ImageIcon, VideoIcon, AlertCircle, FileText, Film, Music, Code, Archive, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, RotateCw } from "lucide-react";
 import { useEffect, useState, useRef } from "react";
 import { Progress } from "@/components/ui/progress";
@@ -61,21 +62,11 @@ export const FilePreview = ({ node }: FilePreviewProps) => {
   
   const fileType = getFileType();
 
-  // Generate signed URL with proper cache control to avoid stale content
-  const getFileUrl = () => {
-    if (!node.file_path) return '';
-    
-    try {
-      // For retry mechanism, add cache-breaking query parameter
-      const cacheBuster = retryCount > 0 ? `?cache=${Date.now()}` : '';
-      return supabase.storage.from('slate_files').getPublicUrl(node.file_path).data.publicUrl + cacheBuster;
-    } catch (error) {
-      console.error('Error generating URL:', error);
-      return '';
-    }
-  };
+  // Files are only signed once they scroll into view
+  const signedUrl = useFileUrl(isVisible ? node.file_path : null);
 
-  const fileUrl = getFileUrl();
+  // For retry mechanism, add cache-breaking query parameter
+  const fileUrl = signedUrl ? signedUrl + (retryCount > 0 ? `&cache=${Date.now()}` : '') : '';
 
   // Handle retry button click
   const handleRetry = () => {
@@ -199,16 +190,16 @@ export const FilePreview = ({ node }: FilePreviewProps) => {
         
         // Set src to load small preview
         if (node.file_path) {
-          smallPreview.src = supabase.storage
-            .from('slate_files')
-            .getPublicUrl(node.file_path, {
-              transform: {
-                width: 200,
-                height: 100,
-                quality: 10,
-                format: 'origin'
-              }
-            }).data.publicUrl;
+          getFileUrl(node.file_path, {
+            width: 200,
+            height: 100,
+            quality: 10,
+            format: 'origin'
+          })
+            .then((url) => {
+              smallPreview.src = url;
+            })
+            .catch((error) => console.error('Error generating preview URL:', error));
         }
       } else {
         // For non-images, use normal progress simulation
@@ -333,8 +324,8 @@ export const FilePreview = ({ node }: FilePreviewProps) => {
     </div>
   );
 
-  // Return loading placeholder if not yet visible
-  if (!isVisible) {
+  // Return loading placeholder if not yet visible or signed
+  if (!isVisible || !fileUrl) {
     return <LoadingPlaceholder />;
   }
 
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Node } from "@/types";
+import { FRAME_HEADER_HEIGHT } from "@/lib/geometry";
+import { getFrameTitle, isFrameCollapsed } from "@/lib/frames";
+import { updateNodeContent, updateNodeStyle } from "@/lib/node-mutations";
+import { useCanvasStore } from "@/lib/store";
+import { cn } from "@/lib/utils";
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+
+interface FrameHeaderProps {
+  node: Node;
+  childCount: number;
+  onDelete: () => void;
+}
+
+/**
+ * Title bar of a frame: drag handle, editable title and collapse toggle
+ */
+export const FrameHeader = ({ node, childCount, onDelete }: FrameHeaderProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [titleDraft, setTitleDraft] = useState(node.content || '');
+  const collapsed = isFrameCollapsed(node);
+  const readOnly = useCanvasStore((state) => state.readOnly);
+
+  useEffect(() => {
+    if (!isEditing) setTitleDraft(node.content || '');
+  }, [node.content, isEditing]);
+
+  const handleSaveTitle = async () => {
+    setIsEditing(false);
+    const title = titleDraft.trim();
+    if (!title) {
+      setTitleDraft(node.content || '');
+      return;
+    }
+
+    try {
+      await updateNodeContent(node.id, node.content || '', title);
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Rename Failed",
+          message: "Unable to rename the frame"
+        });
+      });
+    }
+  };
+
+  const handleToggleCollapsed = async () => {
+    try {
+      await updateNodeStyle(node, { collapsed: !collapsed }, collapsed ? 'Expand frame' : 'Collapse frame');
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Frame Update Failed",
+          message: `Unable to ${collapsed ? 'expand' : 'collapse'} the frame`
+        });
+      });
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "absolute top-0 left-0 right-0 flex items-center gap-2 px-3 pointer-events-auto",
+        "bg-primary/10 backdrop-blur-sm border-2 border-primary/30",
+        collapsed ? "rounded-lg" : "rounded-t-lg"
+      )}
+      style={{ height: FRAME_HEADER_HEIGHT }}
+      onDoubleClick={(e) => {
+        e.stopPropagation();
+        if (!readOnly) setIsEditing(true);
+      }}
+    >
+      {!readOnly && (
+        <button
+          onClick={handleToggleCollapsed}
+          className="p-1 rounded hover:bg-primary/10 transition-colors"
+          title={collapsed ? "Expand frame" : "Collapse frame"}
+        >
+          {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </button>
+      )}
+
+      {isEditing ? (
+        <input
+          className="flex-1 min-w-0 bg-background/80 rounded px-2 py-0.5 text-sm font-semibold focus:outline-none focus:ring-1 focus:ring-primary"
+          value={titleDraft}
+          onChange={(e) => setTitleDraft(e.target.value)}
+          onMouseDown={(e) => e.stopPropagation()}
+          onBlur={handleSaveTitle}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') {
+              setTitleDraft(node.content || '');
+              setIsEditing(false);
+            }
+          }}
+          autoFocus
+        />
+      ) : (
+        <div className="flex-1 min-w-0 truncate text-sm font-semibold select-none" title={readOnly ? undefined : "Double click to rename"}>
+          {getFrameTitle(node)}
+        </div>
+      )}
+
+      {collapsed && childCount > 0 && (
+        <span className="text-xs text-muted-foreground select-none">
+          {childCount} {childCount === 1 ? 'node' : 'nodes'}
+        </span>
+      )}
+
+      {!readOnly && (
+        <button
+          onClick={onDelete}
+          className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+          title="Delete frame (contents are kept)"
+        >
+          <Trash2 className="h-4 w-4 text-red-500 dark:text-red-400" />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import { importCanvasBundle, sanitizeCanvasCode } from "@/lib/canvas-bundle";
+
+/**
+ * Recreates an exported canvas under a new code
+ */
+export const ImportCanvasDialog = () => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [code, setCode] = useState("");
+  const [progress, setProgress] = useState<string | null>(null);
+  const cleanCode = sanitizeCanvasCode(code);
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    // Suggest the exported canvas' name
+    if (selected && !code) {
+      setCode(`${selected.name.replace(/\.slate\.zip$|\.zip$/i, "")}-copy`);
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !cleanCode || progress !== null) return;
+
+    setProgress("Reading export...");
+    try {
+      const { missingFiles } = await importCanvasBundle(file, cleanCode, ({ done, total }) => {
+        if (total > 0) setProgress(`Uploading files ${done}/${total}`);
+      });
+
+      if (missingFiles > 0) {
+        toast({
+          title: "Imported With Missing Files",
+          description: `${missingFiles} ${missingFiles === 1 ? "node lost its file" : "nodes lost their files"}`,
+          variant: "destructive"
+        });
+      }
+      navigate(`/${cleanCode}`);
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Import Failed"
+        });
+      });
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => progress === null && setOpen(next)}>
+      <DialogTrigger asChild>
+        <Button variant="link" className="text-muted-foreground">
+          <Upload className="mr-2 h-4 w-4" />
+          Import a canvas
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import canvas</DialogTitle>
+          <DialogDescription>
+            Pick a zip made with "Export canvas". It's recreated, files included, under a new name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleImport} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">Export file</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".zip,application/zip"
+              disabled={progress !== null}
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="import-code">New canvas name</Label>
+            <div className="flex items-center">
+              <div className="flex border border-r-0 border-input bg-muted h-10 px-3 rounded-l-md items-center text-sm text-muted-foreground" aria-hidden="true">
+                slates.me/
+              </div>
+              <Input
+                id="import-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="your-canvas-name"
+                className="rounded-l-none"
+                disabled={progress !== null}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={!file || !cleanCode || progress !== null}>
+              {progress !== null && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {progress ?? "Import"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
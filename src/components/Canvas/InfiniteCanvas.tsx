@@ -1,14 +1,24 @@
 import { useCallback, useRef, useState, useEffect } from "react";
-import { useParams } from "react-router-dom";
+import { useLocation, useParams } from "react-router-dom";
 import { useCanvas } from "@/hooks/useCanvas";
+import { usePresence } from "@/hooks/usePresence";
+import { useSpatialIndex } from "@/hooks/useSpatialIndex";
 import { NodeList } from "./NodeList";
 import { CanvasControls } from "./CanvasControls";
 import { Minimap } from "./Minimap";
 import { NodeFinder } from "./NodeFinder";
+import { SelectionToolbar } from "./SelectionToolbar";
+import { RemoteCursors } from "./RemoteCursors";
+import { InkLayer } from "./InkLayer";
+import { CanvasLockScreen, CanvasNotFound } from "./CanvasLockScreen";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/integrations/supabase/client";
 import { NodeData } from "@/types";
 import { animate } from "../../lib/animation";
+import { useCanvasStore } from "@/lib/store";
+import { useHistoryStore } from "@/lib/history";
+import { createNode } from "@/lib/node-mutations";
+import { findAvailablePosition } from "@/lib/node-placement";
+import { getTemplate, insertTemplate } from "@/lib/canvas-templates";
 
 export const InfiniteCanvas = () => {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -17,10 +27,22 @@ export const InfiniteCanvas = () => {
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const { code } = useParams();
+  const location = useLocation();
+  // Set by the home page, the only place that starts new canvases
+  const createState = location.state as { create?: boolean; template?: string } | null;
+  const shouldCreate = !!createState?.create;
   const [lastActiveTextNodeId, setLastActiveTextNodeId] = useState<string | null>(null);
+  // Rubber-band selection rectangle in container (screen) coordinates
+  const [marquee, setMarquee] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null);
+  const addToSelection = useCanvasStore((state) => state.addToSelection);
+  const clearSelection = useCanvasStore((state) => state.clearSelection);
+  const setReadOnly = useCanvasStore((state) => state.setReadOnly);
   
   // Get canvas data and nodes
-  const { nodes, canvas, viewConfig, updateViewConfig } = useCanvas(code);
+  const { nodes, edges, canvas, isMissing, access, createCanvas, viewConfig, updateViewConfig } = useCanvas(code);
+  const spatialIndex = useSpatialIndex(nodes);
+  const { broadcastCursor } = usePresence(canvas && access !== 'none' ? code : undefined);
+  const createRequestedRef = useRef(false);
   const [isInitialized, setIsInitialized] = useState(false);
   const [viewportBounds, setViewportBounds] = useState({ x: 0, y: 0, width: 0, height: 0 });
   const [loadingState] = useState<'initializing' | 'loading-canvas' | 'loading-nodes' | 'ready' | 'error'>('ready');
@@ -54,6 +76,33 @@ export const InfiniteCanvas = () => {
     [updateViewConfig]
   );
 
+  useEffect(() => {
+    if (isMissing && shouldCreate && !createRequestedRef.current) {
+      createRequestedRef.current = true;
+      const template = createState?.template ? getTemplate(createState.template) : undefined;
+      createCanvas().then((newCanvas) => {
+        if (!newCanvas || !template) return;
+        // The canvas is empty, so the template ends up centered on the origin
+        insertTemplate(template, {
+          canvasId: newCanvas.id,
+          place: (size) => findAvailablePosition(spatialIndex, size, null),
+        }).catch((error) => {
+          import('@/lib/error-handler').then(({ handleError }) => {
+            handleError(error, {
+              title: "Template Failed",
+              message: "The canvas was created, but the template couldn't be added"
+            });
+          });
+        });
+      });
+    }
+  }, [isMissing, shouldCreate, createState, createCanvas, spatialIndex]);
+
+  useEffect(() => {
+    setReadOnly(access === 'view');
+    return () => setReadOnly(false);
+  }, [access, setReadOnly]);
+
   useEffect(() => {
     if (containerRef.current) {
       const { width, height } = containerRef.current.getBoundingClientRect();
@@ -165,6 +214,40 @@ export const InfiniteCanvas = () => {
     }
   }, [nodes, scale, animateToPosition]);
 
+  // Undo/redo shortcuts; text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (!(e.ctrlKey || e.metaKey) || useCanvasStore.getState().readOnly) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        useHistoryStore.getState().undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        useHistoryStore.getState().redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // History belongs to a single canvas; leaving it finalizes recorded commands
+  useEffect(() => {
+    if (!canvas?.id) return;
+
+    const finalizeHistory = () => useHistoryStore.getState().reset();
+    window.addEventListener('pagehide', finalizeHistory);
+
+    return () => {
+      window.removeEventListener('pagehide', finalizeHistory);
+      finalizeHistory();
+    };
+  }, [canvas?.id]);
+
   useEffect(() => {
     const preventDefaultZoom = (e: WheelEvent | TouchEvent) => {
       if ((e as WheelEvent).ctrlKey || 
@@ -309,16 +392,57 @@ export const InfiniteCanvas = () => {
     }
   }, [initialPinchDistance, isDragging, scale, position, debouncedUpdateViewConfig]);
 
+  const getContainerPoint = (e: React.MouseEvent | MouseEvent) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return {
+      x: e.clientX - (rect?.left || 0),
+      y: e.clientY - (rect?.top || 0)
+    };
+  };
+
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     // Only handle left click and ignore clicks on nodes or controls
     if (e.button === 0 && e.target === e.currentTarget) {
       document.body.style.userSelect = 'none';
+
+      // Shift-drag on empty space draws a selection rectangle instead of panning
+      if (e.shiftKey) {
+        const point = getContainerPoint(e);
+        setMarquee({ start: point, end: point });
+        return;
+      }
+
+      clearSelection();
       setIsDragging(true);
       setDragStart({ x: e.clientX - position.x, y: e.clientY - position.y });
     }
-  }, [position]);
+  }, [position, clearSelection]);
+
+  const finishMarquee = useCallback(() => {
+    if (!marquee) return;
+    document.body.style.userSelect = '';
+
+    // Convert the screen-space rectangle into world coordinates
+    const worldRect = {
+      x: (Math.min(marquee.start.x, marquee.end.x) - position.x) / scale,
+      y: (Math.min(marquee.start.y, marquee.end.y) - position.y) / scale,
+      width: Math.abs(marquee.end.x - marquee.start.x) / scale,
+      height: Math.abs(marquee.end.y - marquee.start.y) / scale
+    };
+
+    const hits = spatialIndex.search(worldRect).map(node => node.id);
+
+    addToSelection(hits);
+    setMarquee(null);
+  }, [marquee, position, scale, spatialIndex, addToSelection]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
+    if (marquee) {
+      const point = getContainerPoint(e);
+      setMarquee(prev => prev && { ...prev, end: point });
+      return;
+    }
+
     if (isDragging) {
       e.preventDefault();
       const newPosition = {
@@ -327,17 +451,38 @@ export const InfiniteCanvas = () => {
       };
       setPosition(newPosition);
     }
-  }, [isDragging, dragStart]);
+  }, [isDragging, dragStart, marquee]);
 
   const handleMouseUp = useCallback((e: React.MouseEvent) => {
+    if (marquee) {
+      finishMarquee();
+      return;
+    }
+
     if (isDragging) {
       document.body.style.userSelect = '';
       debouncedUpdateViewConfig({ zoom: scale, position });
       setIsDragging(false);
     }
-  }, [isDragging, scale, position, debouncedUpdateViewConfig]);
+  }, [isDragging, scale, position, debouncedUpdateViewConfig, marquee, finishMarquee]);
+
+  // Share the pointer with other visitors, even while it is over a node
+  const handleCursorMove = useCallback((e: React.MouseEvent) => {
+    const point = getContainerPoint(e);
+    broadcastCursor({
+      x: (point.x - position.x) / scale,
+      y: (point.y - position.y) / scale
+    });
+  }, [broadcastCursor, position, scale]);
 
   const handleMouseLeave = useCallback(() => {
+    broadcastCursor(null);
+
+    if (marquee) {
+      finishMarquee();
+      return;
+    }
+
     if (isDragging) {
       // Add a global mouse up listener to handle cases where the mouse leaves the window
       document.addEventListener('mouseup', () => {
@@ -346,7 +491,7 @@ export const InfiniteCanvas = () => {
         setIsDragging(false);
       }, { once: true });
     }
-  }, [isDragging, scale, position, debouncedUpdateViewConfig]);
+  }, [isDragging, scale, position, debouncedUpdateViewConfig, marquee, finishMarquee, broadcastCursor]);
 
   const handleAddNode = async (nodeData: NodeData) => {
     try {
@@ -364,22 +509,13 @@ export const InfiniteCanvas = () => {
         file_path: nodeData.file_path || null,
         file_name: nodeData.file_name || null,
         file_type: nodeData.file_type || null,
-        style: nodeData.style ? JSON.stringify(nodeData.style) : null
+        style: nodeData.style ? JSON.stringify(nodeData.style) : null,
+        parent_id: nodeData.parent_id || null
       };
 
-      const { data, error } = await supabase
-        .from('nodes')
-        .insert(nodeForInsert)
-        .select()
-        .single();
-
-      if (error) {
-        throw error;
-      }
-
-      if (!data) {
-        throw new Error('No data returned after node creation');
-      }
+      // The node is added to the cache straight away, so start panning to it
+      // without waiting for the insert to be confirmed
+      const created = createNode(nodeForInsert);
 
       // Navigate to the newly created node
       const position = typeof nodeData.position === 'string' 
@@ -400,7 +536,7 @@ export const InfiniteCanvas = () => {
         animateToPosition({ x: targetX, y: targetY });
       }
 
-      return data;
+      return await created;
     } catch (error) {
       import('@/lib/error-handler').then(({ handleError }) => {
         handleError(error, {
@@ -496,6 +632,14 @@ export const InfiniteCanvas = () => {
     animateToPosition({x: targetX, y: targetY});
   }, [nodes, scale, animateToPosition]);
 
+  if (code && isMissing && !shouldCreate) {
+    return <CanvasNotFound code={code} onCreate={createCanvas} />;
+  }
+
+  if (code && canvas && access === 'none') {
+    return <CanvasLockScreen code={code} hasPassword={!!canvas.has_password} />;
+  }
+
   return (
     <>
       <div
@@ -513,6 +657,7 @@ export const InfiniteCanvas = () => {
         onWheel={handleWheel}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
+        onMouseMoveCapture={handleCursorMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseLeave}
         onTouchStart={handleTouchStart}
@@ -523,14 +668,19 @@ export const InfiniteCanvas = () => {
           code={code || ''}
           canvasId={canvas?.id || ''}
           nodes={nodes}
+          edges={edges}
           viewportBounds={viewportBounds}
           onAddNode={handleAddNode}
           onZoomIn={handleZoomIn}
           onZoomOut={handleZoomOut}
           onCenterView={centerViewOnContent}
           scale={scale}
+          spatialIndex={spatialIndex}
+          canvas={canvas}
         />
         
+        <SelectionToolbar nodes={nodes} />
+
         <NodeFinder 
           nodes={nodes} 
           onNavigateToNode={handleNavigateToNode}
@@ -542,6 +692,7 @@ export const InfiniteCanvas = () => {
             nodes={nodes} 
             viewportBounds={viewportBounds} 
             onNavigate={handleNavigateToPosition} 
+            spatialIndex={spatialIndex}
           />
         )}
         
@@ -554,10 +705,29 @@ export const InfiniteCanvas = () => {
         >
           <NodeList 
             nodes={nodes} 
+            edges={edges}
             scale={scale} 
             viewportBounds={viewportBounds} 
+            spatialIndex={spatialIndex}
           />
+          <RemoteCursors scale={scale} />
         </div>
+
+        {marquee && (
+          <div
+            className="absolute border border-primary bg-primary/10 rounded-sm pointer-events-none"
+            style={{
+              left: Math.min(marquee.start.x, marquee.end.x),
+              top: Math.min(marquee.start.y, marquee.end.y),
+              width: Math.abs(marquee.end.x - marquee.start.x),
+              height: Math.abs(marquee.end.y - marquee.start.y)
+            }}
+          />
+        )}
+
+        {canvas && access === 'edit' && (
+          <InkLayer canvasId={canvas.id} position={position} scale={scale} spatialIndex={spatialIndex} />
+        )}
       </div>
     </>
   );
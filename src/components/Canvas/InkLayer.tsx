@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from "react";
+import { Node } from "@/types";
+import { findContainingFrame, getFrameRect, isFrame, isFrameCollapsed } from "@/lib/frames";
+import { getNodeRect, parseNodeDimensions, parseNodePosition, Point } from "@/lib/geometry";
+import {
+  createDrawingRow,
+  decodeInkPath,
+  getInkStyle,
+  getStrokeOutline,
+  hitsInk,
+  InkPoint,
+  isDrawing,
+  simplifyStroke,
+  smoothStroke,
+  useInkStore,
+} from "@/lib/ink";
+import { createNode, deleteNodes } from "@/lib/node-mutations";
+import { NODE_COLORS } from "@/lib/node-style";
+import type { SpatialIndex } from "@/lib/spatial-index";
+import { cn } from "@/lib/utils";
+import { InkToolbar } from "./InkToolbar";
+
+// On-screen sizes, in pixels, whatever the zoom
+const ERASER_RADIUS = 8;
+const MIN_POINT_DISTANCE = 1;
+const SIMPLIFY_TOLERANCE = 0.75;
+
+interface InkLayerProps {
+  canvasId: string;
+  position: Point;
+  scale: number;
+  spatialIndex: SpatialIndex;
+}
+
+/**
+ * Covers the canvas while drawing mode is on and turns pen, touch and mouse
+ * input into strokes, or erases the strokes it passes over. Two-finger
+ * gestures still reach the canvas, so it can be pinched and panned.
+ */
+export const InkLayer = ({ canvasId, position, scale, spatialIndex }: InkLayerProps) => {
+  const tool = useInkStore((state) => state.tool);
+  const color = useInkStore((state) => state.color);
+  const width = useInkStore((state) => state.width);
+  const setTool = useInkStore((state) => state.setTool);
+  const [stroke, setStroke] = useState<InkPoint[] | null>(null);
+  const [erased, setErased] = useState<Node[]>([]);
+  const pointerIdRef = useRef<number | null>(null);
+
+  // Leave drawing mode with Escape, and when the canvas goes away
+  useEffect(() => {
+    if (!tool) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setTool(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [tool, setTool]);
+
+  useEffect(() => () => setTool(null), [setTool]);
+
+  if (!tool) return null;
+
+  const toInkPoints = (e: React.PointerEvent<HTMLDivElement>): InkPoint[] => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    // Pens report more positions than there are frames; keep them all
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    return (events.length > 0 ? events : [e.nativeEvent]).map((event) => ({
+      x: (event.clientX - bounds.left - position.x) / scale,
+      y: (event.clientY - bounds.top - position.y) / scale,
+      pressure: event.pointerType === "pen" && event.pressure > 0 ? event.pressure : 0.5,
+    }));
+  };
+
+  const erase = (points: Point[]) => {
+    const radius = ERASER_RADIUS / scale;
+    const hits = new Map<string, Node>();
+
+    points.forEach((point) => {
+      spatialIndex
+        .search({ x: point.x - radius, y: point.y - radius, width: radius * 2, height: radius * 2 })
+        .filter(isDrawing)
+        .forEach((node) => {
+          const path = decodeInkPath(node.content);
+          if (path && hitsInk(path, getNodeRect(node), getInkStyle(node).width, point, radius)) {
+            hits.set(node.id, node);
+          }
+        });
+    });
+
+    if (hits.size > 0) {
+      setErased((previous) => [
+        ...previous,
+        ...Array.from(hits.values()).filter((node) => !previous.some((p) => p.id === node.id)),
+      ]);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+
+    // A second finger means a pinch or pan, not a stroke
+    if (!e.isPrimary) {
+      pointerIdRef.current = null;
+      setStroke(null);
+      return;
+    }
+    if (e.button !== 0) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerIdRef.current = e.pointerId;
+    const points = toInkPoints(e);
+
+    if (tool === "pen") {
+      setStroke(points);
+    } else {
+      erase(points);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointerIdRef.current !== e.pointerId) return;
+    const points = toInkPoints(e);
+
+    if (tool === "eraser") {
+      erase(points);
+      return;
+    }
+
+    setStroke((previous) => {
+      if (!previous) return previous;
+      const next = [...previous];
+      points.forEach((point) => {
+        const last = next[next.length - 1];
+        if (Math.hypot(point.x - last.x, point.y - last.y) * scale >= MIN_POINT_DISTANCE) next.push(point);
+      });
+      return next;
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointerIdRef.current !== e.pointerId) return;
+    pointerIdRef.current = null;
+
+    if (tool === "pen" && stroke) {
+      const points = simplifyStroke(smoothStroke(stroke), SIMPLIFY_TOLERANCE / scale);
+      setStroke(null);
+
+      // Strokes drawn inside a frame belong to it, like nodes dropped there
+      const row = createDrawingRow(canvasId, points, { color, width });
+      const rect = {
+        ...parseNodePosition(row.position),
+        ...parseNodeDimensions(row.dimensions)
+      };
+      const frames = spatialIndex
+        .search(rect)
+        .filter((node) => isFrame(node) && !isFrameCollapsed(node))
+        .map((frame) => ({ id: frame.id, rect: getFrameRect(frame) }));
+
+      createNode({ ...row, parent_id: findContainingFrame(rect, frames) }).catch((error) => {
+        import('@/lib/error-handler').then(({ handleError }) => {
+          handleError(error, {
+            title: "Drawing Failed",
+            message: "Unable to save the stroke"
+          });
+        });
+      });
+    }
+
+    if (tool === "eraser" && erased.length > 0) {
+      // Erased strokes go to the trash together, as one undoable step
+      deleteNodes(erased)
+        .catch((error) => {
+          import('@/lib/error-handler').then(({ handleError }) => {
+            handleError(error, {
+              title: "Erase Failed",
+              message: "Unable to erase the strokes"
+            });
+          });
+        })
+        .finally(() => setErased([]));
+    }
+  };
+
+  return (
+    <>
+      <div
+        className={cn("absolute inset-0 z-40 touch-none", tool === "pen" ? "cursor-crosshair" : "cursor-cell")}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <svg className="absolute inset-0 h-full w-full overflow-visible pointer-events-none text-foreground">
+          <g transform={`translate(${position.x} ${position.y}) scale(${scale})`}>
+            {erased.map((node) => {
+              const rect = getNodeRect(node);
+              return (
+                <rect
+                  key={node.id}
+                  x={rect.x}
+                  y={rect.y}
+                  width={rect.width}
+                  height={rect.height}
+                  rx={4 / scale}
+                  className="fill-destructive/20 stroke-destructive"
+                  strokeWidth={1 / scale}
+                />
+              );
+            })}
+            {stroke && (
+              <path
+                d={getStrokeOutline(stroke, width)}
+                fill={color ? NODE_COLORS[color].swatch : "currentColor"}
+              />
+            )}
+          </g>
+        </svg>
+      </div>
+
+      <InkToolbar />
+    </>
+  );
+};
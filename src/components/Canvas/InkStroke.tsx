@@ -0,0 +1,52 @@
+import { memo, useMemo } from "react";
+import { Node } from "@/types";
+import { decodeInkPath, getInkStyle, getStrokeOutline } from "@/lib/ink";
+import { NODE_COLORS } from "@/lib/node-style";
+import { cn } from "@/lib/utils";
+
+interface InkStrokeProps {
+  node: Node;
+  className?: string;
+  style?: React.CSSProperties;
+  // Let the ink, and a few pixels around it, take pointer events
+  interactive?: boolean;
+}
+
+/**
+ * A drawing node's stroke, stretched to fill its container
+ */
+export const InkStroke = memo(({ node, className, style, interactive = false }: InkStrokeProps) => {
+  const path = useMemo(() => decodeInkPath(node.content), [node.content]);
+  const { color, width } = getInkStyle(node);
+  const outline = useMemo(() => (path ? getStrokeOutline(path.points, width) : ""), [path, width]);
+
+  if (!path) return null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${path.width} ${path.height}`}
+      preserveAspectRatio="none"
+      className={cn("overflow-visible text-foreground", className)}
+      style={style}
+      aria-hidden="true"
+    >
+      {interactive && (
+        <path
+          d={outline}
+          fill="none"
+          stroke="transparent"
+          strokeWidth={12}
+          vectorEffect="non-scaling-stroke"
+          className="pointer-events-auto"
+        />
+      )}
+      <path
+        d={outline}
+        fill={color ? NODE_COLORS[color].swatch : "currentColor"}
+        className={interactive ? "pointer-events-auto" : undefined}
+      />
+    </svg>
+  );
+});
+
+InkStroke.displayName = "InkStroke";
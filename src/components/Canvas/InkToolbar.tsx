@@ -0,0 +1,92 @@
+import { Eraser, PenLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { DEFAULT_INK_COLORS, INK_WIDTHS, InkTool, useInkStore } from "@/lib/ink";
+import { NODE_COLORS, NodeColor } from "@/lib/node-style";
+import { cn } from "@/lib/utils";
+
+/**
+ * Pen, eraser, color and width for drawing mode
+ */
+export const InkToolbar = () => {
+  const tool = useInkStore((state) => state.tool);
+  const color = useInkStore((state) => state.color);
+  const width = useInkStore((state) => state.width);
+  const setTool = useInkStore((state) => state.setTool);
+  const setColor = useInkStore((state) => state.setColor);
+  const setWidth = useInkStore((state) => state.setWidth);
+
+  const swatch = (key: string, value: NodeColor | null, label: string, background: string) => (
+    <button
+      key={key}
+      type="button"
+      className={cn(
+        "h-6 w-6 rounded-full border",
+        color === value && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+      )}
+      style={{ background }}
+      onClick={() => {
+        setColor(value);
+        setTool("pen");
+      }}
+      aria-label={label}
+      title={label}
+    />
+  );
+
+  return (
+    <div
+      className="fixed bottom-20 sm:bottom-4 left-1/2 -translate-x-1/2 z-50 flex flex-wrap items-center justify-center gap-2 bg-background/40 backdrop-blur-sm p-2 rounded-lg border shadow-sm max-w-[calc(100vw-2rem)]"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={tool ?? undefined}
+        onValueChange={(value) => value && setTool(value as InkTool)}
+      >
+        <ToggleGroupItem value="pen" aria-label="Pen" title="Pen">
+          <PenLine className="h-4 w-4" />
+        </ToggleGroupItem>
+        <ToggleGroupItem value="eraser" aria-label="Eraser" title="Eraser: erase whole strokes">
+          <Eraser className="h-4 w-4" />
+        </ToggleGroupItem>
+      </ToggleGroup>
+
+      <div className="h-6 w-px bg-border" />
+
+      <div className="flex items-center gap-1">
+        {swatch("default", null, "Ink", `linear-gradient(135deg, ${DEFAULT_INK_COLORS.light} 50%, ${DEFAULT_INK_COLORS.dark} 50%)`)}
+        {(Object.keys(NODE_COLORS) as NodeColor[]).map((key) =>
+          swatch(key, key, NODE_COLORS[key].label, NODE_COLORS[key].swatch)
+        )}
+      </div>
+
+      <div className="h-6 w-px bg-border" />
+
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={String(width)}
+        onValueChange={(value) => {
+          if (!value) return;
+          setWidth(Number(value));
+          setTool("pen");
+        }}
+      >
+        {INK_WIDTHS.map((size) => (
+          <ToggleGroupItem key={size} value={String(size)} aria-label={`${size}px`} title={`${size}px`}>
+            <span
+              className="rounded-full bg-foreground"
+              style={{ width: Math.min(size, 12) + 2, height: Math.min(size, 12) + 2 }}
+            />
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <Button size="sm" variant="outline" className="h-8" onClick={() => setTool(null)}>
+        Done
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { FileInput, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ConversionReport, importJsonCanvas } from "@/lib/json-canvas";
+import { Size } from "@/lib/geometry";
+import { findAvailablePosition } from "@/lib/node-placement";
+import type { SpatialIndex } from "@/lib/spatial-index";
+import { ConversionSummary } from "./ConversionSummary";
+
+interface JsonCanvasImportDialogProps {
+  code: string;
+  canvasId: string;
+  spatialIndex: SpatialIndex;
+  viewportBounds?: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Adds an Obsidian `.canvas` file, plus any files it shows, to the current
+ * canvas and reports what couldn't be converted
+ */
+export const JsonCanvasImportDialog = ({ code, canvasId, spatialIndex, viewportBounds }: JsonCanvasImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ConversionReport | null>(null);
+  const canvasFile = files.find((file) => file.name.toLowerCase().endsWith(".canvas"));
+
+  const handleOpenChange = (next: boolean) => {
+    if (isImporting) return;
+    setOpen(next);
+    if (!next) {
+      setFiles([]);
+      setReport(null);
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canvasFile || isImporting) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importJsonCanvas(
+        canvasFile,
+        files.filter((file) => file !== canvasFile),
+        {
+          canvasId,
+          code,
+          place: (size: Size) => findAvailablePosition(spatialIndex, size, viewportBounds || null),
+        }
+      );
+      setReport(result);
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Import Failed"
+        });
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="icon">
+              <FileInput className="h-4 w-4" />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="right">
+          <div className="space-y-1">
+            <p>Import JSON Canvas</p>
+            <p className="text-xs text-muted-foreground">Bring in an Obsidian .canvas file</p>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import JSON Canvas</DialogTitle>
+          <DialogDescription>
+            Select a .canvas file along with the images, PDFs and notes it shows to add them to this canvas.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <>
+            <ConversionSummary report={report} verb="Imported" />
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={handleImport} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="json-canvas-files">Files</Label>
+              <Input
+                id="json-canvas-files"
+                type="file"
+                multiple
+                disabled={isImporting}
+                onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+              />
+              {files.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {canvasFile
+                    ? `${canvasFile.name} with ${files.length - 1} ${files.length === 2 ? "file" : "files"}`
+                    : "None of these is a .canvas file"}
+                </p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={!canvasFile || isImporting}>
+                {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isImporting ? "Importing..." : "Import"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
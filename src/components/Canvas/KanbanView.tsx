@@ -0,0 +1,384 @@
+import { useEffect, useMemo, useState } from "react";
+import { Ban, Plus, Trash2, UserRound, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  addKanbanCard,
+  addKanbanColumn,
+  KanbanBoard,
+  KanbanCard,
+  moveKanbanCard,
+  parseKanbanBoard,
+  removeKanbanCard,
+  removeKanbanColumn,
+  renameKanbanColumn,
+  serializeKanbanBoard,
+  updateKanbanCard,
+} from "@/lib/kanban";
+import { updateNodeContent } from "@/lib/node-mutations";
+import { NODE_COLORS, NodeColor } from "@/lib/node-style";
+import { cn } from "@/lib/utils";
+import { Node } from "@/types";
+
+// Set on card drags so other drop targets on the canvas ignore them
+const CARD_DRAG_TYPE = "application/x-slate-kanban-card";
+
+interface KanbanViewProps {
+  node: Node;
+  readOnly: boolean;
+}
+
+/**
+ * The columns and cards of a kanban node. Cards are dragged between and
+ * within columns; clicking one opens its editor.
+ */
+export const KanbanView = ({ node, readOnly }: KanbanViewProps) => {
+  const savedBoard = useMemo(() => parseKanbanBoard(node.content), [node.content]);
+  // Changes show straight away, before the saved content catches up
+  const [board, setBoard] = useState(savedBoard);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ columnId: string; index: number } | null>(null);
+  const [editingCardId, setEditingCardId] = useState<string | null>(null);
+  const [editingColumnId, setEditingColumnId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBoard(savedBoard);
+  }, [savedBoard]);
+
+  const save = (next: KanbanBoard) => {
+    const before = serializeKanbanBoard(board);
+    const after = serializeKanbanBoard(next);
+    setBoard(next);
+    updateNodeContent(node.id, before, after).catch((error) => {
+      setBoard(savedBoard);
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Board Update Failed",
+          message: "Unable to save the change to the board"
+        });
+      });
+    });
+  };
+
+  const handleAddCard = (columnId: string) => {
+    const { board: next, card } = addKanbanCard(board, columnId);
+    save(next);
+    setEditingCardId(card.id);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, columnId: string) => {
+    if (!draggedId || !e.dataTransfer.types.includes(CARD_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+
+    // Drop above the first card whose middle is below the pointer
+    const cards = Array.from(e.currentTarget.querySelectorAll<HTMLElement>("[data-card-id]"))
+      .filter((element) => element.dataset.cardId !== draggedId);
+    const index = cards.filter((element) => {
+      const rect = element.getBoundingClientRect();
+      return rect.top + rect.height / 2 < e.clientY;
+    }).length;
+
+    if (dropTarget?.columnId !== columnId || dropTarget.index !== index) {
+      setDropTarget({ columnId, index });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!draggedId || !dropTarget) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const next = moveKanbanCard(board, draggedId, dropTarget.columnId, dropTarget.index);
+    if (serializeKanbanBoard(next) !== serializeKanbanBoard(board)) save(next);
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const dropIndicator = <div className="h-0.5 shrink-0 rounded-full bg-primary" />;
+
+  return (
+    <div className="flex h-full gap-3 overflow-x-auto pb-1">
+      {board.columns.map((column) => {
+        const isDropColumn = dropTarget?.columnId === column.id;
+        // Drop positions are counted without the card being dragged, which
+        // stays in place, dimmed, until it is dropped
+        const otherCards = column.cards.filter((card) => card.id !== draggedId);
+
+        return (
+          <div
+            key={column.id}
+            className={cn(
+              "flex min-w-[200px] flex-1 flex-col rounded-md bg-black/5 dark:bg-white/5",
+              isDropColumn && "ring-2 ring-primary/40"
+            )}
+            onDragOver={(e) => handleDragOver(e, column.id)}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as globalThis.Node | null)) setDropTarget(null);
+            }}
+            onDrop={handleDrop}
+          >
+            <div className="flex items-center gap-1 px-2 pt-2 pb-1">
+              {editingColumnId === column.id ? (
+                <Input
+                  defaultValue={column.title}
+                  autoFocus
+                  className="h-7 text-sm"
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => {
+                    e.stopPropagation();
+                    if (e.key === "Enter") e.currentTarget.blur();
+                    if (e.key === "Escape") setEditingColumnId(null);
+                  }}
+                  onBlur={(e) => {
+                    const title = e.currentTarget.value.trim();
+                    if (title && title !== column.title) save(renameKanbanColumn(board, column.id, title));
+                    setEditingColumnId(null);
+                  }}
+                />
+              ) : (
+                <div
+                  className="flex-1 truncate text-sm font-semibold text-gray-700 dark:text-gray-200 select-none"
+                  onDoubleClick={(e) => {
+                    if (readOnly) return;
+                    e.stopPropagation();
+                    setEditingColumnId(column.id);
+                  }}
+                  title={readOnly ? column.title : "Double-click to rename"}
+                >
+                  {column.title || "Untitled column"}
+                </div>
+              )}
+              <span className="text-xs tabular-nums text-muted-foreground">{column.cards.length}</span>
+              {!readOnly && (
+                <button
+                  className="rounded p-0.5 text-muted-foreground hover:bg-black/10 hover:text-foreground dark:hover:bg-white/10"
+                  onClick={() => save(removeKanbanColumn(board, column.id))}
+                  title="Delete column and its cards"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </div>
+
+            <div className="flex flex-1 flex-col gap-2 overflow-y-auto px-2 pb-2">
+              {column.cards.map((card) => (
+                <div key={card.id} className={cn("flex flex-col gap-2", card.id === draggedId && "opacity-40")}>
+                  {isDropColumn && card.id !== draggedId && otherCards.indexOf(card) === dropTarget.index && dropIndicator}
+                  <KanbanCardItem
+                    card={card}
+                    readOnly={readOnly}
+                    isEditing={editingCardId === card.id}
+                    onEditingChange={(editing) => setEditingCardId(editing ? card.id : null)}
+                    onChange={(changes) => save(updateKanbanCard(board, card.id, changes))}
+                    onDelete={() => {
+                      setEditingCardId(null);
+                      save(removeKanbanCard(board, card.id));
+                    }}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(CARD_DRAG_TYPE, card.id);
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggedId(card.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedId(null);
+                      setDropTarget(null);
+                    }}
+                  />
+                </div>
+              ))}
+              {isDropColumn && dropTarget.index >= otherCards.length && dropIndicator}
+
+              {!readOnly && (
+                <button
+                  className="flex items-center gap-1 rounded-md px-2 py-1 text-left text-xs text-muted-foreground hover:bg-black/5 hover:text-foreground dark:hover:bg-white/10"
+                  onClick={() => handleAddCard(column.id)}
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                  Add card
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {!readOnly && (
+        <button
+          className="flex min-w-[140px] items-center justify-center gap-1 rounded-md border-2 border-dashed border-black/10 text-sm text-muted-foreground hover:border-primary/40 hover:text-foreground dark:border-white/10"
+          onClick={() => {
+            const next = addKanbanColumn(board, "New column");
+            save(next);
+            setEditingColumnId(next.columns[next.columns.length - 1].id);
+          }}
+        >
+          <Plus className="h-4 w-4" />
+          Add column
+        </button>
+      )}
+    </div>
+  );
+};
+
+const getInitials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map((part) => part[0].toUpperCase()).join("");
+
+interface KanbanCardItemProps {
+  card: KanbanCard;
+  readOnly: boolean;
+  isEditing: boolean;
+  onEditingChange: (editing: boolean) => void;
+  onChange: (changes: Partial<Omit<KanbanCard, "id">>) => void;
+  onDelete: () => void;
+  onDragStart: (e: React.DragEvent<HTMLDivElement>) => void;
+  onDragEnd: () => void;
+}
+
+/**
+ * A card on the board; clicking it opens a popover to edit its text,
+ * assignee and color. Text and assignee are saved when the popover closes.
+ */
+const KanbanCardItem = ({
+  card,
+  readOnly,
+  isEditing,
+  onEditingChange,
+  onChange,
+  onDelete,
+  onDragStart,
+  onDragEnd,
+}: KanbanCardItemProps) => {
+  const [text, setText] = useState(card.text);
+  const [assignee, setAssignee] = useState(card.assignee ?? "");
+  const color = card.color ? NODE_COLORS[card.color] : null;
+
+  const handleOpenChange = (open: boolean) => {
+    if (readOnly) return;
+    if (open) {
+      // Start from the saved card each time the editor opens; a card added
+      // with its editor open starts out empty anyway
+      setText(card.text);
+      setAssignee(card.assignee ?? "");
+    } else if (text !== card.text || assignee.trim() !== (card.assignee ?? "")) {
+      onChange({ text, assignee: assignee.trim() });
+    }
+    onEditingChange(open);
+  };
+
+  return (
+    <Popover open={isEditing} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <div
+          data-card-id={card.id}
+          draggable={!readOnly}
+          className={cn(
+            "rounded-md border bg-white px-2 py-1.5 text-sm shadow-sm dark:bg-gray-800",
+            color && "border-l-4 bg-[var(--card-bg)] dark:bg-[var(--card-bg-dark)]",
+            !readOnly && "cursor-pointer hover:shadow-md active:cursor-grabbing"
+          )}
+          style={{
+            '--card-bg': color?.light,
+            '--card-bg-dark': color?.dark,
+            ...(color && { borderLeftColor: color.swatch }),
+          } as React.CSSProperties}
+          onMouseDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+          onDragStart={onDragStart}
+          onDragEnd={onDragEnd}
+        >
+          <p className={cn("whitespace-pre-wrap break-words line-clamp-4", !card.text && "italic text-muted-foreground")}>
+            {card.text || "Untitled card"}
+          </p>
+          {card.assignee && (
+            <div className="mt-1.5 flex items-center gap-1.5 text-xs text-muted-foreground">
+              <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-primary/15 text-[10px] font-semibold text-primary">
+                {getInitials(card.assignee)}
+              </span>
+              <span className="truncate">{card.assignee}</span>
+            </div>
+          )}
+        </div>
+      </PopoverTrigger>
+
+      <PopoverContent
+        side="right"
+        align="start"
+        className="w-72 space-y-3"
+        onMouseDown={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.stopPropagation()}
+      >
+        <div className="space-y-2">
+          <Label htmlFor={`card-text-${card.id}`}>Card</Label>
+          <Textarea
+            id={`card-text-${card.id}`}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="What needs doing?"
+            className="min-h-[80px]"
+            autoFocus
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`card-assignee-${card.id}`}>Assignee</Label>
+          <div className="relative">
+            <UserRound className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id={`card-assignee-${card.id}`}
+              value={assignee}
+              onChange={(e) => setAssignee(e.target.value)}
+              placeholder="Nobody yet"
+              className="pl-8"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Color</Label>
+          <div className="flex flex-wrap gap-1.5">
+            <button
+              type="button"
+              className={cn(
+                "flex h-6 w-6 items-center justify-center rounded-full border bg-background",
+                !card.color && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+              )}
+              onClick={() => onChange({ color: undefined })}
+              aria-label="No color"
+              title="No color"
+            >
+              <Ban className="h-3 w-3 text-muted-foreground" />
+            </button>
+            {(Object.keys(NODE_COLORS) as NodeColor[]).map((key) => (
+              <button
+                key={key}
+                type="button"
+                className={cn(
+                  "h-6 w-6 rounded-full border",
+                  card.color === key && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+                )}
+                style={{ backgroundColor: NODE_COLORS[key].light, borderColor: NODE_COLORS[key].swatch }}
+                onClick={() => onChange({ color: key })}
+                aria-label={NODE_COLORS[key].label}
+                title={NODE_COLORS[key].label}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-between">
+          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={onDelete}>
+            <Trash2 className="mr-1 h-4 w-4" />
+            Delete
+          </Button>
+          <Button size="sm" onClick={() => handleOpenChange(false)}>
+            Done
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -6,6 +6,11 @@ import { useTheme } from "@/hooks/use-theme";
 import { Button } from "@/components/ui/button";
 import { motion, AnimatePresence } from "framer-motion";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { getNodeRect, getRectCenter } from "@/lib/geometry";
+import type { SpatialIndex } from "@/lib/spatial-index";
+import { getNodeTypeColor } from "@/lib/level-of-detail";
+import { getNodeColor } from "@/lib/node-style";
+import { getFrameTitle, getHiddenNodeIds, isFrame } from "@/lib/frames";
 
 interface MinimapProps {
   nodes: Node[];
@@ -16,9 +21,10 @@ interface MinimapProps {
     height: number;
   };
   onNavigate: (x: number, y: number) => void;
+  spatialIndex: SpatialIndex;
 }
 
-export const Minimap = ({ nodes, viewportBounds, onNavigate }: MinimapProps) => {
+export const Minimap = ({ nodes, viewportBounds, onNavigate, spatialIndex }: MinimapProps) => {
   const [expanded, setExpanded] = useState(false);
   const [visible, setVisible] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -34,14 +40,6 @@ export const Minimap = ({ nodes, viewportBounds, onNavigate }: MinimapProps) =>
     height: 0,
   });
 
-  const [nodePositions, setNodePositions] = useState<Array<{
-    node: Node;
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  }>>([]);
-
   const drawMinimap = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas || nodes.length === 0) return;
@@ -50,7 +48,6 @@ export const Minimap = ({ nodes, viewportBounds, onNavigate }: MinimapProps) =>
     if (!ctx) return;
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    const newNodePositions: typeof nodePositions = [];
 
     const isDark = theme === "dark";
     ctx.fillStyle = isDark
@@ -68,7 +65,36 @@ export const Minimap = ({ nodes, viewportBounds, onNavigate }: MinimapProps) =>
     const offsetX = (canvas.width - contentWidth * scale) / 2;
     const offsetY = (canvas.height - contentHeight * scale) / 2;
 
-    nodes.forEach((node) => {
+    // Frames go underneath and hidden children of collapsed frames are skipped
+    const hiddenIds = getHiddenNodeIds(nodes);
+    const frameLabels: Array<{ title: string; x: number; y: number; width: number }> = [];
+    const orderedNodes = [
+      ...nodes.filter((node) => isFrame(node)),
+      ...nodes.filter((node) => !isFrame(node) && !hiddenIds.has(node.id)),
+    ];
+
+    orderedNodes.forEach((node) => {
+      if (isFrame(node)) {
+        const rect = getNodeRect(node);
+        const x = (rect.x - canvasBounds.minX) * scale + offsetX;
+        const y = (rect.y - canvasBounds.minY) * scale + offsetY;
+        const width = rect.width * scale;
+        const height = rect.height * scale;
+
+        ctx.fillStyle = isDark
+          ? "rgba(148, 163, 184, 0.12)"
+          : "rgba(100, 116, 139, 0.08)";
+        ctx.fillRect(x, y, width, height);
+        ctx.strokeStyle = isDark
+          ? "rgba(148, 163, 184, 0.7)"
+          : "rgba(100, 116, 139, 0.6)";
+        ctx.lineWidth = 1;
+        ctx.strokeRect(x, y, width, height);
+
+        frameLabels.push({ title: getFrameTitle(node), x, y, width });
+        return;
+      }
+
       const position =
         typeof node.position === "string"
           ? JSON.parse(node.position)
@@ -84,37 +110,7 @@ export const Minimap = ({ nodes, viewportBounds, onNavigate }: MinimapProps) =>
       const width = dimensions.width * scale;
       const height = dimensions.height * scale;
 
-      newNodePositions.push({ node, x, y, width, height });
-
-      let color;
-      switch (node.node_type) {
-        case "text":
-          color = isDark
-            ? "rgba(96, 165, 250, 0.9)"
-            : "rgba(59, 130, 246, 0.8)";
-          break;
-        case "image":
-          color = isDark
-            ? "rgba(52, 211, 153, 0.9)"
-            : "rgba(16, 185, 129, 0.8)";
-          break;
-        case "video":
-          color = isDark
-            ? "rgba(248, 113, 113, 0.9)"
-            : "rgba(239, 68, 68, 0.8)";
-          break;
-        case "pdf":
-          color = isDark
-            ? "rgba(251, 191, 36, 0.9)"
-            : "rgba(245, 158, 11, 0.8)";
-          break;
-        default:
-          color = isDark
-            ? "rgba(156, 163, 175, 0.9)"
-            : "rgba(107, 114, 128, 0.8)";
-      }
-
-      ctx.fillStyle = color;
+      ctx.fillStyle = getNodeColor(node) ?? getNodeTypeColor(node.node_type, isDark);
       const radius = Math.min(3, Math.min(width, height) / 2);
       if (width > 2 && height > 2) {
         ctx.beginPath();
@@ -132,7 +128,22 @@ export const Minimap = ({ nodes, viewportBounds, onNavigate }: MinimapProps) =>
       }
     });
 
-    setNodePositions(newNodePositions);
+    // Frame titles act as section labels on top of everything else
+    ctx.font = "10px sans-serif";
+    ctx.textBaseline = "bottom";
+    ctx.fillStyle = isDark
+      ? "rgba(226, 232, 240, 0.95)"
+      : "rgba(30, 41, 59, 0.9)";
+    frameLabels.forEach(({ title, x, y, width }) => {
+      if (width < 24) return;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(x, y - 12, width, 12);
+      ctx.clip();
+      ctx.fillText(title, x + 2, y - 1);
+      ctx.restore();
+    });
+
 
     const viewX = (viewportBounds.x - canvasBounds.minX) * scale + offsetX;
     const viewY = (viewportBounds.y - canvasBounds.minY) * scale + offsetY;
@@ -234,31 +245,6 @@ export const Minimap = ({ nodes, viewportBounds, onNavigate }: MinimapProps) =>
       const x = e.clientX - rect.left;
       const y = e.clientY - rect.top;
 
-      for (const nodePos of nodePositions) {
-        if (
-          x >= nodePos.x &&
-          x <= nodePos.x + nodePos.width &&
-          y >= nodePos.y &&
-          y <= nodePos.y + nodePos.height
-        ) {
-          const position =
-            typeof nodePos.node.position === "string"
-              ? JSON.parse(nodePos.node.position)
-              : nodePos.node.position;
-
-          const dimensions =
-            typeof nodePos.node.dimensions === "string"
-              ? JSON.parse(nodePos.node.dimensions)
-              : nodePos.node.dimensions;
-
-          const centerX = position.x + dimensions.width / 2;
-          const centerY = position.y + dimensions.height / 2;
-
-          onNavigate(centerX, centerY);
-          return;
-        }
-      }
-
       const padding = 20;
       const contentWidth = canvasBounds.width;
       const contentHeight = canvasBounds.height;
@@ -272,9 +258,22 @@ export const Minimap = ({ nodes, viewportBounds, onNavigate }: MinimapProps) =>
       const canvasX = (x - offsetX) / scale + canvasBounds.minX;
       const canvasY = (y - offsetY) / scale + canvasBounds.minY;
 
+      // Prefer the topmost node so frames don't swallow their children
+      const hiddenIds = getHiddenNodeIds(nodes);
+      const hits = spatialIndex
+        .searchPoint({ x: canvasX, y: canvasY })
+        .filter((node) => !hiddenIds.has(node.id));
+      const target = hits.filter((node) => !isFrame(node)).pop() ?? hits.pop();
+
+      if (target) {
+        const center = getRectCenter(getNodeRect(target));
+        onNavigate(center.x, center.y);
+        return;
+      }
+
       onNavigate(canvasX, canvasY);
     },
-    [canvasBounds, onNavigate, nodePositions]
+    [canvasBounds, onNavigate, nodes, spatialIndex]
   );
 
   useEffect(() => {
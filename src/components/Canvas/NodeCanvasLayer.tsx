@@ -0,0 +1,158 @@
+import { useEffect, useReducer, useRef } from "react";
+import { Edge, Node } from "@/types";
+import { getNodeRect, getRectCenter, Rect } from "@/lib/geometry";
+import { isFrame } from "@/lib/frames";
+import { getCachedThumbnail, getNodeLabel, getNodeTypeColor, getThumbnailUrl } from "@/lib/level-of-detail";
+import { getNodeColor } from "@/lib/node-style";
+import { getDrawingOutline, getInkColor, getInkStyle, isDrawing } from "@/lib/ink";
+import { getShapeKind, getShapePaths, getShapeStyle, isShape } from "@/lib/shapes";
+
+interface NodeCanvasLayerProps {
+  nodes: Node[];
+  edges: Edge[];
+  scale: number;
+  viewportBounds: Rect;
+  // Nodes rendered as full components on top, so only their connectors are painted
+  skipIds: Set<string>;
+}
+
+// Labels are only drawn on nodes at least this tall on screen
+const MIN_LABEL_HEIGHT = 14;
+const LABEL_FONT_SIZE = 11;
+
+/**
+ * Paints every visible node, frame and connector onto a single <canvas>,
+ * used when zoomed out so far that mounting real nodes would be wasted work.
+ * Lives inside the transform layer and covers exactly the viewport.
+ */
+export const NodeCanvasLayer = ({ nodes, edges, scale, viewportBounds, skipIds }: NodeCanvasLayerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Redraw once thumbnails finish loading
+  const [thumbnailsLoaded, onThumbnailLoad] = useReducer((count: number) => count + 1, 0);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const pixelScale = scale * ratio;
+    canvas.width = Math.max(1, Math.round(viewportBounds.width * pixelScale));
+    canvas.height = Math.max(1, Math.round(viewportBounds.height * pixelScale));
+
+    // Draw in world coordinates
+    ctx.setTransform(pixelScale, 0, 0, pixelScale, -viewportBounds.x * pixelScale, -viewportBounds.y * pixelScale);
+    ctx.clearRect(viewportBounds.x, viewportBounds.y, viewportBounds.width, viewportBounds.height);
+
+    const isDark = document.documentElement.classList.contains("dark");
+    const rects = new Map(nodes.map((node) => [node.id, getNodeRect(node)]));
+    const lineWidth = 1 / scale;
+
+    const painted = nodes.filter((node) => !skipIds.has(node.id));
+
+    painted.filter(isFrame).forEach((frame) => {
+      const rect = rects.get(frame.id) as Rect;
+      ctx.fillStyle = isDark ? "rgba(148, 163, 184, 0.12)" : "rgba(100, 116, 139, 0.08)";
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.strokeStyle = isDark ? "rgba(148, 163, 184, 0.7)" : "rgba(100, 116, 139, 0.6)";
+      ctx.lineWidth = lineWidth;
+      ctx.setLineDash([4 / scale, 4 / scale]);
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    });
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = isDark ? "rgba(148, 163, 184, 0.8)" : "rgba(100, 116, 139, 0.8)";
+    ctx.lineWidth = 1.5 / scale;
+    ctx.beginPath();
+    edges.forEach((edge) => {
+      const source = rects.get(edge.source_id);
+      const target = rects.get(edge.target_id);
+      if (!source || !target) return;
+      const from = getRectCenter(source);
+      const to = getRectCenter(target);
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+    });
+    ctx.stroke();
+
+    const labels: Array<{ text: string; rect: Rect; above: boolean }> = [];
+
+    painted.filter((node) => !isFrame(node)).forEach((node) => {
+      const rect = rects.get(node.id) as Rect;
+
+      if (isDrawing(node)) {
+        const outline = getDrawingOutline(node);
+        if (!outline) return;
+        ctx.save();
+        ctx.translate(rect.x, rect.y);
+        ctx.scale(rect.width / outline.width, rect.height / outline.height);
+        ctx.fillStyle = getInkColor(getInkStyle(node).color, isDark);
+        ctx.fill(new Path2D(outline.d));
+        ctx.restore();
+        return;
+      }
+
+      if (isShape(node)) {
+        const { fill, stroke, strokeWidth } = getShapeStyle(node);
+        const outline = new Path2D(getShapePaths(getShapeKind(node), rect.width, rect.height).outline);
+        ctx.save();
+        ctx.translate(rect.x, rect.y);
+        ctx.fillStyle = isDark ? fill.dark : fill.light;
+        ctx.fill(outline);
+        if (strokeWidth > 0) {
+          ctx.strokeStyle = stroke;
+          ctx.lineWidth = strokeWidth;
+          ctx.stroke(outline);
+        }
+        ctx.restore();
+        if (rect.height * scale >= MIN_LABEL_HEIGHT) labels.push({ text: getNodeLabel(node), rect, above: false });
+        return;
+      }
+
+      ctx.fillStyle = getNodeColor(node) ?? getNodeTypeColor(node.node_type, isDark);
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+
+      const thumbnailUrl = getThumbnailUrl(node, onThumbnailLoad);
+      const thumbnail = thumbnailUrl && getCachedThumbnail(thumbnailUrl, onThumbnailLoad);
+      if (thumbnail) {
+        ctx.drawImage(thumbnail, rect.x, rect.y, rect.width, rect.height);
+      }
+
+      if (rect.height * scale >= MIN_LABEL_HEIGHT) labels.push({ text: getNodeLabel(node), rect, above: false });
+    });
+
+    painted.filter(isFrame).forEach((frame) => {
+      labels.push({ text: getNodeLabel(frame), rect: rects.get(frame.id) as Rect, above: true });
+    });
+
+    // Labels are sized in screen pixels so they stay legible
+    const fontSize = LABEL_FONT_SIZE / scale;
+    ctx.font = `500 ${fontSize}px sans-serif`;
+    ctx.textBaseline = "top";
+    ctx.fillStyle = isDark ? "rgba(248, 250, 252, 0.95)" : "rgba(15, 23, 42, 0.9)";
+    labels.forEach(({ text, rect, above }) => {
+      const padding = 3 / scale;
+      // Frame titles sit above the frame, node labels inside the node
+      const y = above ? rect.y - fontSize - padding : rect.y + padding;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(rect.x, y, rect.width, fontSize + padding);
+      ctx.clip();
+      ctx.fillText(text, rect.x + padding, y);
+      ctx.restore();
+    });
+  }, [nodes, edges, scale, viewportBounds, skipIds, thumbnailsLoaded]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute pointer-events-none"
+      style={{
+        left: viewportBounds.x,
+        top: viewportBounds.y,
+        width: viewportBounds.width,
+        height: viewportBounds.height,
+      }}
+    />
+  );
+};
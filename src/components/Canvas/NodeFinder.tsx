@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from 'react';
 import { Node } from '@/types';
-import { Search, X, FileText, Image, FileVideo, FileSpreadsheet, File, Filter, Clock, StickyNote } from 'lucide-react';
+import { Search, X, FileText, Image, FileVideo, FileSpreadsheet, File, Filter, Clock, StickyNote, Frame, PenLine, Shapes, ListTodo, SquareKanban } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
@@ -15,6 +15,10 @@ import {
 } from '@/components/ui/command';
 import { Toggle } from '@/components/ui/toggle';
 import { cn } from '@/lib/utils';
+import { getFrameTitle, isFrame } from '@/lib/frames';
+import { getNodeAppearance, NODE_COLORS, NodeColor } from '@/lib/node-style';
+import { countTasks, hasOpenTasks } from '@/lib/tasks';
+import { countKanbanCards, getKanbanText, parseKanbanBoard } from '@/lib/kanban';
 
 interface NodeFinderProps {
   nodes: Node[];
@@ -30,14 +34,17 @@ export const NodeFinder = ({ nodes, onNavigateToNode, className }: NodeFinderPro
     image: boolean;
     video: boolean;
     pdf: boolean;
+    openTasks: boolean;
     sortByRecent: boolean;
   }>({
     text: false,
     image: false,
     video: false,
     pdf: false,
+    openTasks: false,
     sortByRecent: false
   });
+  const [colorFilter, setColorFilter] = useState<NodeColor[]>([]);
   const [searchMode, setSearchMode] = useState<'content' | 'dateRange'>('content');
   const [dateRange, setDateRange] = useState<{start: Date | null, end: Date | null}>({
     start: null,
@@ -72,14 +79,21 @@ export const NodeFinder = ({ nodes, onNavigateToNode, className }: NodeFinderPro
     if (search.trim()) {
       const lowerSearch = search.toLowerCase();
       result = result.filter(node => {
-        // For text nodes, do a more thorough content search
-        if (node.node_type === 'text' && node.content) {
+        // For text nodes, frame titles and shape labels, do a more thorough content search
+        if ((node.node_type === 'text' || node.node_type === 'shape' || isFrame(node)) && node.content) {
           // Split search terms and check if all are present
           const terms = lowerSearch.split(' ').filter(t => t.length > 0);
           const content = node.content.toLowerCase();
           return terms.every(term => content.includes(term));
         }
         
+        // Boards are searched by their column titles, cards and assignees
+        if (node.node_type === 'kanban') {
+          const terms = lowerSearch.split(' ').filter(t => t.length > 0);
+          const text = getKanbanText(parseKanbanBoard(node.content)).toLowerCase();
+          if (terms.every(term => text.includes(term))) return true;
+        }
+        
         // Check file name
         if (node.file_name && node.file_name.toLowerCase().includes(lowerSearch)) {
           return true;
@@ -106,6 +120,19 @@ export const NodeFinder = ({ nodes, onNavigateToNode, className }: NodeFinderPro
       });
     }
     
+    // Apply open tasks filter
+    if (filters.openTasks) {
+      result = result.filter(hasOpenTasks);
+    }
+    
+    // Apply color filter
+    if (colorFilter.length > 0) {
+      result = result.filter(node => {
+        const color = getNodeAppearance(node).color;
+        return color !== undefined && colorFilter.includes(color);
+      });
+    }
+    
     // Apply date range filter if active
     if (searchMode === 'dateRange' && (dateRange.start || dateRange.end)) {
       result = result.filter(node => {
@@ -126,10 +153,37 @@ export const NodeFinder = ({ nodes, onNavigateToNode, className }: NodeFinderPro
     }
     
     return result;
-  }, [nodes, search, filters, searchMode, dateRange]);
+  }, [nodes, search, filters, colorFilter, searchMode, dateRange]);
+
+  // Group results by the frame they belong to, using frame titles as section headings
+  const sections = useMemo(() => {
+    const frameTitles = new Map(nodes.filter(isFrame).map(frame => [frame.id, getFrameTitle(frame)]));
+    if (frameTitles.size === 0) {
+      return [{ key: 'all', heading: `${filteredNodes.length} ${filteredNodes.length === 1 ? 'node' : 'nodes'} found`, nodes: filteredNodes }];
+    }
+
+    const groups = new Map<string, Node[]>();
+    filteredNodes.forEach(node => {
+      const frameId = isFrame(node) ? node.id : node.parent_id;
+      const key = frameId && frameTitles.has(frameId) ? frameId : '';
+      groups.set(key, [...(groups.get(key) || []), node]);
+    });
+
+    return Array.from(groups, ([key, items]) => ({
+      key: key || 'ungrouped',
+      heading: `${key ? frameTitles.get(key) : 'Not in a frame'} (${items.length})`,
+      nodes: items
+    })).sort((a, b) => Number(a.key === 'ungrouped') - Number(b.key === 'ungrouped'));
+  }, [nodes, filteredNodes]);
+
+  // Colors in use on this canvas, in palette order
+  const usedColors = useMemo(() => {
+    const used = new Set(nodes.map(node => getNodeAppearance(node).color));
+    return (Object.keys(NODE_COLORS) as NodeColor[]).filter(color => used.has(color));
+  }, [nodes]);
 
   // Check if any filters are active
-  const hasActiveFilters = filters.text || filters.image || filters.video || filters.pdf || filters.sortByRecent;
+  const hasActiveFilters = filters.text || filters.image || filters.video || filters.pdf || filters.openTasks || filters.sortByRecent || colorFilter.length > 0;
   
   // Reset all filters
   const resetFilters = () => {
@@ -138,8 +192,15 @@ export const NodeFinder = ({ nodes, onNavigateToNode, className }: NodeFinderPro
       image: false,
       video: false,
       pdf: false,
+      openTasks: false,
       sortByRecent: false
     });
+    setColorFilter([]);
+  };
+
+  // Toggle a color in the color filter
+  const toggleColor = (color: NodeColor) => {
+    setColorFilter(prev => prev.includes(color) ? prev.filter(c => c !== color) : [...prev, color]);
   };
   
   // Toggle a specific filter
@@ -161,6 +222,14 @@ export const NodeFinder = ({ nodes, onNavigateToNode, className }: NodeFinderPro
         return <FileVideo className="h-4 w-4 mr-2" />;
       case 'pdf':
         return <FileSpreadsheet className="h-4 w-4 mr-2" />;
+      case 'frame':
+        return <Frame className="h-4 w-4 mr-2" />;
+      case 'drawing':
+        return <PenLine className="h-4 w-4 mr-2" />;
+      case 'shape':
+        return <Shapes className="h-4 w-4 mr-2" />;
+      case 'kanban':
+        return <SquareKanban className="h-4 w-4 mr-2" />;
       default:
         return <File className="h-4 w-4 mr-2" />;
     }
@@ -168,6 +237,20 @@ export const NodeFinder = ({ nodes, onNavigateToNode, className }: NodeFinderPro
   
   // Get preview text for node
   const getNodePreview = (node: Node): string => {
+    if (isFrame(node)) {
+      return getFrameTitle(node);
+    }
+
+    if (node.node_type === 'shape') {
+      return node.content?.trim() || 'Shape';
+    }
+
+    if (node.node_type === 'kanban') {
+      const board = parseKanbanBoard(node.content);
+      const cards = countKanbanCards(board);
+      return `${board.columns.map(column => column.title).join(' · ') || 'Board'}\n${cards} ${cards === 1 ? 'card' : 'cards'}`;
+    }
+
     if (node.node_type === 'text' && node.content) {
       // For text nodes, show first line as title and preview of content
       const lines = node.content.split('\n');
@@ -192,6 +275,13 @@ export const NodeFinder = ({ nodes, onNavigateToNode, className }: NodeFinderPro
     }
   };
   
+  // Get task progress for notes with a task list
+  const getTaskProgress = (node: Node): string | null => {
+    if (node.node_type !== 'text') return null;
+    const { done, total } = countTasks(node.content);
+    return total > 0 ? `${done}/${total} tasks` : null;
+  };
+  
   // Handle node selection
   const handleSelectNode = (nodeId: string) => {
     onNavigateToNode(nodeId);
@@ -284,6 +374,17 @@ export const NodeFinder = ({ nodes, onNavigateToNode, className }: NodeFinderPro
             PDFs
           </Toggle>
           
+          <Toggle
+            size="sm"
+            variant={filters.openTasks ? "default" : "outline"}
+            pressed={filters.openTasks}
+            onClick={() => toggleFilter('openTasks')}
+            className="h-7"
+          >
+            <ListTodo className="h-3.5 w-3.5 mr-1" />
+            Open tasks
+          </Toggle>
+          
           <Toggle
             size="sm"
             variant={filters.sortByRecent ? "default" : "outline"}
@@ -295,6 +396,26 @@ export const NodeFinder = ({ nodes, onNavigateToNode, className }: NodeFinderPro
             Recent first
           </Toggle>
           
+          {usedColors.length > 0 && (
+            <div className="flex items-center gap-1">
+              {usedColors.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => toggleColor(color)}
+                  className={cn(
+                    "h-5 w-5 rounded-full border",
+                    colorFilter.includes(color) && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+                  )}
+                  style={{ backgroundColor: NODE_COLORS[color].light, borderColor: NODE_COLORS[color].swatch }}
+                  aria-pressed={colorFilter.includes(color)}
+                  aria-label={`${NODE_COLORS[color].label} nodes`}
+                  title={`${NODE_COLORS[color].label} nodes`}
+                />
+              ))}
+            </div>
+          )}
+          
           {hasActiveFilters && (
             <Button 
               variant="ghost" 
@@ -312,30 +433,41 @@ export const NodeFinder = ({ nodes, onNavigateToNode, className }: NodeFinderPro
             No matching nodes found. Try adjusting your search or filters.
           </CommandEmpty>
           
-          <CommandGroup heading={`${filteredNodes.length} ${filteredNodes.length === 1 ? 'node' : 'nodes'} found`}>
-            {filteredNodes.map(node => (
-              <CommandItem
-                key={node.id}
-                onSelect={() => handleSelectNode(node.id)}
-                className="flex items-center justify-between py-3 px-4"
-              >
-                <div className="flex items-center gap-2 flex-1 min-w-0">
-                  <div className="flex-shrink-0">
-                    {getNodeIcon(node.node_type)}
-                  </div>
-                  <div className="flex flex-col min-w-0">
-                    <span className="truncate">{getNodePreview(node)}</span>
-                    <span className="text-xs text-muted-foreground flex items-center gap-2">
-                      <Badge variant="outline" className="text-[10px] h-4">
-                        {node.node_type}
-                      </Badge>
-                      <span>{getNodeTime(node)}</span>
-                    </span>
+          {sections.map(section => (
+            <CommandGroup key={section.key} heading={section.heading}>
+              {section.nodes.map(node => (
+                <CommandItem
+                  key={node.id}
+                  onSelect={() => handleSelectNode(node.id)}
+                  className="flex items-center justify-between py-3 px-4"
+                >
+                  <div className="flex items-center gap-2 flex-1 min-w-0">
+                    <div className="flex-shrink-0">
+                      {getNodeIcon(node.node_type)}
+                    </div>
+                    <div className="flex flex-col min-w-0">
+                      <span className="truncate">{getNodePreview(node)}</span>
+                      <span className="text-xs text-muted-foreground flex items-center gap-2">
+                        <Badge variant="outline" className="text-[10px] h-4">
+                          {node.node_type}
+                        </Badge>
+                        <span>{getNodeTime(node)}</span>
+                        {getTaskProgress(node) && (
+                          <span className="tabular-nums">{getTaskProgress(node)}</span>
+                        )}
+                        {getNodeAppearance(node).color && (
+                          <span
+                            className="h-2.5 w-2.5 rounded-full"
+                            style={{ backgroundColor: NODE_COLORS[getNodeAppearance(node).color as NodeColor].swatch }}
+                          />
+                        )}
+                      </span>
+                    </div>
                   </div>
-                </div>
-              </CommandItem>
-            ))}
-          </CommandGroup>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          ))}
         </CommandList>
       </CommandDialog>
     </>
@@ -1,16 +1,22 @@
-import { Node } from "@/types";
+import { Edge, Node } from "@/types";
 import { CanvasNode } from "./CanvasNode";
-import { supabase } from "@/integrations/supabase/client";
-import { useCallback, useEffect } from "react";
+import { EdgeLayer } from "./EdgeLayer";
+import { NodePlaceholder } from "./NodePlaceholder";
+import { NodeCanvasLayer } from "./NodeCanvasLayer";
+import { applyGroupTransform, useCanvasStore } from "@/lib/store";
+import { getMinNodeSize, getNodeRect, parseNodeDimensions, parseNodePosition } from "@/lib/geometry";
+import { findContainingFrame, getFrameChildIds, getFrameRect, getHiddenNodeIds, isFrame, isFrameCollapsed } from "@/lib/frames";
+import { GeometryChange, updateNodeGeometry } from "@/lib/node-mutations";
+import { findAvailablePosition } from "@/lib/node-placement";
+import { performMutation } from "@/lib/offline-store";
+import { optimisticWrite, upsertCachedEdges } from "@/lib/query-cache";
+import type { SpatialIndex } from "@/lib/spatial-index";
+import { getDetailLevel, useDetailStore } from "@/lib/level-of-detail";
+import { useCallback, useEffect, useMemo } from "react";
 
 // Type definitions for node position and dimensions
 type Position = { x: number; y: number };
 type Dimensions = { width: number; height: number };
-type NodeUpdates = {
-  position?: Position;
-  dimensions?: Dimensions;
-  [key: string]: any;
-};
 
 /**
  * Safely parse position object from potential string
@@ -60,6 +66,7 @@ const safeParseDimensions = (dimensions: Dimensions | string): Dimensions => {
 
 interface NodeListProps {
   nodes: Node[];
+  edges: Edge[];
   scale: number;
   viewportBounds: {
     x: number;
@@ -67,28 +74,112 @@ interface NodeListProps {
     width: number;
     height: number;
   };
+  spatialIndex: SpatialIndex;
 }
 
-export const NodeList = ({ nodes, scale, viewportBounds }: NodeListProps) => {
+export const NodeList = ({ nodes, edges, scale, viewportBounds, spatialIndex }: NodeListProps) => {
+  /**
+   * Nodes that follow `leaderId` when it is moved or resized: the rest of the
+   * selection and, when moving, the children of every frame involved
+   */
+  const resolveGroupMembers = useCallback((leaderId: string, mode: 'move' | 'resize') => {
+    const { selectedIds } = useCanvasStore.getState();
+    const memberIds = new Set(
+      selectedIds.length > 1 && selectedIds.includes(leaderId) ? selectedIds : [leaderId]
+    );
+
+    if (mode === 'move') {
+      nodes
+        .filter(node => isFrame(node) && memberIds.has(node.id))
+        .forEach(frame => getFrameChildIds(frame.id, nodes).forEach(id => memberIds.add(id)));
+    }
+
+    memberIds.delete(leaderId);
+    return Array.from(memberIds);
+  }, [nodes]);
+
   const handleNodeUpdate = async (nodeId: string, position: Position, dimensions?: Dimensions) => {
+    const leader = nodes.find(n => n.id === nodeId);
+    if (!leader) return;
+
     try {
-      // Create updates object with position
-      const updates: NodeUpdates = { position };
-      
-      // Add dimensions if provided
-      if (dimensions) {
-        updates.dimensions = dimensions;
-      }
+      const previous = getNodeRect(leader);
+      const previousDimensions = parseNodeDimensions(leader.dimensions);
+      const changes: GeometryChange[] = [{
+        nodeId,
+        before: {
+          position: { x: previous.x, y: previous.y },
+          dimensions: previousDimensions,
+          parentId: leader.parent_id ?? null
+        },
+        after: {
+          position,
+          dimensions: dimensions || previousDimensions
+        }
+      }];
 
-      // Update node in database
-      const { error } = await supabase
-        .from('nodes')
-        .update(updates)
-        .eq('id', nodeId);
+      // Apply the same move/resize to the rest of the group
+      const memberIds = resolveGroupMembers(nodeId, dimensions ? 'resize' : 'move');
+      if (memberIds.length > 0) {
+        const transform = {
+          leaderId: nodeId,
+          memberIds,
+          dx: position.x - previous.x,
+          dy: position.y - previous.y,
+          scaleX: dimensions ? dimensions.width / previousDimensions.width : 1,
+          scaleY: dimensions ? dimensions.height / previousDimensions.height : 1
+        };
 
-      if (error) {
-        throw error;
+        nodes
+          .filter(n => memberIds.includes(n.id))
+          .forEach(follower => {
+            // Use stored dimensions so collapsed frames keep their full size
+            const rect = {
+              ...parseNodePosition(follower.position),
+              ...parseNodeDimensions(follower.dimensions)
+            };
+            const next = applyGroupTransform(rect, transform, getMinNodeSize(follower.node_type));
+            changes.push({
+              nodeId: follower.id,
+              before: {
+                position: { x: rect.x, y: rect.y },
+                dimensions: { width: rect.width, height: rect.height },
+                parentId: follower.parent_id ?? null
+              },
+              after: {
+                position: { x: next.x, y: next.y },
+                dimensions: { width: next.width, height: next.height }
+              }
+            });
+          });
       }
+
+      // Nodes dropped inside a frame become its children; frames don't nest
+      const frameRects = nodes
+        .filter(node => isFrame(node) && !isFrameCollapsed(node))
+        .map(frame => {
+          const change = changes.find(c => c.nodeId === frame.id);
+          return {
+            id: frame.id,
+            rect: change
+              ? { ...change.after.position, ...change.after.dimensions }
+              : getFrameRect(frame)
+          };
+        });
+
+      changes.forEach(change => {
+        const node = nodes.find(n => n.id === change.nodeId);
+        // Children moved along with their frame stay where they are
+        const movedWithParent = node?.parent_id && changes.some(c => c.nodeId === node.parent_id);
+        if (!node || isFrame(node) || movedWithParent) return;
+
+        change.after.parentId = findContainingFrame(
+          { ...change.after.position, ...change.after.dimensions },
+          frameRects
+        );
+      });
+
+      await updateNodeGeometry(changes);
     } catch (error) {
       // Use our new standardized error handling
       import('@/lib/error-handler').then(({ handleError }) => {
@@ -100,28 +191,65 @@ export const NodeList = ({ nodes, scale, viewportBounds }: NodeListProps) => {
     }
   };
 
-  // Filter nodes to only render those in or near the viewport for better performance
-  const visibleNodes = nodes.filter(node => {
-    const nodePos = typeof node.position === 'string' 
-      ? JSON.parse(node.position) 
-      : node.position;
-    
-    const nodeDim = typeof node.dimensions === 'string'
-      ? JSON.parse(node.dimensions)
-      : node.dimensions;
-    
-    // Calculate padding around viewport (as a factor of viewport size)
-    const paddingX = viewportBounds.width * 0.5;
-    const paddingY = viewportBounds.height * 0.5;
-    
-    // Check if node is within expanded viewport bounds
-    return (
-      nodePos.x < viewportBounds.x + viewportBounds.width + paddingX &&
-      nodePos.x + nodeDim.width > viewportBounds.x - paddingX &&
-      nodePos.y < viewportBounds.y + viewportBounds.height + paddingY &&
-      nodePos.y + nodeDim.height > viewportBounds.y - paddingY
+  const handleConnect = async (sourceId: string, targetId: string) => {
+    const source = nodes.find(n => n.id === sourceId);
+    if (!source || sourceId === targetId) return;
+
+    // Avoid stacking duplicate connectors between the same pair of nodes
+    const exists = edges.some(edge =>
+      (edge.source_id === sourceId && edge.target_id === targetId) ||
+      (edge.source_id === targetId && edge.target_id === sourceId)
     );
-  });
+    if (exists) return;
+
+    try {
+      const now = new Date().toISOString();
+      const edge: Edge = {
+        id: crypto.randomUUID(),
+        canvas_id: source.canvas_id,
+        source_id: sourceId,
+        target_id: targetId,
+        label: null,
+        arrow_start: false,
+        arrow_end: true,
+        line_style: 'solid',
+        created_at: now,
+        updated_at: now
+      };
+
+      await optimisticWrite(
+        [edge.id],
+        () => upsertCachedEdges([edge]),
+        () => performMutation({ kind: 'insert', table: 'edges', rows: [{ ...edge }] })
+      );
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Connector Creation Failed",
+          message: "Unable to connect these nodes"
+        });
+      });
+    }
+  };
+
+  // Children of collapsed frames are not shown at all
+  const hiddenIds = useMemo(() => getHiddenNodeIds(nodes), [nodes]);
+  const shownNodes = useMemo(() => nodes.filter(node => !hiddenIds.has(node.id)), [nodes, hiddenIds]);
+
+  // Only render nodes in or near the viewport, padded by half a screen each way
+  const visibleNodes = spatialIndex
+    .search({
+      x: viewportBounds.x - viewportBounds.width * 0.5,
+      y: viewportBounds.y - viewportBounds.height * 0.5,
+      width: viewportBounds.width * 2,
+      height: viewportBounds.height * 2
+    })
+    .filter(node => !hiddenIds.has(node.id));
+
+  // Far enough out, nodes are swapped for cheaper stand-ins
+  const thresholds = useDetailStore((state) => state.thresholds);
+  const selectedIds = useCanvasStore((state) => state.selectedIds);
+  const detailLevel = getDetailLevel(scale, thresholds);
 
   // For debugging: log the difference in rendered nodes
   useEffect(() => {
@@ -130,16 +258,60 @@ export const NodeList = ({ nodes, scale, viewportBounds }: NodeListProps) => {
     }
   }, [visibleNodes.length, nodes.length]);
 
-  return (
-    <>
-      {visibleNodes.map((node) => (
-        <CanvasNode 
-          key={node.id} 
-          node={node} 
+  const findSpace = useCallback(
+    (size: Dimensions) => findAvailablePosition(spatialIndex, size, viewportBounds),
+    [spatialIndex, viewportBounds]
+  );
+
+  const renderNode = (node: Node) => (
+    <CanvasNode 
+      key={node.id} 
+      node={node} 
+      scale={scale}
+      onUpdate={handleNodeUpdate}
+      onConnect={handleConnect}
+      resolveGroupMembers={resolveGroupMembers}
+      childCount={isFrame(node) ? getFrameChildIds(node.id, nodes).length : 0}
+      findSpace={findSpace}
+    />
+  );
+
+  // Selected nodes stay fully interactive at every zoom level so they can
+  // still be moved around while zoomed out
+  const interactiveIds = detailLevel === 'full'
+    ? null
+    : new Set(visibleNodes.filter(node => selectedIds.includes(node.id)).map(node => node.id));
+  const isInteractive = (node: Node) => !interactiveIds || interactiveIds.has(node.id);
+
+  const renderPlaceholder = (node: Node) => (
+    <NodePlaceholder key={node.id} node={node} scale={scale} />
+  );
+
+  if (detailLevel === 'canvas' && interactiveIds) {
+    return (
+      <>
+        <NodeCanvasLayer
+          nodes={visibleNodes}
+          edges={edges}
           scale={scale}
-          onUpdate={handleNodeUpdate}
+          viewportBounds={viewportBounds}
+          skipIds={interactiveIds}
         />
-      ))}
+        {visibleNodes.filter(isInteractive).map(renderNode)}
+      </>
+    );
+  }
+
+  // Frames are drawn first so they sit behind connectors and the nodes they contain
+  return (
+    <>
+      {visibleNodes.filter(node => isFrame(node)).map(node =>
+        isInteractive(node) ? renderNode(node) : renderPlaceholder(node)
+      )}
+      <EdgeLayer edges={edges} nodes={shownNodes} scale={scale} />
+      {visibleNodes.filter(node => !isFrame(node)).map(node =>
+        isInteractive(node) ? renderNode(node) : renderPlaceholder(node)
+      )}
     </>
   );
 };
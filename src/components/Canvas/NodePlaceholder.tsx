@@ -0,0 +1,103 @@
+import { memo } from "react";
+import { Node } from "@/types";
+import { getNodeRect } from "@/lib/geometry";
+import { isFrame } from "@/lib/frames";
+import { getNodeLabel, getNodeTypeColor, getThumbnailPath, THUMBNAIL_TRANSFORM } from "@/lib/level-of-detail";
+import { getNodeColor } from "@/lib/node-style";
+import { isDrawing } from "@/lib/ink";
+import { getShapeKind, getShapePaths, getShapeStyle, isShape } from "@/lib/shapes";
+import { useFileUrl } from "@/hooks/useFileUrl";
+import { InkStroke } from "./InkStroke";
+
+interface NodePlaceholderProps {
+  node: Node;
+  scale: number;
+}
+
+/**
+ * Cheap stand-in for a node while zoomed out: a type-colored card with the
+ * node's title line and, for images, a small thumbnail
+ */
+export const NodePlaceholder = memo(({ node, scale }: NodePlaceholderProps) => {
+  const rect = getNodeRect(node);
+  const thumbnailUrl = useFileUrl(getThumbnailPath(node), THUMBNAIL_TRANSFORM);
+  // Keep labels readable on screen however far out we are
+  const fontSize = 12 / scale;
+
+  // Ink is cheap enough to keep drawing as it is
+  if (isDrawing(node)) {
+    return (
+      <InkStroke
+        node={node}
+        className="absolute pointer-events-none"
+        style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+      />
+    );
+  }
+
+  if (isShape(node)) {
+    const { fill, stroke } = getShapeStyle(node);
+    return (
+      <svg
+        className="absolute overflow-visible pointer-events-none"
+        style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+        viewBox={`0 0 ${rect.width} ${rect.height}`}
+      >
+        <path
+          d={getShapePaths(getShapeKind(node), rect.width, rect.height).outline}
+          fill={fill.light}
+          stroke={stroke}
+          strokeWidth={1.5 / scale}
+        />
+      </svg>
+    );
+  }
+
+  if (isFrame(node)) {
+    return (
+      <div
+        className="absolute rounded-lg border-2 border-dashed border-muted-foreground/40 bg-muted/20 pointer-events-none"
+        style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+      >
+        <div
+          className="absolute left-0 bottom-full truncate font-semibold text-muted-foreground"
+          style={{ fontSize, maxWidth: rect.width }}
+        >
+          {getNodeLabel(node)}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="absolute overflow-hidden rounded-lg border bg-card shadow-sm pointer-events-none"
+      style={{
+        left: rect.x,
+        top: rect.y,
+        width: rect.width,
+        height: rect.height,
+        borderLeft: `${4 / scale}px solid ${getNodeColor(node) ?? getNodeTypeColor(node.node_type, false)}`,
+      }}
+    >
+      {thumbnailUrl && (
+        <img
+          src={thumbnailUrl}
+          alt=""
+          loading="lazy"
+          decoding="async"
+          draggable={false}
+          className="absolute inset-0 h-full w-full object-cover opacity-80"
+        />
+      )}
+      <div
+        className="relative truncate px-1 font-medium text-card-foreground bg-card/80"
+        style={{ fontSize, lineHeight: 1.4 }}
+      >
+        {getNodeLabel(node)}
+      </div>
+    </div>
+  );
+});
+
+NodePlaceholder.displayName = "NodePlaceholder";
@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { AlignCenter, AlignLeft, AlignRight, Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { isDrawing } from "@/lib/ink";
+import { getShapeKind, isShape, SHAPE_KINDS, ShapeKind } from "@/lib/shapes";
+import { updateNodesStyle } from "@/lib/node-mutations";
+import {
+  getNodeAppearance,
+  MIN_NODE_OPACITY,
+  NODE_BORDERS,
+  NODE_COLORS,
+  NODE_FONT_SIZES,
+  NODE_FONTS,
+  NodeAppearance,
+  NodeBorder,
+  NodeColor,
+  NodeFont,
+  NodeTextAlign,
+} from "@/lib/node-style";
+import { cn } from "@/lib/utils";
+import { Node } from "@/types";
+import { ShapeIcon } from "./ShapeIcon";
+
+// Keys that make up a node's appearance, cleared by "Reset"
+const APPEARANCE_KEYS: Array<keyof NodeAppearance> = [
+  "color", "stroke", "border", "font", "fontSize", "textAlign", "opacity",
+];
+
+interface NodeStylePanelProps {
+  nodes: Node[];
+  children: React.ReactNode;
+  side?: "top" | "right" | "bottom" | "left";
+}
+
+/**
+ * Color, border, font, alignment and opacity for one or more nodes, plus the
+ * kind and outline of shapes. The first node's look is shown; changes apply
+ * to all of them.
+ */
+export const NodeStylePanel = ({ nodes, children, side = "bottom" }: NodeStylePanelProps) => {
+  const appearance = nodes.length > 0 ? getNodeAppearance(nodes[0]) : {};
+  const hasText = nodes.some((node) => node.node_type === "text" || isShape(node));
+  const shapes = nodes.filter(isShape);
+  // Drawings are bare ink, so borders don't apply to them
+  const hasCards = nodes.some((node) => !isDrawing(node));
+  // Follows the slider while it is dragged, then saved once
+  const [opacity, setOpacity] = useState(appearance.opacity ?? 1);
+
+  useEffect(() => {
+    setOpacity(appearance.opacity ?? 1);
+  }, [appearance.opacity]);
+
+  const apply = (
+    changes: Partial<Record<keyof NodeAppearance | "shape", unknown>>,
+    label = "Change style",
+    targets = nodes
+  ) => {
+    updateNodesStyle(targets, changes, label).catch((error) => {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Style Update Failed",
+          message: "Unable to change how the node looks"
+        });
+      });
+    });
+  };
+
+  const reset = () =>
+    apply(Object.fromEntries(APPEARANCE_KEYS.map((key) => [key, undefined])), "Reset style");
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent
+        side={side}
+        className="w-72 space-y-4"
+        onMouseDown={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+      >
+        {shapes.length > 0 && (
+          <div className="space-y-2">
+            <Label>Shape</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              className="justify-start"
+              value={getShapeKind(shapes[0])}
+              onValueChange={(value) => value && apply({ shape: value }, "Change shape", shapes)}
+            >
+              {(Object.keys(SHAPE_KINDS) as ShapeKind[]).map((kind) => (
+                <ToggleGroupItem key={kind} value={kind} aria-label={SHAPE_KINDS[kind].label} title={SHAPE_KINDS[kind].label}>
+                  <ShapeIcon kind={kind} className="h-4 w-4" />
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Color</Label>
+          <div className="flex flex-wrap gap-1.5">
+            <button
+              type="button"
+              className={cn(
+                "flex h-7 w-7 items-center justify-center rounded-full border bg-background",
+                !appearance.color && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+              )}
+              onClick={() => apply({ color: undefined }, "Remove color")}
+              aria-label="No color"
+              title="No color"
+            >
+              <Ban className="h-3.5 w-3.5 text-muted-foreground" />
+            </button>
+            {(Object.keys(NODE_COLORS) as NodeColor[]).map((color) => (
+              <button
+                key={color}
+                type="button"
+                className={cn(
+                  "h-7 w-7 rounded-full border",
+                  appearance.color === color && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+                )}
+                style={{ backgroundColor: NODE_COLORS[color].light, borderColor: NODE_COLORS[color].swatch }}
+                onClick={() => apply({ color }, `Color ${NODE_COLORS[color].label.toLowerCase()}`)}
+                aria-label={NODE_COLORS[color].label}
+                title={NODE_COLORS[color].label}
+              />
+            ))}
+          </div>
+        </div>
+
+        {shapes.length > 0 && (
+          <div className="space-y-2">
+            <Label>Outline</Label>
+            <div className="flex flex-wrap gap-1.5">
+              <button
+                type="button"
+                className={cn(
+                  "flex h-7 w-7 items-center justify-center rounded-full border bg-background text-[10px] text-muted-foreground",
+                  !appearance.stroke && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+                )}
+                onClick={() => apply({ stroke: undefined }, "Match outline to color", shapes)}
+                aria-label="Match the color"
+                title="Match the color"
+              >
+                Auto
+              </button>
+              {(Object.keys(NODE_COLORS) as NodeColor[]).map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  className={cn(
+                    "h-7 w-7 rounded-full border-4 bg-background",
+                    appearance.stroke === color && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+                  )}
+                  style={{ borderColor: NODE_COLORS[color].swatch }}
+                  onClick={() => apply({ stroke: color }, `Outline ${NODE_COLORS[color].label.toLowerCase()}`, shapes)}
+                  aria-label={NODE_COLORS[color].label}
+                  title={NODE_COLORS[color].label}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {hasCards && (
+          <div className="space-y-2">
+            <Label>Border</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              className="justify-start"
+              value={appearance.border ?? "thin"}
+              onValueChange={(value) => value && apply({ border: value as NodeBorder })}
+            >
+              {(Object.keys(NODE_BORDERS) as NodeBorder[]).map((border) => (
+                <ToggleGroupItem key={border} value={border} className="text-xs">
+                  {NODE_BORDERS[border]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        )}
+
+        {hasText && (
+          <>
+            <div className="space-y-2">
+              <Label>Font</Label>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                className="justify-start"
+                value={appearance.font ?? "sans"}
+                onValueChange={(value) => value && apply({ font: value as NodeFont })}
+              >
+                {(Object.keys(NODE_FONTS) as NodeFont[]).map((font) => (
+                  <ToggleGroupItem
+                    key={font}
+                    value={font}
+                    className="text-xs"
+                    style={{ fontFamily: NODE_FONTS[font].family }}
+                  >
+                    {NODE_FONTS[font].label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            <div className="flex gap-4">
+              <div className="flex-1 space-y-2">
+                <Label>Size</Label>
+                <Select
+                  value={appearance.fontSize ? String(appearance.fontSize) : "auto"}
+                  onValueChange={(value) => apply({ fontSize: value === "auto" ? undefined : Number(value) })}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Fit to note</SelectItem>
+                    {NODE_FONT_SIZES.map((size) => (
+                      <SelectItem key={size} value={String(size)}>{size}px</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Align</Label>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  value={appearance.textAlign ?? (isShape(nodes[0]) ? "center" : "left")}
+                  onValueChange={(value) => value && apply({ textAlign: value as NodeTextAlign })}
+                >
+                  <ToggleGroupItem value="left" aria-label="Align left">
+                    <AlignLeft className="h-4 w-4" />
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="center" aria-label="Align center">
+                    <AlignCenter className="h-4 w-4" />
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="right" aria-label="Align right">
+                    <AlignRight className="h-4 w-4" />
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Opacity</Label>
+            <span className="text-xs text-muted-foreground">{Math.round(opacity * 100)}%</span>
+          </div>
+          <Slider
+            min={MIN_NODE_OPACITY}
+            max={1}
+            step={0.05}
+            value={[opacity]}
+            onValueChange={([value]) => setOpacity(value)}
+            onValueCommit={([value]) => apply({ opacity: value === 1 ? undefined : value }, "Change opacity")}
+          />
+        </div>
+
+        <Button variant="ghost" size="sm" className="w-full" onClick={reset}>
+          Reset to default
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { getInitials, PRESENCE_COLORS, PresenceIdentity, usePresenceStore } from "@/lib/presence";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { Check } from "lucide-react";
+
+// Avatars shown before collapsing the rest into a "+N" badge
+const MAX_VISIBLE_PEERS = 4;
+
+const Avatar = ({ identity, className }: { identity: PresenceIdentity; className?: string }) => (
+  <div
+    className={cn(
+      "h-8 w-8 rounded-full border-2 border-background flex items-center justify-center text-[11px] font-semibold text-white select-none",
+      className
+    )}
+    style={{ backgroundColor: identity.color }}
+  >
+    {getInitials(identity.name)}
+  </div>
+);
+
+/**
+ * "People here" stack: the local visitor (click to change name and color)
+ * followed by everyone else on the canvas
+ */
+export const PresenceAvatars = () => {
+  const identity = usePresenceStore((state) => state.identity);
+  const setIdentity = usePresenceStore((state) => state.setIdentity);
+  const peers = usePresenceStore((state) => state.peers);
+  const [nameDraft, setNameDraft] = useState(identity.name);
+
+  useEffect(() => {
+    setNameDraft(identity.name);
+  }, [identity.name]);
+
+  const saveName = () => {
+    const name = nameDraft.trim();
+    if (name && name !== identity.name) {
+      setIdentity({ ...identity, name: name.slice(0, 32) });
+    } else {
+      setNameDraft(identity.name);
+    }
+  };
+
+  const visiblePeers = peers.slice(0, MAX_VISIBLE_PEERS);
+  const hiddenPeers = peers.slice(MAX_VISIBLE_PEERS);
+
+  return (
+    <div className="flex sm:flex-col items-center -space-x-2 sm:space-x-0 sm:-space-y-2">
+      <Popover>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <PopoverTrigger asChild>
+              <button className="rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring">
+                <Avatar identity={identity} className="ring-2 ring-primary/40" />
+              </button>
+            </PopoverTrigger>
+          </TooltipTrigger>
+          <TooltipContent side="right">
+            <p>{identity.name} (you)</p>
+          </TooltipContent>
+        </Tooltip>
+        <PopoverContent side="right" className="w-64 space-y-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Your name</p>
+            <Input
+              value={nameDraft}
+              onChange={(e) => setNameDraft(e.target.value)}
+              onBlur={saveName}
+              onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === 'Enter') saveName();
+              }}
+              maxLength={32}
+            />
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Cursor color</p>
+            <div className="flex flex-wrap gap-2">
+              {PRESENCE_COLORS.map((color) => (
+                <button
+                  key={color}
+                  className="h-6 w-6 rounded-full flex items-center justify-center"
+                  style={{ backgroundColor: color }}
+                  onClick={() => setIdentity({ ...identity, color })}
+                  title={color}
+                >
+                  {identity.color === color && <Check className="h-3.5 w-3.5 text-white" />}
+                </button>
+              ))}
+            </div>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {visiblePeers.map((peer) => (
+        <Tooltip key={peer.id}>
+          <TooltipTrigger asChild>
+            <div>
+              <Avatar identity={peer} />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent side="right">
+            <p>{peer.name}</p>
+          </TooltipContent>
+        </Tooltip>
+      ))}
+
+      {hiddenPeers.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="h-8 w-8 rounded-full border-2 border-background bg-muted flex items-center justify-center text-[11px] font-semibold select-none">
+              +{hiddenPeers.length}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent side="right">
+            <div className="space-y-0.5">
+              {hiddenPeers.map((peer) => (
+                <p key={peer.id}>{peer.name}</p>
+              ))}
+            </div>
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { useLayoutEffect, useState } from "react";
+import type { RemoteCaret } from "@/hooks/useCollaborativeText";
+import { getTextareaCaretCoordinates } from "@/lib/collab-text";
+
+interface RemoteCaretsProps {
+  textareaId: string;
+  carets: RemoteCaret[];
+  // Current text, so carets are re-measured whenever it changes
+  content: string;
+}
+
+/**
+ * Carets of other people editing the same text node, drawn over the textarea
+ */
+export const RemoteCarets = ({ textareaId, carets, content }: RemoteCaretsProps) => {
+  const [positions, setPositions] = useState<Array<RemoteCaret & { top: number; left: number; height: number }>>([]);
+
+  useLayoutEffect(() => {
+    const textarea = document.getElementById(textareaId) as HTMLTextAreaElement | null;
+    if (!textarea) return;
+
+    const measure = () => {
+      setPositions(carets.map((caret) => {
+        const coordinates = getTextareaCaretCoordinates(textarea, Math.min(caret.head, textarea.value.length));
+        return {
+          ...caret,
+          top: textarea.offsetTop + coordinates.top,
+          left: textarea.offsetLeft + coordinates.left,
+          height: coordinates.height,
+        };
+      }));
+    };
+
+    measure();
+    textarea.addEventListener("scroll", measure);
+    return () => textarea.removeEventListener("scroll", measure);
+  }, [textareaId, carets, content]);
+
+  return (
+    <>
+      {positions.map((caret) => (
+        <div
+          key={caret.id}
+          className="absolute pointer-events-none"
+          style={{ top: caret.top, left: caret.left, height: caret.height }}
+        >
+          <div className="w-0.5 h-full" style={{ backgroundColor: caret.color }} />
+          <div
+            className="absolute bottom-full left-0 px-1 rounded-sm text-[10px] leading-4 font-medium text-white whitespace-nowrap"
+            style={{ backgroundColor: caret.color }}
+          >
+            {caret.name}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+};
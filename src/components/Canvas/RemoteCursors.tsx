@@ -0,0 +1,48 @@
+import { MousePointer2 } from "lucide-react";
+import { CURSOR_THROTTLE_MS, usePresenceStore } from "@/lib/presence";
+
+interface RemoteCursorsProps {
+  scale: number;
+}
+
+/**
+ * Cursors of other visitors, rendered inside the canvas transform layer
+ */
+export const RemoteCursors = ({ scale }: RemoteCursorsProps) => {
+  const peers = usePresenceStore((state) => state.peers);
+  const cursors = usePresenceStore((state) => state.cursors);
+
+  return (
+    <>
+      {peers.map((peer) => {
+        const cursor = cursors[peer.id];
+        if (!cursor) return null;
+
+        return (
+          <div
+            key={peer.id}
+            className="absolute top-0 left-0 pointer-events-none z-50"
+            style={{
+              // Keep cursors the same size on screen at any zoom level
+              transform: `translate(${cursor.x}px, ${cursor.y}px) scale(${1 / scale})`,
+              transformOrigin: "0 0",
+              // Interpolate between throttled updates
+              transition: `transform ${CURSOR_THROTTLE_MS}ms linear`,
+            }}
+          >
+            <MousePointer2
+              className="h-5 w-5 drop-shadow"
+              style={{ color: peer.color, fill: peer.color }}
+            />
+            <div
+              className="ml-4 -mt-1 px-2 py-0.5 rounded-md text-xs font-medium text-white whitespace-nowrap shadow"
+              style={{ backgroundColor: peer.color }}
+            >
+              {peer.name}
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+};
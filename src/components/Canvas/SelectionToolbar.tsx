@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { Node } from "@/types";
+import { useCanvasStore } from "@/lib/store";
+import { deleteNodes } from "@/lib/node-mutations";
+import { Button } from "@/components/ui/button";
+import { Loader2, Palette, Trash2, X } from "lucide-react";
+import { isFrame } from "@/lib/frames";
+import { NodeStylePanel } from "./NodeStylePanel";
+
+interface SelectionToolbarProps {
+  nodes: Node[];
+}
+
+/**
+ * Returns true when keyboard input is going into an editable field
+ */
+const isTypingTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.isContentEditable
+  );
+};
+
+export const SelectionToolbar = ({ nodes }: SelectionToolbarProps) => {
+  const selectedIds = useCanvasStore((state) => state.selectedIds);
+  const setSelection = useCanvasStore((state) => state.setSelection);
+  const clearSelection = useCanvasStore((state) => state.clearSelection);
+  const readOnly = useCanvasStore((state) => state.readOnly);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Drop ids of nodes that no longer exist (deleted here or by someone else)
+  useEffect(() => {
+    const existing = selectedIds.filter(id => nodes.some(node => node.id === id));
+    if (existing.length !== selectedIds.length) {
+      setSelection(existing);
+    }
+  }, [nodes, selectedIds, setSelection]);
+
+  const handleDeleteSelection = async () => {
+    if (isDeleting || selectedIds.length === 0) return;
+
+    try {
+      setIsDeleting(true);
+      const targets = nodes.filter(node => selectedIds.includes(node.id));
+      await deleteNodes(targets);
+
+      clearSelection();
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Delete Failed",
+          message: "Unable to delete the selected nodes"
+        });
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // Keyboard shortcuts for working with the selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+
+      if ((e.ctrlKey || e.metaKey) && e.key === 'a') {
+        e.preventDefault();
+        setSelection(nodes.map(node => node.id));
+        return;
+      }
+
+      if (selectedIds.length === 0) return;
+
+      if (e.key === 'Escape') {
+        clearSelection();
+      } else if (!readOnly && (e.key === 'Delete' || e.key === 'Backspace')) {
+        e.preventDefault();
+        handleDeleteSelection();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (selectedIds.length < 2) return null;
+
+  // Frames keep their own look
+  const stylable = nodes.filter(node => selectedIds.includes(node.id) && !isFrame(node));
+
+  return (
+    <div
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 bg-background/40 backdrop-blur-sm p-2 rounded-lg border shadow-sm"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <span className="text-xs font-medium text-muted-foreground px-2">
+        {selectedIds.length} selected
+      </span>
+      {!readOnly && stylable.length > 0 && (
+        <NodeStylePanel nodes={stylable}>
+          <Button variant="outline" size="sm">
+            <Palette className="h-4 w-4 mr-1" />
+            Style
+          </Button>
+        </NodeStylePanel>
+      )}
+      {!readOnly && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDeleteSelection}
+          disabled={isDeleting}
+          className="hover:bg-destructive/90 hover:text-destructive-foreground"
+        >
+          {isDeleting ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Trash2 className="h-4 w-4 mr-1" />
+          )}
+          Delete
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={clearSelection}
+        title="Clear selection (Esc)"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
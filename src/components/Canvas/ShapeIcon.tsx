@@ -0,0 +1,19 @@
+import { Circle, Cylinder, Diamond, RectangleHorizontal, Square, Triangle } from "lucide-react";
+import type { ShapeKind } from "@/lib/shapes";
+
+const ICONS: Record<ShapeKind, typeof Square> = {
+  rectangle: RectangleHorizontal,
+  rounded: Square,
+  ellipse: Circle,
+  diamond: Diamond,
+  triangle: Triangle,
+  cylinder: Cylinder,
+};
+
+/**
+ * Icon standing for a kind of shape in menus and pickers
+ */
+export const ShapeIcon = ({ kind, className }: { kind: ShapeKind; className?: string }) => {
+  const Icon = ICONS[kind];
+  return <Icon className={className} />;
+};
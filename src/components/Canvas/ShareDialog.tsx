@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { Copy, Loader2, RotateCcw, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { toast } from "@/hooks/use-toast";
+import {
+  CanvasAccess,
+  configureCanvasAccess,
+  fetchShareKeys,
+  getShareLink,
+  ShareKeys,
+} from "@/lib/canvas-access";
+
+interface ShareDialogProps {
+  code: string;
+  publicAccess: CanvasAccess;
+  hasPassword: boolean;
+}
+
+const PUBLIC_ACCESS_LABELS: Record<CanvasAccess, string> = {
+  edit: "Can edit",
+  view: "Can view",
+  none: "No access",
+};
+
+const ShareLink = ({ label, url }: { label: string; url?: string }) => (
+  <div className="space-y-2">
+    <Label>{label}</Label>
+    <div className="flex gap-2">
+      <Input value={url ?? ""} placeholder="Loading..." readOnly onFocus={(e) => e.target.select()} />
+      <Button
+        variant="outline"
+        size="icon"
+        disabled={!url}
+        aria-label={`Copy ${label.toLowerCase()}`}
+        onClick={() => {
+          if (!url) return;
+          navigator.clipboard.writeText(url);
+          toast({ title: "Link copied" });
+        }}
+      >
+        <Copy className="h-4 w-4" />
+      </Button>
+    </div>
+  </div>
+);
+
+/**
+ * Share links and access settings, only offered to editors
+ */
+export const ShareDialog = ({ code, publicAccess, hasPassword }: ShareDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [keys, setKeys] = useState<ShareKeys | null>(null);
+  const [access, setAccess] = useState<CanvasAccess>(publicAccess);
+  const [password, setPassword] = useState("");
+  const [removePassword, setRemovePassword] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const willHavePassword = password.length > 0 || (hasPassword && !removePassword);
+  // With open editing anyone already has full access, so a password would be pointless
+  const passwordConflict = willHavePassword && access === "edit";
+
+  useEffect(() => {
+    if (!open) return;
+
+    setAccess(publicAccess);
+    setPassword("");
+    setRemovePassword(false);
+    fetchShareKeys(code)
+      .then(setKeys)
+      .catch((error) => {
+        import('@/lib/error-handler').then(({ handleError }) => {
+          handleError(error, { title: "Share Links Unavailable" });
+        });
+      });
+  }, [open, code, publicAccess]);
+
+  const save = async (rotateKeys = false) => {
+    setIsSaving(true);
+    try {
+      await configureCanvasAccess(code, {
+        publicAccess: access,
+        password: password ? password : removePassword ? null : undefined,
+        rotateKeys,
+      });
+      setPassword("");
+      setRemovePassword(false);
+
+      if (rotateKeys) {
+        setKeys(await fetchShareKeys(code));
+        toast({ title: "Share links reset", description: "Old links no longer work" });
+      } else {
+        toast({ title: "Sharing updated" });
+      }
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, { title: "Sharing Update Failed" });
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="icon">
+              <Share2 className="h-4 w-4" />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="right">
+          <p>Share</p>
+        </TooltipContent>
+      </Tooltip>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share canvas</DialogTitle>
+          <DialogDescription>
+            Links carry their own access, whatever the settings below allow.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ShareLink label="Edit link" url={keys ? getShareLink(code, keys.edit_key) : undefined} />
+          <ShareLink label="Read-only link" url={keys ? getShareLink(code, keys.view_key) : undefined} />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground"
+            disabled={isSaving || passwordConflict}
+            onClick={() => save(true)}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset links
+          </Button>
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="space-y-2">
+            <Label>Anyone with just the code</Label>
+            <Select value={access} onValueChange={(value) => setAccess(value as CanvasAccess)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PUBLIC_ACCESS_LABELS) as CanvasAccess[]).map((level) => (
+                  <SelectItem key={level} value={level}>
+                    {PUBLIC_ACCESS_LABELS[level]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {access === "edit" && (
+              <p className="text-xs text-muted-foreground">
+                Read-only links only restrict people once the code alone no longer grants editing.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="canvas-password">Password</Label>
+            <div className="flex gap-2">
+              <Input
+                id="canvas-password"
+                type="password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setRemovePassword(false);
+                }}
+                placeholder={hasPassword && !removePassword ? "Keep current password" : "No password"}
+              />
+              {hasPassword && !removePassword && (
+                <Button variant="outline" onClick={() => setRemovePassword(true)}>
+                  Remove
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {passwordConflict
+                ? "Choose view-only or no access above for a password to protect anything."
+                : "Entering the password grants editing."}
+            </p>
+          </div>
+
+          <Button className="w-full" disabled={isSaving || passwordConflict} onClick={() => save()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,60 @@
+import { Cloud, CloudOff, RefreshCw, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { flushQueue, getSyncStatus, useOfflineStore } from "@/lib/offline-store";
+import { cn } from "@/lib/utils";
+
+const pluralize = (count: number) => `${count} change${count === 1 ? "" : "s"}`;
+
+/**
+ * Shows whether local changes have reached the server. Clicking retries
+ * queued changes straight away.
+ */
+export const SyncStatus = () => {
+  const status = useOfflineStore(getSyncStatus);
+  const pending = useOfflineStore((state) => state.queue.length);
+  const lastError = useOfflineStore((state) => state.lastError);
+
+  const icon = {
+    synced: <Cloud className="h-4 w-4" />,
+    offline: <CloudOff className="h-4 w-4" />,
+    syncing: <RefreshCw className="h-4 w-4 animate-spin" />,
+    error: <TriangleAlert className="h-4 w-4" />,
+  }[status];
+
+  const description = {
+    synced: "All changes saved",
+    offline: pending > 0
+      ? `Offline - ${pluralize(pending)} will sync when you reconnect`
+      : "Offline - changes will sync when you reconnect",
+    syncing: `Syncing ${pluralize(pending)}`,
+    error: `Couldn't sync ${pluralize(pending)}, retrying`,
+  }[status];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => flushQueue()}
+          className={cn(
+            status === "offline" && "text-muted-foreground",
+            status === "error" && "text-destructive"
+          )}
+          aria-label={description}
+        >
+          {icon}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent side="right">
+        <div className="space-y-1">
+          <p>{description}</p>
+          {status === "error" && lastError && (
+            <p className="text-xs text-muted-foreground">{lastError}</p>
+          )}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
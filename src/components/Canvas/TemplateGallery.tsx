@@ -0,0 +1,135 @@
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { BUILT_IN_TEMPLATES, CanvasTemplate, getTemplateSize, useTemplateStore } from "@/lib/canvas-templates";
+import { cn } from "@/lib/utils";
+
+// Miniature of a template's layout
+const TemplatePreview = ({ template }: { template: CanvasTemplate }) => {
+  const { width, height } = getTemplateSize(template);
+  const byId = new Map(template.nodes.map((node) => [node.id, node]));
+
+  return (
+    <svg
+      viewBox={`-20 -20 ${width + 40} ${height + 40}`}
+      className="h-20 w-full rounded-md bg-muted"
+      preserveAspectRatio="xMidYMid meet"
+      aria-hidden="true"
+    >
+      {template.edges.map((edge, index) => {
+        const source = byId.get(edge.source_id);
+        const target = byId.get(edge.target_id);
+        if (!source || !target) return null;
+        return (
+          <line
+            key={index}
+            x1={source.x + source.width / 2}
+            y1={source.y + source.height / 2}
+            x2={target.x + target.width / 2}
+            y2={target.y + target.height / 2}
+            className="stroke-muted-foreground"
+            strokeWidth={6}
+          />
+        );
+      })}
+      {template.nodes.map((node) => (
+        <rect
+          key={node.id}
+          x={node.x}
+          y={node.y}
+          width={node.width}
+          height={node.height}
+          rx={12}
+          className={node.node_type === "frame"
+            ? "fill-muted-foreground/10 stroke-muted-foreground"
+            : "fill-background stroke-primary"}
+          strokeWidth={6}
+          strokeDasharray={node.node_type === "frame" ? "24 16" : undefined}
+        />
+      ))}
+    </svg>
+  );
+};
+
+interface TemplateGalleryProps {
+  selectedId: string | null;
+  onSelect: (template: CanvasTemplate | null) => void;
+  // Offer an empty canvas as the first choice
+  allowBlank?: boolean;
+}
+
+/**
+ * Built-in and saved templates to pick from
+ */
+export const TemplateGallery = ({ selectedId, onSelect, allowBlank = false }: TemplateGalleryProps) => {
+  const saved = useTemplateStore((state) => state.saved);
+  const removeTemplate = useTemplateStore((state) => state.removeTemplate);
+
+  const card = (key: string, isSelected: boolean, onClick: () => void, children: React.ReactNode) => (
+    <div
+      key={key}
+      role="button"
+      tabIndex={0}
+      aria-pressed={isSelected}
+      onClick={onClick}
+      onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && (e.preventDefault(), onClick())}
+      className={cn(
+        "group relative flex flex-col gap-2 rounded-lg border p-2 text-left transition-colors cursor-pointer hover:bg-accent",
+        isSelected && "border-primary ring-1 ring-primary"
+      )}
+    >
+      {children}
+    </div>
+  );
+
+  const templateCard = (template: CanvasTemplate, removable: boolean) =>
+    card(template.id, selectedId === template.id, () => onSelect(template), (
+      <>
+        <TemplatePreview template={template} />
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium">{template.name}</p>
+          <p className="line-clamp-2 text-xs text-muted-foreground">{template.description}</p>
+        </div>
+        {removable && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute right-1 top-1 h-7 w-7 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+            aria-label={`Remove ${template.name}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              if (selectedId === template.id) onSelect(null);
+              removeTemplate(template.id);
+            }}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </>
+    ));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+        {allowBlank && card("blank", selectedId === null, () => onSelect(null), (
+          <>
+            <div className="h-20 w-full rounded-md border border-dashed bg-muted/40" />
+            <div>
+              <p className="text-sm font-medium">Blank canvas</p>
+              <p className="text-xs text-muted-foreground">Start from nothing</p>
+            </div>
+          </>
+        ))}
+        {BUILT_IN_TEMPLATES.map((template) => templateCard(template, false))}
+      </div>
+
+      {saved.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Saved in this browser</p>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+            {saved.map((template) => templateCard(template, true))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { LayoutTemplate, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { toast } from "@/hooks/use-toast";
+import {
+  CanvasTemplate,
+  createTemplateFromCanvas,
+  insertTemplate,
+  isTemplateNode,
+  useTemplateStore,
+} from "@/lib/canvas-templates";
+import { Rect, Size } from "@/lib/geometry";
+import { findAvailablePosition } from "@/lib/node-placement";
+import type { SpatialIndex } from "@/lib/spatial-index";
+import { Edge, Node } from "@/types";
+import { TemplateGallery } from "./TemplateGallery";
+
+interface TemplatesDialogProps {
+  canvasId: string;
+  nodes: Node[];
+  edges: Edge[];
+  spatialIndex: SpatialIndex;
+  viewportBounds?: Rect;
+}
+
+/**
+ * Insert a template into the current view, or save this canvas' layout as
+ * a template of its own
+ */
+export const TemplatesDialog = ({ canvasId, nodes, edges, spatialIndex, viewportBounds }: TemplatesDialogProps) => {
+  const saveTemplate = useTemplateStore((state) => state.saveTemplate);
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState("insert");
+  const [selected, setSelected] = useState<CanvasTemplate | null>(null);
+  const [isInserting, setIsInserting] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const savable = nodes.filter(isTemplateNode).length;
+
+  const handleOpenChange = (next: boolean) => {
+    if (isInserting) return;
+    setOpen(next);
+    if (!next) {
+      setSelected(null);
+      setName("");
+      setDescription("");
+      setTab("insert");
+    }
+  };
+
+  const handleInsert = async () => {
+    if (!selected || isInserting) return;
+
+    setIsInserting(true);
+    try {
+      await insertTemplate(selected, {
+        canvasId,
+        place: (size: Size) => findAvailablePosition(spatialIndex, size, viewportBounds || null),
+      });
+      setIsInserting(false);
+      handleOpenChange(false);
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Insert Failed",
+          message: "Unable to add the template"
+        });
+      });
+      setIsInserting(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || savable === 0) return;
+
+    const { template, skipped } = createTemplateFromCanvas(name.trim(), description.trim(), nodes, edges);
+    saveTemplate(template);
+    toast({
+      title: "Template Saved",
+      description: skipped > 0
+        ? `${skipped} ${skipped === 1 ? "file was" : "files were"} left out, since templates only hold notes, frames, drawings, shapes and boards`
+        : "Pick it when creating a canvas or from the templates button"
+    });
+    setName("");
+    setDescription("");
+    setSelected(template);
+    setTab("insert");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="icon">
+              <LayoutTemplate className="h-4 w-4" />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="right">
+          <div className="space-y-1">
+            <p>Templates</p>
+            <p className="text-xs text-muted-foreground">Add a ready-made layout or save this one</p>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Templates</DialogTitle>
+          <DialogDescription>Templates are added in the middle of your current view.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList>
+            <TabsTrigger value="insert">Insert</TabsTrigger>
+            <TabsTrigger value="save">Save this canvas</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="insert" className="space-y-4">
+            <ScrollArea className="h-[50vh] pr-3">
+              <TemplateGallery selectedId={selected?.id ?? null} onSelect={setSelected} />
+            </ScrollArea>
+            <DialogFooter>
+              <Button onClick={handleInsert} disabled={!selected || isInserting}>
+                {isInserting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isInserting ? "Adding..." : "Add to canvas"}
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+
+          <TabsContent value="save">
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Team retro"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Description</Label>
+                <Input
+                  id="template-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Notes, frames, drawings, shapes, boards and connectors are saved in this browser. Images, videos and PDFs are left out.
+              </p>
+              <DialogFooter>
+                <Button type="submit" disabled={!name.trim() || savable === 0}>
+                  Save template
+                </Button>
+              </DialogFooter>
+            </form>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,154 @@
+import { useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ArchiveRestore, File, FileText, Frame, Image, Loader2, RotateCcw, Video } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { getPurgeDate, TRASH_GRACE_DAYS, useTrash } from "@/hooks/useTrash";
+import { useFileUrl } from "@/hooks/useFileUrl";
+import { getNodeLabel, getThumbnailPath, THUMBNAIL_TRANSFORM } from "@/lib/level-of-detail";
+import { restoreNodes } from "@/lib/node-mutations";
+import { Node } from "@/types";
+
+const TYPE_ICONS = {
+  text: FileText,
+  image: Image,
+  video: Video,
+  pdf: File,
+  frame: Frame,
+};
+
+const TrashItem = ({ node, onRestore, isRestoring }: {
+  node: Node;
+  onRestore: () => void;
+  isRestoring: boolean;
+}) => {
+  const Icon = TYPE_ICONS[node.node_type] ?? File;
+  const thumbnail = useFileUrl(getThumbnailPath(node), THUMBNAIL_TRANSFORM);
+
+  return (
+    <li className="flex items-center gap-3 rounded-lg border p-2">
+      <div className="flex h-12 w-12 shrink-0 items-center justify-center overflow-hidden rounded-md bg-muted">
+        {thumbnail ? (
+          <img src={thumbnail} alt="" className="h-full w-full object-cover" loading="lazy" />
+        ) : (
+          <Icon className="h-5 w-5 text-muted-foreground" />
+        )}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium">{getNodeLabel(node)}</p>
+        <p className="text-xs text-muted-foreground">
+          <span className="capitalize">{node.node_type}</span>
+          {" · deleted "}
+          {formatDistanceToNow(new Date(node.deleted_at as string), { addSuffix: true })}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Gone for good {formatDistanceToNow(getPurgeDate(node), { addSuffix: true })}
+        </p>
+      </div>
+      <Button variant="ghost" size="icon" onClick={onRestore} disabled={isRestoring} aria-label="Restore">
+        {isRestoring ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+      </Button>
+    </li>
+  );
+};
+
+/**
+ * Deleted nodes of a canvas, which can be put back where they were until
+ * the cleanup function purges them
+ */
+export const TrashPanel = ({ canvasId }: { canvasId: string }) => {
+  const [open, setOpen] = useState(false);
+  const [restoringIds, setRestoringIds] = useState<string[]>([]);
+  const { data: trash = [], isLoading, isError } = useTrash(canvasId, open);
+
+  const items = useMemo(
+    () => [...trash].sort((a, b) => (b.deleted_at ?? "").localeCompare(a.deleted_at ?? "")),
+    [trash]
+  );
+
+  const handleRestore = async (nodes: Node[]) => {
+    const ids = nodes.map((node) => node.id);
+    setRestoringIds((current) => [...current, ...ids]);
+    try {
+      await restoreNodes(nodes);
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Restore Failed",
+          message: "Unable to restore from the trash"
+        });
+      });
+    } finally {
+      setRestoringIds((current) => current.filter((id) => !ids.includes(id)));
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <SheetTrigger asChild>
+            <Button variant="outline" size="icon">
+              <ArchiveRestore className="h-4 w-4" />
+            </Button>
+          </SheetTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="right">
+          <p>Trash</p>
+        </TooltipContent>
+      </Tooltip>
+      <SheetContent side="left" className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Trash</SheetTitle>
+          <SheetDescription>
+            Deleted nodes are kept for {TRASH_GRACE_DAYS} days. Restoring puts them back where they were.
+          </SheetDescription>
+        </SheetHeader>
+
+        {items.length > 1 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleRestore(items)}
+            disabled={restoringIds.length > 0}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Restore all
+          </Button>
+        )}
+
+        <ScrollArea className="flex-1 -mx-2 px-2">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : isError ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">Couldn't load the trash</p>
+          ) : items.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">The trash is empty</p>
+          ) : (
+            <ul className="space-y-2">
+              {items.map((node) => (
+                <TrashItem
+                  key={node.id}
+                  node={node}
+                  onRestore={() => handleRestore([node])}
+                  isRestoring={restoringIds.includes(node.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -1,61 +1,63 @@
 import { useCallback, useEffect } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
-import type { Node, ViewConfig } from "@/types";
+import { supabase } from "@/lib/supabase";
+import type { Tables } from "@/integrations/supabase/types";
+import type { Edge, Node, ViewConfig } from "@/types";
 import { toast } from "./use-toast";
+import { hasPendingWrite, reconcileRows, removeRows, upsertRows } from "@/lib/query-cache";
+import { offlineKeys, readOffline, writeOffline } from "@/lib/offline-db";
+import { isNetworkError } from "@/lib/retry";
+import { CanvasAccess, resolveCanvasAccess, useAccessStore } from "@/lib/canvas-access";
+import { touchCanvas } from "@/lib/canvas-retention";
+
+// How long to wait after the last change before saving the offline copy
+const SNAPSHOT_DELAY_MS = 1000;
+// How often an open canvas records that it is still in use
+const TOUCH_INTERVAL_MS = 30 * 60 * 1000;
+
+/**
+ * Fall back to the copy saved by the last visit when the server can't be reached
+ */
+const readSnapshot = async <T>(key: string, error: unknown) => {
+  if (!isNetworkError(error)) return undefined;
+  try {
+    return await readOffline<T>(key);
+  } catch {
+    return undefined;
+  }
+};
 
 export const useCanvas = (code?: string) => {
   const queryClient = useQueryClient();
 
-  const { data: canvas } = useQuery({
+  const { data: canvas, isFetched: canvasFetched } = useQuery({
     queryKey: ["canvas", code],
     queryFn: async () => {
       if (!code) return null;
       
       try {
-        // Try to get the existing canvas
+        // Canvases are only created on purpose, so a typo doesn't start a new one
         const { data: canvas, error } = await supabase
           .from("canvases")
           .select("*")
           .eq("code", code)
-          .single();
+          .maybeSingle();
 
-        // If canvas exists, return it
-        if (canvas) {
-          return canvas;
-        }
-        
-        // If there was a validation error rather than "not found", throw it
-        if (error && error.code !== 'PGRST116') {
+        if (error) {
           console.error("Error fetching canvas:", error);
           throw error;
         }
 
-        // Create a new canvas since it doesn't exist
-        const { data: newCanvas, error: createError } = await supabase
-          .from("canvases")
-          .insert([{ code }])
-          .select()
-          .single();
-          
-        if (createError) {
-          console.error("Error creating canvas:", createError);
-          throw createError;
-        }
-        
-        // Notify user of new canvas creation
-        toast({
-          title: "New Canvas Created",
-          description: "Started a new canvas with this code"
-        });
-        
-        return newCanvas;
+        return canvas;
       } catch (error) {
+        const snapshot = await readSnapshot<Tables<"canvases">>(offlineKeys.canvas(code), error);
+        if (snapshot) return snapshot;
+
         // Import and use error handler
         const { handleError } = await import('@/lib/error-handler');
         handleError(error, {
           title: "Canvas Error",
-          message: "Failed to load or create canvas"
+          message: "Failed to load canvas"
         });
         
         // Return null to prevent further errors
@@ -63,24 +65,76 @@ export const useCanvas = (code?: string) => {
       }
     },
     enabled: !!code,
+    // Run even without a connection so the offline copy can be served
+    networkMode: "always",
     retry: 1, // Only retry once to avoid excessive retries on real errors
   });
 
+  // Requests and realtime channels carry this canvas' access token, if any
+  const setActiveCanvas = useAccessStore((state) => state.setActiveCanvas);
+  const grant = useAccessStore((state) => (code ? state.grants[code] : undefined));
+  const access: CanvasAccess = canvas ? resolveCanvasAccess(canvas.public_access, grant) : "none";
+  const canView = access !== "none";
+
+  useEffect(() => {
+    setActiveCanvas(code ?? null);
+    return () => setActiveCanvas(null);
+  }, [code, setActiveCanvas]);
+
+  const createCanvas = useCallback(async () => {
+    if (!code) return null;
+
+    try {
+      const { data: newCanvas, error } = await supabase
+        .from("canvases")
+        .insert([{ code }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      queryClient.setQueryData(["canvas", code], newCanvas);
+      toast({
+        title: "New Canvas Created",
+        description: "Started a new canvas with this code"
+      });
+
+      return newCanvas;
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: "Canvas Error",
+          message: "Failed to create canvas"
+        });
+      });
+      return null;
+    }
+  }, [code, queryClient]);
+
   const { data: nodes = [] } = useQuery({
     queryKey: ["nodes", canvas?.id],
     queryFn: async () => {
       if (!canvas?.id) return [];
       
       try {
+        // Trashed nodes are listed separately by the trash panel
         const { data: nodes, error } = await supabase
           .from("nodes")
           .select("*")
-          .eq("canvas_id", canvas.id);
+          .eq("canvas_id", canvas.id)
+          .is("deleted_at", null);
           
         if (error) throw error;
         
-        return (nodes || []) as Node[];
+        // Don't let a refetch undo changes that are still being saved
+        return reconcileRows(
+          (nodes || []) as Node[],
+          queryClient.getQueryData<Node[]>(["nodes", canvas.id])
+        );
       } catch (error) {
+        const snapshot = await readSnapshot<Node[]>(offlineKeys.nodes(canvas.id), error);
+        if (snapshot) return snapshot;
+
         // Import and use error handler
         const { handleError } = await import('@/lib/error-handler');
         handleError(error, {
@@ -92,12 +146,80 @@ export const useCanvas = (code?: string) => {
         return [];
       }
     },
-    enabled: !!canvas?.id,
+    enabled: !!canvas?.id && canView,
+    networkMode: "always",
+  });
+
+  const { data: edges = [] } = useQuery({
+    queryKey: ["edges", canvas?.id],
+    queryFn: async () => {
+      if (!canvas?.id) return [];
+
+      try {
+        const { data: edges, error } = await supabase
+          .from("edges")
+          .select("*")
+          .eq("canvas_id", canvas.id);
+
+        if (error) throw error;
+
+        return reconcileRows(
+          (edges || []) as Edge[],
+          queryClient.getQueryData<Edge[]>(["edges", canvas.id])
+        );
+      } catch (error) {
+        const snapshot = await readSnapshot<Edge[]>(offlineKeys.edges(canvas.id), error);
+        if (snapshot) return snapshot;
+
+        const { handleError } = await import('@/lib/error-handler');
+        handleError(error, {
+          title: "Data Load Error",
+          message: "Failed to load canvas connectors"
+        });
+
+        return [];
+      }
+    },
+    enabled: !!canvas?.id && canView,
+    networkMode: "always",
   });
 
+  // Keep a local copy of the canvas so it can be opened without a connection
+  useEffect(() => {
+    if (!code || !canvas?.id || !canView) return;
+
+    const timeout = setTimeout(() => {
+      Promise.all([
+        writeOffline(offlineKeys.canvas(code), canvas),
+        writeOffline(offlineKeys.nodes(canvas.id), nodes),
+        writeOffline(offlineKeys.edges(canvas.id), edges),
+      ]).catch((error) => {
+        console.error("Error saving offline copy:", error);
+      });
+    }, SNAPSHOT_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [code, canvas, nodes, edges, canView]);
+
+  // Keep canvases that expire after inactivity alive while they're open
+  useEffect(() => {
+    if (!code || !canvas?.id || !canView) return;
+
+    const touch = () => {
+      touchCanvas({ id: canvas.id, code }).catch((error) => {
+        console.error("Error recording canvas visit:", error);
+      });
+    };
+
+    touch();
+    const interval = setInterval(touch, TOUCH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [code, canvas?.id, canView]);
+
   const updateViewConfig = useCallback(
     async (viewConfig: ViewConfig) => {
-      if (!canvas?.id) return;
+      // Viewers can look around, but the saved view belongs to editors
+      if (!canvas?.id || access !== "edit") return;
       
       try {
         const { error } = await supabase
@@ -116,15 +238,22 @@ export const useCanvas = (code?: string) => {
         });
       }
     },
-    [canvas?.id]
+    [canvas?.id, access]
   );
 
+  // Subscribed again once unlocking lets this visitor see the canvas
   useEffect(() => {
-    if (!canvas?.id) return;
+    if (!canvas?.id || !canView) return;
+
+    const nodesKey = ["nodes", canvas.id];
+    const edgesKey = ["edges", canvas.id];
+    const trashKey = ["trash", canvas.id];
+    // Set once the channel drops, so the next subscribe knows events were missed
+    let missedEvents = false;
 
     const channel = supabase
       .channel("canvas-changes")
-      .on(
+      .on<Node>(
         "postgres_changes",
         {
           event: "*",
@@ -132,16 +261,83 @@ export const useCanvas = (code?: string) => {
           table: "nodes",
           filter: `canvas_id=eq.${canvas.id}`,
         },
-        () => {
-          queryClient.invalidateQueries({ queryKey: ["nodes", canvas.id] });
+        (payload) => {
+          // Echoes of our own in-flight writes would briefly undo later changes
+          const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+          if (row.id && hasPendingWrite(row as Node)) return;
+
+          if (payload.eventType === "DELETE") {
+            const nodeId = payload.old.id;
+            if (!nodeId) return;
+            queryClient.setQueryData<Node[]>(nodesKey, (nodes) =>
+              removeRows(nodes, (node) => node.id === nodeId)
+            );
+            // Edges attached to a deleted node are removed by cascade
+            queryClient.setQueryData<Edge[]>(edgesKey, (edges) =>
+              removeRows(edges, (edge) => edge.source_id === nodeId || edge.target_id === nodeId)
+            );
+            queryClient.setQueryData<Node[]>(trashKey, (trash) =>
+              trash && removeRows(trash, (node) => node.id === nodeId)
+            );
+            return;
+          }
+
+          // Moved to or restored from the trash by someone else
+          if (payload.new.deleted_at) {
+            queryClient.setQueryData<Node[]>(nodesKey, (nodes) =>
+              removeRows(nodes, (node) => node.id === payload.new.id)
+            );
+            queryClient.invalidateQueries({ queryKey: trashKey });
+            return;
+          }
+          queryClient.setQueryData<Node[]>(trashKey, (trash) =>
+            trash && removeRows(trash, (node) => node.id === payload.new.id)
+          );
+
+          queryClient.setQueryData<Node[]>(nodesKey, (nodes) => upsertRows(nodes, [payload.new]));
         }
       )
-      .subscribe();
+      .on<Edge>(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "edges",
+          filter: `canvas_id=eq.${canvas.id}`,
+        },
+        (payload) => {
+          const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+          if (row.id && hasPendingWrite(row as Edge)) return;
+
+          if (payload.eventType === "DELETE") {
+            const edgeId = payload.old.id;
+            if (!edgeId) return;
+            queryClient.setQueryData<Edge[]>(edgesKey, (edges) =>
+              removeRows(edges, (edge) => edge.id === edgeId)
+            );
+            return;
+          }
+
+          queryClient.setQueryData<Edge[]>(edgesKey, (edges) => upsertRows(edges, [payload.new]));
+        }
+      )
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          // Changes made while we were disconnected never arrive, so reload once
+          if (missedEvents) {
+            missedEvents = false;
+            queryClient.invalidateQueries({ queryKey: nodesKey });
+            queryClient.invalidateQueries({ queryKey: edgesKey });
+          }
+        } else {
+          missedEvents = true;
+        }
+      });
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [canvas?.id, queryClient]);
+  }, [canvas?.id, canView, queryClient]);
 
   // Properly type cast the view_config from JSON to our ViewConfig type
   let viewConfig: ViewConfig | undefined;
@@ -175,7 +371,12 @@ export const useCanvas = (code?: string) => {
 
   return {
     canvas,
+    // The canvas has been looked up and doesn't exist yet
+    isMissing: canvasFetched && canvas === null,
+    access,
+    createCanvas,
     nodes,
+    edges,
     viewConfig,
     updateViewConfig,
   };
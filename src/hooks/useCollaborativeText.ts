@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as Y from "yjs";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import {
+  applyTextDiff,
+  createSeedUpdate,
+  fromBase64,
+  resolveRelativeIndex,
+  TEXT_KEY,
+  toBase64,
+  toRelativeJSON,
+} from "@/lib/collab-text";
+import { useOfflineStore } from "@/lib/offline-store";
+import { CURSOR_THROTTLE_MS, PresenceIdentity, usePresenceStore } from "@/lib/presence";
+
+// How long to wait for another editor's state before seeding from the snapshot
+const SYNC_TIMEOUT_MS = 500;
+
+// Local typing is the only origin that gets broadcast and undone
+const LOCAL_ORIGIN = "local";
+const REMOTE_ORIGIN = "remote";
+
+interface CaretMessage extends PresenceIdentity {
+  from: string;
+  anchor: unknown;
+  head: unknown;
+}
+
+export interface RemoteCaret extends PresenceIdentity {
+  id: string;
+  anchor: number;
+  head: number;
+}
+
+interface CollaborativeTextOptions {
+  nodeId: string;
+  // Only nodes that are being edited join a session
+  enabled: boolean;
+  // Saved content to start from when nobody else is editing
+  initialContent: string;
+  // Called with the merged text after every local or remote change
+  onChange: (text: string) => void;
+  // Called when a session ends with the text before and after this editor's
+  // own changes, leaving out what others changed meanwhile
+  onSessionEnd?: (before: string, after: string) => void;
+}
+
+/**
+ * Share edits to a text node with everyone else editing it. Changes are
+ * merged through a Yjs document whose updates travel over a Realtime
+ * broadcast channel; the caller persists the resulting plain text.
+ */
+export const useCollaborativeText = ({
+  nodeId,
+  enabled,
+  initialContent,
+  onChange,
+  onSessionEnd,
+}: CollaborativeTextOptions) => {
+  const docRef = useRef<Y.Doc | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const caretMessagesRef = useRef<Record<string, CaretMessage>>({});
+  const lastCaretSentRef = useRef(0);
+  const pendingCaretRef = useRef<[number, number]>([0, 0]);
+  const caretTimeoutRef = useRef<NodeJS.Timeout>();
+  const onChangeRef = useRef(onChange);
+  const onSessionEndRef = useRef(onSessionEnd);
+  const initialContentRef = useRef(initialContent);
+  const [isReady, setIsReady] = useState(false);
+  const [remoteCarets, setRemoteCarets] = useState<RemoteCaret[]>([]);
+
+  onChangeRef.current = onChange;
+  onSessionEndRef.current = onSessionEnd;
+  initialContentRef.current = initialContent;
+
+  // Resolve shared caret positions against the current document
+  const refreshCarets = useCallback(() => {
+    const doc = docRef.current;
+    if (!doc) return;
+
+    const carets: RemoteCaret[] = [];
+    Object.values(caretMessagesRef.current).forEach((message) => {
+      const anchor = resolveRelativeIndex(doc, message.anchor);
+      const head = resolveRelativeIndex(doc, message.head);
+      if (anchor === null || head === null) return;
+      carets.push({ id: message.from, name: message.name, color: message.color, anchor, head });
+    });
+    setRemoteCarets(carets);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const { clientId } = usePresenceStore.getState();
+    const doc = new Y.Doc();
+    const text = doc.getText(TEXT_KEY);
+    const channel = supabase.channel(`text:${nodeId}`, {
+      // Private so the server can check canvas access before letting us in
+      config: { private: true, presence: { key: clientId } },
+    });
+    // Tracks only this editor's changes, so they can be told apart from
+    // remote ones when the session is recorded for undo
+    const localChanges = new Y.UndoManager(text, { trackedOrigins: new Set([LOCAL_ORIGIN]) });
+    const textarea = () => document.getElementById(`textarea-${nodeId}`) as HTMLTextAreaElement | null;
+    let ready = false;
+    let seedTimeout: NodeJS.Timeout | undefined;
+
+    const markReady = () => {
+      if (ready) return;
+      ready = true;
+      clearTimeout(seedTimeout);
+      onChangeRef.current(text.toString());
+      setIsReady(true);
+    };
+
+    // With nobody to sync with, start from the saved snapshot and edit locally
+    const seedFromSnapshot = () => {
+      if (ready) return;
+      Y.applyUpdate(doc, createSeedUpdate(initialContentRef.current), REMOTE_ORIGIN);
+      markReady();
+    };
+
+    const handleTextChange = () => {
+      onChangeRef.current(text.toString());
+      refreshCarets();
+    };
+    text.observe(handleTextChange);
+
+    doc.on("update", (update: Uint8Array, origin: unknown) => {
+      if (origin !== LOCAL_ORIGIN) return;
+      channel.send({
+        type: "broadcast",
+        event: "update",
+        payload: { from: clientId, update: toBase64(update) },
+      });
+    });
+
+    /**
+     * Apply a remote update while keeping the local selection anchored to
+     * the same characters
+     */
+    const applyRemote = (update: Uint8Array) => {
+      const element = textarea();
+      const focused = element && document.activeElement === element;
+      const selection = focused
+        ? [toRelativeJSON(text, element.selectionStart), toRelativeJSON(text, element.selectionEnd)]
+        : null;
+
+      Y.applyUpdate(doc, update, REMOTE_ORIGIN);
+
+      if (element && selection) {
+        const [start, end] = selection.map((json) => resolveRelativeIndex(doc, json));
+        // Wait for React to write the merged value into the textarea
+        requestAnimationFrame(() => {
+          if (start !== null && end !== null) element.setSelectionRange(start, end);
+        });
+      }
+    };
+
+    channel
+      .on("broadcast", { event: "update" }, ({ payload }) => {
+        if (payload.from === clientId) return;
+        applyRemote(fromBase64(payload.update));
+      })
+      .on("broadcast", { event: "sync-request" }, ({ payload }) => {
+        if (payload.from === clientId || !ready) return;
+        channel.send({
+          type: "broadcast",
+          event: "sync-reply",
+          payload: {
+            to: payload.from,
+            update: toBase64(Y.encodeStateAsUpdate(doc, fromBase64(payload.stateVector))),
+          },
+        });
+      })
+      .on("broadcast", { event: "sync-reply" }, ({ payload }) => {
+        if (payload.to !== clientId) return;
+        applyRemote(fromBase64(payload.update));
+        markReady();
+      })
+      .on("broadcast", { event: "caret" }, ({ payload }) => {
+        const message = payload as CaretMessage;
+        if (message.from === clientId) return;
+        caretMessagesRef.current = { ...caretMessagesRef.current, [message.from]: message };
+        refreshCarets();
+      })
+      .on("presence", { event: "sync" }, () => {
+        // Drop carets of editors who have stopped editing
+        const present = channel.presenceState();
+        caretMessagesRef.current = Object.fromEntries(
+          Object.entries(caretMessagesRef.current).filter(([id]) => id in present)
+        );
+        refreshCarets();
+      })
+      .subscribe((status) => {
+        // A channel that can't connect leaves this editor editing on its own
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          seedFromSnapshot();
+          return;
+        }
+        if (status !== "SUBSCRIBED") return;
+        channel.track({ editing: true });
+        // Share anything typed while the channel was down
+        if (ready) {
+          channel.send({
+            type: "broadcast",
+            event: "update",
+            payload: { from: clientId, update: toBase64(Y.encodeStateAsUpdate(doc)) },
+          });
+        }
+        channel.send({
+          type: "broadcast",
+          event: "sync-request",
+          payload: { from: clientId, stateVector: toBase64(Y.encodeStateVector(doc)) },
+        });
+      });
+
+    // Give other editors a moment to answer the sync request; offline,
+    // there's nobody to ask
+    if (useOfflineStore.getState().isOnline) {
+      seedTimeout = setTimeout(seedFromSnapshot, SYNC_TIMEOUT_MS);
+    } else {
+      seedFromSnapshot();
+    }
+
+    docRef.current = doc;
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(seedTimeout);
+      text.unobserve(handleTextChange);
+
+      // Undoing this editor's changes on the way out gives the text as it
+      // would be without them, keeping everyone else's
+      if (ready) {
+        const after = text.toString();
+        while (localChanges.canUndo()) localChanges.undo();
+        onSessionEndRef.current?.(text.toString(), after);
+      }
+      localChanges.destroy();
+      clearTimeout(caretTimeoutRef.current);
+      caretTimeoutRef.current = undefined;
+      docRef.current = null;
+      channelRef.current = null;
+      caretMessagesRef.current = {};
+      supabase.removeChannel(channel);
+      doc.destroy();
+      setIsReady(false);
+      setRemoteCarets([]);
+    };
+  }, [enabled, nodeId, refreshCarets]);
+
+  /**
+   * Merge a locally edited version of the text into the shared document
+   */
+  const applyLocalChange = useCallback((next: string) => {
+    const doc = docRef.current;
+    if (!doc) return;
+
+    const text = doc.getText(TEXT_KEY);
+    applyTextDiff(text, text.toString(), next, LOCAL_ORIGIN);
+  }, []);
+
+  /**
+   * Share the local selection so other editors can draw it, throttled like
+   * presence cursors so only the latest selection is sent
+   */
+  const broadcastCaret = useCallback((anchor: number, head: number) => {
+    pendingCaretRef.current = [anchor, head];
+    if (caretTimeoutRef.current) return;
+
+    const flush = () => {
+      caretTimeoutRef.current = undefined;
+      const doc = docRef.current;
+      const channel = channelRef.current;
+      if (!doc || !channel) return;
+
+      lastCaretSentRef.current = Date.now();
+      const { clientId, identity } = usePresenceStore.getState();
+      const text = doc.getText(TEXT_KEY);
+      const [anchorIndex, headIndex] = pendingCaretRef.current;
+      channel.send({
+        type: "broadcast",
+        event: "caret",
+        payload: {
+          from: clientId,
+          ...identity,
+          anchor: toRelativeJSON(text, anchorIndex),
+          head: toRelativeJSON(text, headIndex),
+        } satisfies CaretMessage,
+      });
+    };
+
+    const wait = CURSOR_THROTTLE_MS - (Date.now() - lastCaretSentRef.current);
+    if (wait <= 0) {
+      flush();
+    } else {
+      caretTimeoutRef.current = setTimeout(flush, wait);
+    }
+  }, []);
+
+  return {
+    isActive: enabled && isReady,
+    applyLocalChange,
+    broadcastCaret,
+    remoteCarets,
+  };
+};
@@ -0,0 +1,10 @@
+import { useReducer } from "react";
+import { FileTransform, peekFileUrl } from "@/lib/canvas-files";
+
+/**
+ * Signed URL for a canvas file, or null until it has been signed
+ */
+export const useFileUrl = (path: string | null | undefined, transform?: FileTransform) => {
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
+  return path ? peekFileUrl(path, transform, refresh) : null;
+};
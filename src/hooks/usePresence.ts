@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import type { Point } from "@/lib/geometry";
+import { CURSOR_THROTTLE_MS, PresenceIdentity, usePresenceStore } from "@/lib/presence";
+
+interface CursorMessage {
+  id: string;
+  cursor: Point | null;
+}
+
+/**
+ * Join the presence channel of a canvas: announce this visitor's name and
+ * color, keep the list of other visitors up to date and relay cursors
+ */
+export const usePresence = (code?: string) => {
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const pendingCursorRef = useRef<Point | null>(null);
+  const lastSentRef = useRef(0);
+  const timeoutRef = useRef<NodeJS.Timeout>();
+  const identity = usePresenceStore((state) => state.identity);
+
+  useEffect(() => {
+    if (!code) return;
+
+    const { clientId, setPeers, setCursor, reset } = usePresenceStore.getState();
+    const channel = supabase.channel(`presence:${code}`, {
+      // Private so the server can check canvas access before letting us in
+      config: { private: true, presence: { key: clientId } },
+    });
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<PresenceIdentity>();
+        const peers = Object.entries(state)
+          .filter(([id, metas]) => id !== clientId && metas.length > 0)
+          .map(([id, metas]) => ({ id, name: metas[0].name, color: metas[0].color }));
+        setPeers(peers);
+      })
+      .on("broadcast", { event: "cursor" }, ({ payload }) => {
+        const message = payload as CursorMessage;
+        if (message.id !== clientId) {
+          setCursor(message.id, message.cursor);
+        }
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          channel.track(usePresenceStore.getState().identity);
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = undefined;
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+      reset();
+    };
+  }, [code]);
+
+  // Re-announce when the visitor changes their name or color
+  useEffect(() => {
+    channelRef.current?.track(identity);
+  }, [identity]);
+
+  /**
+   * Share the local cursor (world coordinates, or null when it leaves the
+   * canvas). Calls are throttled and only the latest position is sent.
+   */
+  const broadcastCursor = useCallback((cursor: Point | null) => {
+    pendingCursorRef.current = cursor;
+    if (timeoutRef.current) return;
+
+    const flush = () => {
+      timeoutRef.current = undefined;
+      lastSentRef.current = Date.now();
+      channelRef.current?.send({
+        type: "broadcast",
+        event: "cursor",
+        payload: {
+          id: usePresenceStore.getState().clientId,
+          cursor: pendingCursorRef.current,
+        } satisfies CursorMessage,
+      });
+    };
+
+    const wait = CURSOR_THROTTLE_MS - (Date.now() - lastSentRef.current);
+    if (wait <= 0) {
+      flush();
+    } else {
+      timeoutRef.current = setTimeout(flush, wait);
+    }
+  }, []);
+
+  return { broadcastCursor };
+};
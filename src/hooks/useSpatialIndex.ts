@@ -0,0 +1,19 @@
+import { useMemo, useRef } from "react";
+import type { Node } from "@/types";
+import { createSpatialIndex, SpatialIndex } from "@/lib/spatial-index";
+
+/**
+ * Keep a spatial index of the canvas nodes up to date. The index is synced
+ * during render so queries made while rendering see the latest nodes; only
+ * rows that changed since the last sync are re-inserted, so syncing again
+ * for a render React throws away leaves it as it was.
+ */
+export const useSpatialIndex = (nodes: Node[]) => {
+  const indexRef = useRef<SpatialIndex | null>(null);
+
+  return useMemo(() => {
+    if (!indexRef.current) indexRef.current = createSpatialIndex();
+    indexRef.current.sync(nodes);
+    return indexRef.current;
+  }, [nodes]);
+};
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import type { Node } from "@/types";
+
+// Must match TRASH_GRACE_DAYS in the clean_old_canvases function
+export const TRASH_GRACE_DAYS = 7;
+
+/**
+ * Nodes in a canvas' trash, most recently deleted first. Only loaded while
+ * the trash panel is open.
+ */
+export const useTrash = (canvasId: string | undefined, enabled: boolean) =>
+  useQuery({
+    queryKey: ["trash", canvasId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("nodes")
+        .select("*")
+        .eq("canvas_id", canvasId as string)
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as Node[];
+    },
+    enabled: !!canvasId && enabled,
+  });
+
+/**
+ * When a trashed node is purged for good
+ */
+export const getPurgeDate = (node: Node) =>
+  new Date(new Date(node.deleted_at as string).getTime() + TRASH_GRACE_DAYS * 24 * 60 * 60 * 1000);
@@ -13,40 +13,179 @@ export type Database = {
         Row: {
           code: string
           created_at: string
+          has_password: boolean
           id: string
           last_accessed_at: string
+          public_access: string
+          retention: string
+          retention_started_at: string
           updated_at: string
           view_config: Json
         }
         Insert: {
           code: string
           created_at?: string
+          has_password?: boolean
           id?: string
           last_accessed_at?: string
+          public_access?: string
+          retention?: string
+          retention_started_at?: string
           updated_at?: string
           view_config?: Json
         }
         Update: {
           code?: string
           created_at?: string
+          has_password?: boolean
           id?: string
           last_accessed_at?: string
+          public_access?: string
+          retention?: string
+          retention_started_at?: string
           updated_at?: string
           view_config?: Json
         }
         Relationships: []
       }
+      canvas_secrets: {
+        Row: {
+          canvas_id: string
+          edit_key: string
+          password_hash: string | null
+          updated_at: string
+          view_key: string
+        }
+        Insert: {
+          canvas_id: string
+          edit_key?: string
+          password_hash?: string | null
+          updated_at?: string
+          view_key?: string
+        }
+        Update: {
+          canvas_id?: string
+          edit_key?: string
+          password_hash?: string | null
+          updated_at?: string
+          view_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "canvas_secrets_canvas_id_fkey"
+            columns: ["canvas_id"]
+            isOneToOne: true
+            referencedRelation: "canvases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      canvas_unlock_attempts: {
+        Row: {
+          blocked_until: string | null
+          caller: string
+          canvas_id: string
+          failed_unlocks: number
+          last_attempt_at: string
+        }
+        Insert: {
+          blocked_until?: string | null
+          caller: string
+          canvas_id: string
+          failed_unlocks?: number
+          last_attempt_at?: string
+        }
+        Update: {
+          blocked_until?: string | null
+          caller?: string
+          canvas_id?: string
+          failed_unlocks?: number
+          last_attempt_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "canvas_unlock_attempts_canvas_id_fkey"
+            columns: ["canvas_id"]
+            isOneToOne: false
+            referencedRelation: "canvases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      edges: {
+        Row: {
+          arrow_end: boolean
+          arrow_start: boolean
+          canvas_id: string
+          created_at: string
+          id: string
+          label: string | null
+          line_style: string
+          source_id: string
+          target_id: string
+          updated_at: string
+        }
+        Insert: {
+          arrow_end?: boolean
+          arrow_start?: boolean
+          canvas_id: string
+          created_at?: string
+          id?: string
+          label?: string | null
+          line_style?: string
+          source_id: string
+          target_id: string
+          updated_at?: string
+        }
+        Update: {
+          arrow_end?: boolean
+          arrow_start?: boolean
+          canvas_id?: string
+          created_at?: string
+          id?: string
+          label?: string | null
+          line_style?: string
+          source_id?: string
+          target_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "edges_canvas_id_fkey"
+            columns: ["canvas_id"]
+            isOneToOne: false
+            referencedRelation: "canvases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "edges_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "nodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "edges_target_id_fkey"
+            columns: ["target_id"]
+            isOneToOne: false
+            referencedRelation: "nodes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       nodes: {
         Row: {
           canvas_id: string
           content: string | null
           created_at: string
+          deleted_at: string | null
           dimensions: Json
           file_name: string | null
           file_path: string | null
           file_type: string | null
           id: string
           node_type: string
+          parent_id: string | null
           position: Json
           style: Json | null
           updated_at: string
@@ -55,12 +194,14 @@ export type Database = {
           canvas_id: string
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
           dimensions?: Json
           file_name?: string | null
           file_path?: string | null
           file_type?: string | null
           id?: string
           node_type: string
+          parent_id?: string | null
           position?: Json
           style?: Json | null
           updated_at?: string
@@ -69,12 +210,14 @@ export type Database = {
           canvas_id?: string
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
           dimensions?: Json
           file_name?: string | null
           file_path?: string | null
           file_type?: string | null
           id?: string
           node_type?: string
+          parent_id?: string | null
           position?: Json
           style?: Json | null
           updated_at?: string
@@ -87,6 +230,13 @@ export type Database = {
             referencedRelation: "canvases"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "nodes_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "nodes"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -94,7 +244,54 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_edit_canvas: {
+        Args: { target_canvas: string }
+        Returns: boolean
+      }
+      can_edit_canvas_code: {
+        Args: { target_code: string }
+        Returns: boolean
+      }
+      can_use_channel: {
+        Args: { topic: string; needs_edit: boolean }
+        Returns: boolean
+      }
+      can_view_canvas: {
+        Args: { target_canvas: string }
+        Returns: boolean
+      }
+      can_view_canvas_code: {
+        Args: { target_code: string }
+        Returns: boolean
+      }
+      canvas_access_level: {
+        Args: { target_canvas: string }
+        Returns: string
+      }
+      canvas_expires_at: {
+        Args: { canvas: Database["public"]["Tables"]["canvases"]["Row"] }
+        Returns: string
+      }
+      claim_unlock_attempt: {
+        Args: { target_canvas: string; caller_address: string }
+        Returns: string | null
+      }
+      duplicate_canvas: {
+        Args: { source_canvas: string; new_code: string; file_paths?: Json }
+        Returns: Database["public"]["Tables"]["canvases"]["Row"]
+      }
+      expired_canvases: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Tables"]["canvases"]["Row"][]
+      }
+      set_canvas_retention: {
+        Args: { target_canvas: string; new_retention: string }
+        Returns: string
+      }
+      touch_canvas: {
+        Args: { target_canvas: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,165 @@
+import { create } from "zustand";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import { setCanvasToken } from "@/lib/canvas-token";
+import { queryClient } from "@/lib/query-cache";
+
+/**
+ * Who may do what on a canvas. The bare code grants the canvas' public
+ * access level; a password or share link can be traded with the
+ * `canvas_access` edge function for a token granting more.
+ */
+
+export type CanvasAccess = "edit" | "view" | "none";
+
+export interface AccessGrant {
+  token: string;
+  access: CanvasAccess;
+  expiresAt: string;
+}
+
+export interface ShareKeys {
+  edit_key: string;
+  view_key: string;
+}
+
+const GRANTS_STORAGE_KEY = "slate-canvas-access";
+const ACCESS_RANK: Record<CanvasAccess, number> = { none: 0, view: 1, edit: 2 };
+
+const isExpired = (grant: AccessGrant) => new Date(grant.expiresAt).getTime() <= Date.now();
+
+const loadGrants = (): Record<string, AccessGrant> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GRANTS_STORAGE_KEY) || "{}");
+    return Object.fromEntries(
+      Object.entries(stored as Record<string, AccessGrant>).filter(([, grant]) => !isExpired(grant))
+    );
+  } catch (e) {
+    console.error("Error loading canvas access:", e);
+    return {};
+  }
+};
+
+interface AccessState {
+  // Tokens for unlocked canvases, by canvas code
+  grants: Record<string, AccessGrant>;
+  activeCode: string | null;
+  setActiveCanvas: (code: string | null) => void;
+  saveGrant: (code: string, grant: AccessGrant) => void;
+}
+
+// Send the active canvas' token with every request and realtime channel
+const applyToken = (grant: AccessGrant | undefined) => {
+  const token = grant && !isExpired(grant) ? grant.token : null;
+  setCanvasToken(token);
+  if (token) {
+    supabase.realtime.setAuth(token).catch((error) => {
+      console.error("Error updating realtime access:", error);
+    });
+  }
+};
+
+export const useAccessStore = create<AccessState>((set, get) => ({
+  grants: loadGrants(),
+  activeCode: null,
+  setActiveCanvas: (activeCode) => {
+    applyToken(activeCode ? get().grants[activeCode] : undefined);
+    set({ activeCode });
+  },
+  saveGrant: (code, grant) => {
+    const grants = { ...get().grants, [code]: grant };
+    localStorage.setItem(GRANTS_STORAGE_KEY, JSON.stringify(grants));
+    if (get().activeCode === code) applyToken(grant);
+    set({ grants });
+  },
+}));
+
+/**
+ * The unexpired token for a canvas, whether or not it is the open one
+ */
+export const getGrantToken = (code: string) => {
+  const grant = useAccessStore.getState().grants[code];
+  return grant && !isExpired(grant) ? grant.token : null;
+};
+
+/**
+ * What this visitor may do: the canvas' public level or their token's,
+ * whichever is higher
+ */
+export const resolveCanvasAccess = (publicAccess: string | undefined, grant: AccessGrant | undefined): CanvasAccess => {
+  const base = (publicAccess ?? "edit") as CanvasAccess;
+  const granted = grant && !isExpired(grant) ? grant.access : "none";
+  return ACCESS_RANK[granted] > ACCESS_RANK[base] ? granted : base;
+};
+
+/**
+ * Call one of the canvas edge functions, which send the active canvas' token
+ * along like every other request
+ */
+export const invokeCanvasFunction = async <T>(name: string, body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    // Surface the function's own message ("Incorrect password") when there is one
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      if (details?.error) throw new Error(details.error);
+    }
+    throw error;
+  }
+
+  return data as T;
+};
+
+const invokeCanvasAccess = <T>(body: Record<string, unknown>) => invokeCanvasFunction<T>("canvas_access", body);
+
+const storeGrant = (code: string, data: { token: string; access: CanvasAccess; expires_at: string }) => {
+  useAccessStore.getState().saveGrant(code, {
+    token: data.token,
+    access: data.access,
+    expiresAt: data.expires_at,
+  });
+  // Refetch everything with the new permissions
+  queryClient.invalidateQueries({ queryKey: ["canvas", code] });
+  queryClient.invalidateQueries({ queryKey: ["nodes"] });
+  queryClient.invalidateQueries({ queryKey: ["edges"] });
+  return data.access;
+};
+
+/**
+ * Unlock a canvas with its password or a share link key
+ */
+export const unlockCanvas = async (code: string, credentials: { password: string } | { key: string }) => {
+  const data = await invokeCanvasAccess<{ token: string; access: CanvasAccess; expires_at: string }>({
+    action: "unlock",
+    code,
+    ...credentials,
+  });
+  return storeGrant(code, data);
+};
+
+/**
+ * Change what the bare code allows and set (string), keep (undefined) or
+ * remove (null) the password. Only editors may do this.
+ */
+export const configureCanvasAccess = async (
+  code: string,
+  settings: { publicAccess: CanvasAccess; password?: string | null; rotateKeys?: boolean }
+) => {
+  const data = await invokeCanvasAccess<{ token: string; access: CanvasAccess; expires_at: string }>({
+    action: "configure",
+    code,
+    public_access: settings.publicAccess,
+    password: settings.password,
+    rotate_keys: settings.rotateKeys,
+  });
+  return storeGrant(code, data);
+};
+
+/**
+ * Keys for the edit and read-only share links of a canvas
+ */
+export const fetchShareKeys = (code: string) => invokeCanvasAccess<ShareKeys>({ action: "links", code });
+
+export const getShareLink = (code: string, key: string) =>
+  `${window.location.origin}/${encodeURIComponent(code)}?key=${key}`;
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { strFromU8, strToU8, zipSync } from "fflate";
+import { makeCanvas, makeEdge, makeNode } from "@/test/fixtures";
+import { exportCanvasBundle, importCanvasBundle, readCanvasBundle, sanitizeCanvasCode } from "@/lib/canvas-bundle";
+
+const download = vi.fn();
+const upload = vi.fn();
+const remove = vi.fn();
+const insertNodes = vi.fn();
+const deleteCanvas = vi.fn();
+
+// Only the calls importCanvasBundle makes, answered as for a new code
+const tables: Record<string, unknown> = {
+  canvases: {
+    select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: null, error: null }) }) }),
+    insert: () => ({ select: () => ({ single: async () => ({ data: makeCanvas({ id: "imported" }), error: null }) }) }),
+    delete: () => ({ eq: deleteCanvas }),
+  },
+  nodes: { insert: insertNodes },
+};
+
+vi.mock("@/lib/supabase", () => ({
+  supabase: {
+    storage: { from: () => ({ download, upload, remove }) },
+    from: (table: string) => tables[table],
+  },
+}));
+
+const canvas = makeCanvas({ code: "trip", view_config: { zoom: 1 } });
+
+const manifestBlob = (manifest: unknown) =>
+  new Blob([zipSync({ "manifest.json": strToU8(JSON.stringify(manifest)) })]);
+
+beforeEach(() => {
+  [download, upload, remove, insertNodes, deleteCanvas].forEach((mock) => mock.mockReset());
+});
+
+describe("exportCanvasBundle", () => {
+  it("packs nodes, connectors between them and their files", async () => {
+    download.mockImplementation(async (path: string) =>
+      path === "trip/photo.png"
+        ? { data: new Blob(["png bytes"]), error: null }
+        : { data: null, error: new Error("Not found") }
+    );
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const nodes = [
+      makeNode("note"),
+      makeNode("photo", { node_type: "image", file_path: "trip/photo.png", file_name: "photo.png" }),
+      makeNode("lost", { node_type: "pdf", file_path: "trip/lost.pdf" }),
+    ];
+    const edges = [makeEdge("kept", "note", "photo"), makeEdge("trashed", "note", "gone")];
+
+    const { blob, missingFiles } = await exportCanvasBundle(canvas, nodes, edges);
+    const { manifest, archive } = await readCanvasBundle(blob);
+
+    expect(missingFiles).toBe(1);
+    expect(manifest.canvas).toEqual({ code: "trip", view_config: { zoom: 1 } });
+    expect(manifest.nodes.map((node) => node.id)).toEqual(["note", "photo", "lost"]);
+    expect(manifest.edges.map((edge) => edge.id)).toEqual(["kept"]);
+    expect(Object.keys(manifest.files)).toEqual(["trip/photo.png"]);
+    expect(strFromU8(archive[manifest.files["trip/photo.png"]])).toBe("png bytes");
+    error.mockRestore();
+  });
+});
+
+describe("readCanvasBundle", () => {
+  it("rejects files that aren't zips or have no manifest", async () => {
+    await expect(readCanvasBundle(new Blob(["not a zip"]))).rejects.toThrow("isn't a Slate canvas export");
+    await expect(readCanvasBundle(new Blob([zipSync({ "other.txt": strToU8("hi") })])))
+      .rejects.toThrow("isn't a Slate canvas export");
+    await expect(readCanvasBundle(manifestBlob({ format: "something-else", nodes: [] })))
+      .rejects.toThrow("isn't a Slate canvas export");
+  });
+
+  it("rejects exports from a newer version", async () => {
+    await expect(readCanvasBundle(manifestBlob({ format: "slate-canvas", version: 99, nodes: [] })))
+      .rejects.toThrow("newer version");
+  });
+});
+
+describe("importCanvasBundle", () => {
+  it("removes the canvas and its uploaded files when a step fails", async () => {
+    const bundle = new Blob([zipSync({
+      "manifest.json": strToU8(JSON.stringify({
+        format: "slate-canvas",
+        version: 1,
+        canvas: { code: "trip", view_config: {} },
+        nodes: [makeNode("photo", { node_type: "image", file_path: "trip/1_photo.png" })],
+        edges: [],
+        files: { "trip/1_photo.png": "files/0_photo.png" },
+      })),
+      "files/0_photo.png": strToU8("png bytes"),
+    })]);
+    upload.mockResolvedValue({ error: null });
+    remove.mockResolvedValue({ error: null });
+    insertNodes.mockResolvedValue({ error: new Error("Insert failed") });
+    deleteCanvas.mockResolvedValue({ error: null });
+
+    await expect(importCanvasBundle(bundle, "copy")).rejects.toThrow("Insert failed");
+
+    const [[uploadedPath]] = upload.mock.calls;
+    expect(uploadedPath).toMatch(/^copy\/\d+_photo\.png$/);
+    expect(remove).toHaveBeenCalledWith([uploadedPath]);
+    expect(deleteCanvas).toHaveBeenCalledWith("id", "imported");
+  });
+});
+
+describe("sanitizeCanvasCode", () => {
+  it("keeps only letters, digits, dashes and underscores", () => {
+    expect(sanitizeCanvasCode("  my trip/2026 ✈️_plan-b ")).toBe("mytrip2026_plan-b");
+  });
+});
@@ -0,0 +1,278 @@
+import { strFromU8, strToU8, unzip, zip, type AsyncZippable, type Unzipped } from "fflate";
+import { supabase } from "@/lib/supabase";
+import { uploadCanvasFile } from "@/lib/canvas-files";
+import type { Json, Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { Edge, Node } from "@/types";
+
+/**
+ * Portable canvas bundles: a zip holding `manifest.json` plus every file the
+ * canvas' nodes refer to under `files/`. Importing recreates the canvas
+ * under a new code with fresh ids and re-uploaded files.
+ */
+
+export const BUNDLE_FORMAT = "slate-canvas";
+export const BUNDLE_VERSION = 1;
+
+const MANIFEST_PATH = "manifest.json";
+
+type BundleNode = Pick<Node,
+  "id" | "node_type" | "content" | "position" | "dimensions" | "style" |
+  "file_path" | "file_name" | "file_type" | "parent_id" | "created_at" | "updated_at"
+>;
+
+type BundleEdge = Pick<Edge,
+  "id" | "source_id" | "target_id" | "label" | "arrow_start" | "arrow_end" | "line_style"
+>;
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  canvas: {
+    code: string;
+    view_config: Json;
+  };
+  nodes: BundleNode[];
+  edges: BundleEdge[];
+  // Storage path on the original canvas -> path inside the zip
+  files: Record<string, string>;
+}
+
+export interface BundleProgress {
+  done: number;
+  total: number;
+}
+
+const zipAsync = (data: AsyncZippable) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    zip(data, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+
+const unzipAsync = (data: Uint8Array) =>
+  new Promise<Unzipped>((resolve, reject) => {
+    unzip(data, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+
+const baseName = (path: string) => path.split("/").pop() || "file";
+
+/**
+ * Codes may only contain letters, digits, dashes and underscores
+ */
+export const sanitizeCanvasCode = (code: string) => code.trim().replace(/[^a-zA-Z0-9-_]/g, "");
+
+/**
+ * Pack a canvas and its files into a zip. Files that can't be downloaded
+ * are left out and counted in `missingFiles`.
+ */
+export const exportCanvasBundle = async (
+  canvas: Tables<"canvases">,
+  nodes: Node[],
+  edges: Edge[],
+  onProgress?: (progress: BundleProgress) => void
+) => {
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const paths = Array.from(new Set(nodes.map((node) => node.file_path).filter(Boolean) as string[]));
+  const entries: AsyncZippable = {};
+  const files: Record<string, string> = {};
+  let missingFiles = 0;
+
+  for (const [index, path] of paths.entries()) {
+    onProgress?.({ done: index, total: paths.length });
+    const { data, error } = await supabase.storage.from("slate_files").download(path);
+
+    if (error || !data) {
+      console.error(`Error downloading ${path}:`, error);
+      missingFiles++;
+      continue;
+    }
+
+    const archivePath = `files/${index}_${baseName(path)}`;
+    // Media is already compressed, so just store it
+    entries[archivePath] = [new Uint8Array(await data.arrayBuffer()), { level: 0 }];
+    files[path] = archivePath;
+  }
+  onProgress?.({ done: paths.length, total: paths.length });
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    canvas: {
+      code: canvas.code,
+      view_config: canvas.view_config,
+    },
+    nodes: nodes.map((node) => ({
+      id: node.id,
+      node_type: node.node_type,
+      content: node.content,
+      position: node.position,
+      dimensions: node.dimensions,
+      style: node.style,
+      file_path: node.file_path,
+      file_name: node.file_name,
+      file_type: node.file_type,
+      parent_id: node.parent_id,
+      created_at: node.created_at,
+      updated_at: node.updated_at,
+    })),
+    // Connectors to trashed nodes can't be recreated
+    edges: edges
+      .filter((edge) => nodeIds.has(edge.source_id) && nodeIds.has(edge.target_id))
+      .map((edge) => ({
+        id: edge.id,
+        source_id: edge.source_id,
+        target_id: edge.target_id,
+        label: edge.label,
+        arrow_start: edge.arrow_start,
+        arrow_end: edge.arrow_end,
+        line_style: edge.line_style,
+      })),
+    files,
+  };
+  entries[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return {
+    blob: new Blob([await zipAsync(entries)], { type: "application/zip" }),
+    missingFiles,
+  };
+};
+
+/**
+ * Read and check the manifest of a bundle
+ */
+export const readCanvasBundle = async (file: Blob) => {
+  let archive: Unzipped;
+  try {
+    archive = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error("This file isn't a Slate canvas export");
+  }
+
+  const raw = archive[MANIFEST_PATH];
+  if (!raw) throw new Error("This file isn't a Slate canvas export");
+
+  const manifest = JSON.parse(strFromU8(raw)) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT || !Array.isArray(manifest.nodes)) {
+    throw new Error("This file isn't a Slate canvas export");
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error("This export was made by a newer version of Slate");
+  }
+
+  return { manifest, archive };
+};
+
+// Remove what a failed import created so it doesn't leave a half-filled
+// canvas behind. Nodes and connectors go with the canvas.
+const discardImport = async (canvasId: string, paths: string[]) => {
+  if (paths.length > 0) {
+    const { error } = await supabase.storage.from("slate_files").remove(paths);
+    if (error) console.error("Error removing imported files:", error);
+  }
+
+  const { error } = await supabase.from("canvases").delete().eq("id", canvasId);
+  if (error) console.error("Error removing imported canvas:", error);
+};
+
+/**
+ * Recreate a bundled canvas under a new code: upload its files, then insert
+ * the canvas, nodes and connectors with fresh ids. If anything fails after
+ * the canvas was created, the canvas and its uploaded files are removed again.
+ */
+export const importCanvasBundle = async (
+  file: Blob,
+  code: string,
+  onProgress?: (progress: BundleProgress) => void
+) => {
+  const { manifest, archive } = await readCanvasBundle(file);
+
+  const { data: existing, error: lookupError } = await supabase
+    .from("canvases")
+    .select("id")
+    .eq("code", code)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+  if (existing) throw new Error(`A canvas called "${code}" already exists`);
+
+  const { data: canvas, error: canvasError } = await supabase
+    .from("canvases")
+    .insert([{ code, view_config: manifest.canvas.view_config }])
+    .select()
+    .single();
+
+  if (canvasError) throw canvasError;
+
+  // Storage path on the original canvas -> path of the re-uploaded file
+  const paths = new Map<string, string>();
+  try {
+    // Re-upload files under the new code
+    const bundledFiles = Object.entries(manifest.files ?? {});
+    for (const [index, [originalPath, archivePath]] of bundledFiles.entries()) {
+      onProgress?.({ done: index, total: bundledFiles.length });
+      const data = archive[archivePath];
+      if (!data) continue;
+
+      const node = manifest.nodes.find((candidate) => candidate.file_path === originalPath);
+      try {
+        const path = await uploadCanvasFile(
+          code,
+          new Blob([data], { type: node?.file_type || undefined }),
+          baseName(originalPath).replace(/^\d+_/, "")
+        );
+        paths.set(originalPath, path);
+      } catch (error) {
+        console.error(`Error uploading ${originalPath}:`, error);
+      }
+    }
+    onProgress?.({ done: bundledFiles.length, total: bundledFiles.length });
+
+    // Ids are global, so every row gets a new one
+    const ids = new Map(manifest.nodes.map((node) => [node.id, crypto.randomUUID()]));
+    const nodeRows: TablesInsert<"nodes">[] = manifest.nodes.map((node) => ({
+      id: ids.get(node.id),
+      canvas_id: canvas.id,
+      node_type: node.node_type,
+      content: node.content ?? null,
+      position: node.position as unknown as Json,
+      dimensions: node.dimensions as unknown as Json,
+      style: (node.style ?? null) as Json,
+      file_path: node.file_path ? paths.get(node.file_path) ?? null : null,
+      file_name: node.file_name ?? null,
+      file_type: node.file_type ?? null,
+      parent_id: node.parent_id ? ids.get(node.parent_id) ?? null : null,
+    }));
+
+    if (nodeRows.length > 0) {
+      // Frames first, so children can refer to them
+      nodeRows.sort((a, b) => Number(!!a.parent_id) - Number(!!b.parent_id));
+      const { error } = await supabase.from("nodes").insert(nodeRows);
+      if (error) throw error;
+    }
+
+    const edgeRows: TablesInsert<"edges">[] = (manifest.edges ?? [])
+      .filter((edge) => ids.has(edge.source_id) && ids.has(edge.target_id))
+      .map((edge) => ({
+        canvas_id: canvas.id,
+        source_id: ids.get(edge.source_id) as string,
+        target_id: ids.get(edge.target_id) as string,
+        label: edge.label ?? null,
+        arrow_start: edge.arrow_start,
+        arrow_end: edge.arrow_end,
+        line_style: edge.line_style,
+      }));
+
+    if (edgeRows.length > 0) {
+      const { error } = await supabase.from("edges").insert(edgeRows);
+      if (error) throw error;
+    }
+  } catch (error) {
+    await discardImport(canvas.id, [...paths.values()]);
+    throw error;
+  }
+
+  return {
+    canvas,
+    missingFiles: manifest.nodes.filter((node) => node.file_path && !paths.has(node.file_path)).length,
+  };
+};
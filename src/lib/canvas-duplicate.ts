@@ -0,0 +1,15 @@
+import { invokeCanvasFunction } from "@/lib/canvas-access";
+
+/**
+ * Copy a canvas, its nodes, connectors and files to a new code. The
+ * `duplicate_canvas` edge function does the work, so large canvases are
+ * copied in one go; without `newCode` it picks a free one. Files that
+ * couldn't be copied are named in `missingFiles`; their nodes become notes.
+ */
+export const duplicateCanvas = async (code: string, newCode?: string) => {
+  const data = await invokeCanvasFunction<{ code: string; missing_files: string[] }>("duplicate_canvas", {
+    code,
+    new_code: newCode || undefined,
+  });
+  return { code: data.code, missingFiles: data.missing_files };
+};
@@ -0,0 +1,475 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeRaw from "rehype-raw";
+import rehypeSanitize from "rehype-sanitize";
+import { supabase } from "@/lib/supabase";
+import type { Edge, EdgeLineStyle, Node } from "@/types";
+import {
+  FRAME_HEADER_HEIGHT,
+  getNodeRect,
+  getRectBoundaryPoint,
+  getRectCenter,
+  Rect,
+  rectsIntersect,
+} from "@/lib/geometry";
+import { getFrameTitle, getHiddenNodeIds, isFrame } from "@/lib/frames";
+import { getNodeLabel, getNodeTypeColor } from "@/lib/level-of-detail";
+import { getNodeAppearance, NODE_COLORS } from "@/lib/node-style";
+import { getDrawingOutline, getInkColor, isDrawing } from "@/lib/ink";
+import { getShapeKind, getShapeLabelRect, getShapePaths, getShapeStyle, isShape } from "@/lib/shapes";
+import { isKanban, parseKanbanBoard } from "@/lib/kanban";
+
+/**
+ * Renders part of a canvas to a standalone SVG, straight from the node data
+ * rather than the DOM, so off-screen nodes are included and the result is
+ * sharp at any scale. PNG and PDF exports rasterize that SVG.
+ */
+
+export type ExportFormat = "png" | "svg" | "pdf";
+export type ExportTheme = "light" | "dark";
+
+export interface ExportOptions {
+  theme: ExportTheme;
+  // Leave the background transparent when false (PNG and SVG only)
+  background: boolean;
+}
+
+// Space left around the content of the whole canvas, a selection or a frame
+export const EXPORT_PADDING = 40;
+
+// Browsers refuse to create canvases much larger than this
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 128 * 1024 * 1024;
+
+// Nodes showing a file get a caption with its name
+const CAPTION_HEIGHT = 28;
+const CONTENT_PADDING = 8;
+
+const PALETTES = {
+  light: {
+    background: "#ffffff",
+    card: "#ffffff",
+    text: "#020817",
+    muted: "#64748b",
+    subtle: "#f1f5f9",
+    border: "#e2e8f0",
+    link: "#2563eb",
+    frameFill: "rgba(100, 116, 139, 0.08)",
+    frameStroke: "rgba(100, 116, 139, 0.6)",
+    edge: "#64748b",
+  },
+  dark: {
+    background: "#020817",
+    card: "#0f172a",
+    text: "#f8fafc",
+    muted: "#94a3b8",
+    subtle: "#1e293b",
+    border: "#1e293b",
+    link: "#60a5fa",
+    frameFill: "rgba(148, 163, 184, 0.12)",
+    frameStroke: "rgba(148, 163, 184, 0.7)",
+    edge: "#94a3b8",
+  },
+};
+
+type Palette = typeof PALETTES.light;
+
+const DASH_ARRAYS: Record<EdgeLineStyle, string | undefined> = {
+  solid: undefined,
+  dashed: "10 6",
+  dotted: "2 6",
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const truncate = (value: string, maxChars: number) =>
+  value.length > maxChars ? `${value.slice(0, Math.max(0, maxChars - 1))}…` : value;
+
+/**
+ * Bounding box of some nodes, padded for export
+ */
+export const getExportBounds = (nodes: Node[], padding = EXPORT_PADDING): Rect | null => {
+  if (nodes.length === 0) return null;
+  const rects = nodes.map(getNodeRect);
+  const minX = Math.min(...rects.map((rect) => rect.x));
+  const minY = Math.min(...rects.map((rect) => rect.y));
+  const maxX = Math.max(...rects.map((rect) => rect.x + rect.width));
+  const maxY = Math.max(...rects.map((rect) => rect.y + rect.height));
+  return {
+    x: minX - padding,
+    y: minY - padding,
+    width: maxX - minX + padding * 2,
+    height: maxY - minY + padding * 2,
+  };
+};
+
+/**
+ * Nodes shown within a region, leaving out children of collapsed frames
+ */
+export const getNodesInRegion = (nodes: Node[], region: Rect) => {
+  const hiddenIds = getHiddenNodeIds(nodes);
+  return nodes.filter((node) => !hiddenIds.has(node.id) && rectsIntersect(getNodeRect(node), region));
+};
+
+/**
+ * The largest pixel ratio up to `requested` that the browser can still draw
+ */
+export const getSafePixelRatio = (region: Rect, requested: number) =>
+  Math.min(
+    requested,
+    MAX_CANVAS_SIDE / region.width,
+    MAX_CANVAS_SIDE / region.height,
+    Math.sqrt(MAX_CANVAS_AREA / (region.width * region.height))
+  );
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const downloadFile = async (path: string) => {
+  const { data, error } = await supabase.storage.from("slate_files").download(path);
+  if (error) throw error;
+  return data;
+};
+
+// Render the first page of a PDF to a PNG data URL about `width` pixels wide
+const renderPdfThumbnail = async (data: Blob, width: number) => {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await data.arrayBuffer()) }).promise;
+  try {
+    const page = await pdf.getPage(1);
+    const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    await page.render({ canvas, viewport }).promise;
+    return canvas.toDataURL("image/png");
+  } finally {
+    pdf.destroy();
+  }
+};
+
+/**
+ * Inline images and PDF first pages as data URLs, so the SVG is
+ * self-contained and can be rasterized. Nodes whose file can't be loaded
+ * are drawn without it.
+ */
+const loadAssets = async (nodes: Node[], pixelRatio: number) => {
+  const assets = new Map<string, string>();
+
+  await Promise.all(nodes.map(async (node) => {
+    if (!node.file_path || (node.node_type !== "image" && node.node_type !== "pdf")) return;
+    try {
+      const data = await downloadFile(node.file_path);
+      const url = node.node_type === "image"
+        ? await blobToDataUrl(data)
+        : await renderPdfThumbnail(data, getNodeRect(node).width * pixelRatio);
+      assets.set(node.id, url);
+    } catch (error) {
+      console.error(`Error loading ${node.file_path} for export:`, error);
+    }
+  }));
+
+  return assets;
+};
+
+const getMarkdownStyles = (palette: Palette) => `
+  .md { width: 100%; height: 100%; overflow: hidden; color: ${palette.text}; overflow-wrap: break-word;
+    font: 14px/1.5 ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+  .md > :first-child { margin-top: 0; }
+  .md h1 { font-size: 1.6em; } .md h2 { font-size: 1.35em; } .md h3 { font-size: 1.15em; }
+  .md h1, .md h2, .md h3, .md h4 { margin: 0.6em 0 0.4em; font-weight: 700; line-height: 1.25; }
+  .md p, .md ul, .md ol, .md pre, .md blockquote, .md table { margin: 0 0 0.75em; }
+  .md ul, .md ol { padding-left: 1.4em; }
+  .md ul.contains-task-list { list-style: none; padding-left: 0.2em; }
+  .md input[type=checkbox] { margin: 0 0.4em 0 0; }
+  .md code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em;
+    background: ${palette.subtle}; padding: 0.1em 0.3em; border-radius: 3px; }
+  .md pre { background: ${palette.subtle}; padding: 0.75em; border-radius: 6px; white-space: pre-wrap; }
+  .md pre code { background: none; padding: 0; }
+  .md blockquote { border-left: 4px solid ${palette.border}; padding-left: 1em; color: ${palette.muted}; font-style: italic; }
+  .md table { border-collapse: collapse; }
+  .md th, .md td { border: 1px solid ${palette.border}; padding: 4px 8px; text-align: left; }
+  .md a { color: ${palette.link}; text-decoration: none; }
+  .md img { max-width: 100%; }
+  .md hr { border: none; border-top: 1px solid ${palette.border}; }
+`;
+
+// foreignObject content has to be well-formed XHTML, which React's static
+// markup already is
+const renderMarkdown = (content: string) =>
+  renderToStaticMarkup(
+    createElement(ReactMarkdown, { remarkPlugins: [remarkGfm], rehypePlugins: [rehypeRaw, rehypeSanitize] }, content)
+  );
+
+const renderFrame = (frame: Node, palette: Palette) => {
+  const rect = getNodeRect(frame);
+  const title = escapeXml(truncate(getFrameTitle(frame), Math.floor(rect.width / 8)));
+  return `
+    <g>
+      <rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" rx="8"
+        fill="${palette.frameFill}" stroke="${palette.frameStroke}" stroke-dasharray="6 4" />
+      <text x="${rect.x + 12}" y="${rect.y + FRAME_HEADER_HEIGHT / 2}" dominant-baseline="central"
+        font-size="14" font-weight="600" fill="${palette.text}">${title}</text>
+    </g>`;
+};
+
+const renderEdge = (edge: Edge, rects: Map<string, Rect>, palette: Palette) => {
+  const source = rects.get(edge.source_id);
+  const target = rects.get(edge.target_id);
+  if (!source || !target) return "";
+
+  const start = getRectBoundaryPoint(source, getRectCenter(target));
+  const end = getRectBoundaryPoint(target, getRectCenter(source));
+  const dash = DASH_ARRAYS[edge.line_style];
+  let svg = `
+    <line x1="${start.x}" y1="${start.y}" x2="${end.x}" y2="${end.y}" stroke="${palette.edge}" stroke-width="2"
+      ${dash ? `stroke-dasharray="${dash}"` : ""}
+      ${edge.arrow_start ? `marker-start="url(#arrow-start)"` : ""}
+      ${edge.arrow_end ? `marker-end="url(#arrow-end)"` : ""} />`;
+
+  if (edge.label) {
+    const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+    const width = edge.label.length * 7 + 16;
+    svg += `
+      <rect x="${mid.x - width / 2}" y="${mid.y - 11}" width="${width}" height="22" rx="4"
+        fill="${palette.card}" stroke="${palette.border}" />
+      <text x="${mid.x}" y="${mid.y}" text-anchor="middle" dominant-baseline="central" font-size="12"
+        fill="${palette.text}">${escapeXml(edge.label)}</text>`;
+  }
+  return svg;
+};
+
+// Columns side by side with as many cards as fit; card text is cut to one line
+const renderKanbanColumns = (node: Node, body: Rect, palette: Palette, isDark: boolean) => {
+  const { columns } = parseKanbanBoard(node.content);
+  const gap = 8;
+  const cardHeight = 32;
+  const width = (body.width - gap * (columns.length - 1)) / Math.max(1, columns.length);
+
+  return columns.map((column, index) => {
+    const x = body.x + index * (width + gap);
+    const fitting = Math.max(0, Math.floor((body.height - 32) / (cardHeight + 6)));
+    const cards = column.cards.slice(0, fitting).map((card, cardIndex) => {
+      const y = body.y + 32 + cardIndex * (cardHeight + 6);
+      const fill = card.color ? NODE_COLORS[card.color][isDark ? "dark" : "light"] : palette.card;
+      const stroke = card.color ? NODE_COLORS[card.color].swatch : palette.border;
+      return `
+        <rect x="${x + 6}" y="${y}" width="${Math.max(0, width - 12)}" height="${cardHeight}" rx="4"
+          fill="${fill}" stroke="${stroke}" />
+        <text x="${x + 12}" y="${y + cardHeight / 2}" dominant-baseline="central" font-size="11"
+          fill="${palette.text}">${escapeXml(truncate(card.text.split("\n")[0] || "Untitled card", Math.floor((width - 24) / 6)))}</text>`;
+    });
+
+    return `
+      <rect x="${x}" y="${body.y}" width="${width}" height="${body.height}" rx="4" fill="${palette.subtle}" />
+      <text x="${x + 8}" y="${body.y + 16}" dominant-baseline="central" font-size="12" font-weight="600"
+        fill="${palette.text}">${escapeXml(truncate(`${column.title} (${column.cards.length})`, Math.floor((width - 16) / 7)))}</text>
+      ${cards.join("")}`;
+  }).join("");
+};
+
+const renderNode = (node: Node, assets: Map<string, string>, palette: Palette, isDark: boolean) => {
+  const rect = getNodeRect(node);
+  const color = getNodeAppearance(node).color;
+
+  if (isDrawing(node)) {
+    const outline = getDrawingOutline(node);
+    return outline
+      ? `
+    <path transform="translate(${rect.x} ${rect.y}) scale(${rect.width / outline.width} ${rect.height / outline.height})"
+      d="${outline.d}" fill="${getInkColor(color, isDark)}" />`
+      : "";
+  }
+
+  if (isShape(node)) {
+    const kind = getShapeKind(node);
+    const shape = getShapeStyle(node);
+    const { outline, detail } = getShapePaths(kind, rect.width, rect.height, shape.strokeWidth / 2);
+    const label = getShapeLabelRect(kind, rect.width, rect.height);
+    const stroke = shape.strokeWidth > 0
+      ? `stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}" stroke-linejoin="round"${shape.dashArray ? ` stroke-dasharray="${shape.dashArray}"` : ""}`
+      : "";
+    return `
+      <g transform="translate(${rect.x} ${rect.y})">
+        <path d="${outline}" fill="${isDark ? shape.fill.dark : shape.fill.light}" ${stroke} />
+        ${detail && shape.strokeWidth > 0 ? `<path d="${detail}" fill="none" ${stroke} />` : ""}
+        <foreignObject x="${label.x}" y="${label.y}" width="${label.width}" height="${label.height}">
+          <div xmlns="http://www.w3.org/1999/xhtml" style="display:flex;align-items:center;justify-content:center;height:100%;padding:8px;box-sizing:border-box;text-align:center;white-space:pre-wrap;font-size:14px;color:${palette.text}">${escapeXml(node.content || "")}</div>
+        </foreignObject>
+      </g>`;
+  }
+
+  const fill = color ? NODE_COLORS[color][isDark ? "dark" : "light"] : palette.card;
+  const stroke = color ? NODE_COLORS[color].swatch : getNodeTypeColor(node.node_type, isDark);
+  const card = `
+    <rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" rx="8"
+      fill="${fill}" stroke="${stroke}" stroke-width="2" />`;
+
+  if (node.node_type === "text") {
+    return `
+      <g>${card}
+        <foreignObject x="${rect.x + CONTENT_PADDING}" y="${rect.y + CONTENT_PADDING}"
+          width="${Math.max(0, rect.width - CONTENT_PADDING * 2)}" height="${Math.max(0, rect.height - CONTENT_PADDING * 2)}">
+          <div xmlns="http://www.w3.org/1999/xhtml" class="md">${renderMarkdown(node.content || "")}</div>
+        </foreignObject>
+      </g>`;
+  }
+
+  const caption = escapeXml(truncate(getNodeLabel(node), Math.floor(rect.width / 7)));
+  const body = {
+    x: rect.x + CONTENT_PADDING,
+    y: rect.y + CAPTION_HEIGHT,
+    width: Math.max(0, rect.width - CONTENT_PADDING * 2),
+    height: Math.max(0, rect.height - CAPTION_HEIGHT - CONTENT_PADDING),
+  };
+  const asset = assets.get(node.id);
+  let content: string;
+
+  if (isKanban(node)) {
+    content = renderKanbanColumns(node, body, palette, isDark);
+  } else if (asset) {
+    content = `<image href="${asset}" x="${body.x}" y="${body.y}" width="${body.width}" height="${body.height}"
+      preserveAspectRatio="xMidYMid meet" />`;
+  } else {
+    // Videos, and files that couldn't be loaded, get a play button or placeholder
+    const center = getRectCenter(body);
+    const size = Math.min(32, body.width / 3, body.height / 3);
+    content = node.node_type === "video"
+      ? `<circle cx="${center.x}" cy="${center.y}" r="${size}" fill="${palette.subtle}" />
+         <path d="M ${center.x - size / 3} ${center.y - size / 2} L ${center.x + size / 2} ${center.y} L ${center.x - size / 3} ${center.y + size / 2} Z"
+           fill="${palette.muted}" />`
+      : `<rect x="${body.x}" y="${body.y}" width="${body.width}" height="${body.height}" rx="4" fill="${palette.subtle}" />`;
+  }
+
+  return `
+    <g>${card}
+      <text x="${rect.x + 10}" y="${rect.y + CAPTION_HEIGHT / 2}" dominant-baseline="central" font-size="12"
+        fill="${palette.muted}">${caption}</text>
+      ${content}
+    </g>`;
+};
+
+/**
+ * Render the given region of a canvas to an SVG document. `pixelRatio` is
+ * only used to pick the resolution of PDF thumbnails.
+ */
+export const renderCanvasSvg = async (
+  allNodes: Node[],
+  edges: Edge[],
+  region: Rect,
+  { theme, background }: ExportOptions,
+  pixelRatio = 2
+) => {
+  const palette = PALETTES[theme];
+  const nodes = getNodesInRegion(allNodes, region);
+  const rects = new Map(nodes.map((node) => [node.id, getNodeRect(node)]));
+  const assets = await loadAssets(nodes, pixelRatio);
+
+  const frames = nodes.filter(isFrame).map((frame) => renderFrame(frame, palette));
+  const lines = edges.map((edge) => renderEdge(edge, rects, palette));
+  const items = nodes
+    .filter((node) => !isFrame(node))
+    .map((node) => renderNode(node, assets, palette, theme === "dark"));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"
+  width="${Math.round(region.width)}" height="${Math.round(region.height)}"
+  viewBox="${region.x} ${region.y} ${region.width} ${region.height}"
+  font-family="ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif">
+  <defs>
+    <style>${getMarkdownStyles(palette)}</style>
+    <marker id="arrow-end" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+      <path d="M 0 0 L 10 5 L 0 10 z" fill="${palette.edge}" />
+    </marker>
+    <marker id="arrow-start" viewBox="0 0 10 10" refX="1" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+      <path d="M 10 0 L 0 5 L 10 10 z" fill="${palette.edge}" />
+    </marker>
+  </defs>
+  ${background ? `<rect x="${region.x}" y="${region.y}" width="${region.width}" height="${region.height}" fill="${palette.background}" />` : ""}
+  ${frames.join("")}
+  ${lines.join("")}
+  ${items.join("")}
+</svg>`;
+};
+
+/**
+ * Draw an SVG document onto a canvas at the given pixel ratio
+ */
+export const rasterizeSvg = async (svg: string, region: Rect, pixelRatio: number) => {
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  await image.decode();
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(region.width * pixelRatio));
+  canvas.height = Math.max(1, Math.round(region.height * pixelRatio));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Unable to draw the canvas image");
+
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Unable to encode the image"))), "image/png");
+  });
+
+export const renderCanvasPng = async (
+  nodes: Node[],
+  edges: Edge[],
+  region: Rect,
+  options: ExportOptions,
+  pixelRatio: number
+) => {
+  const ratio = getSafePixelRatio(region, pixelRatio);
+  const svg = await renderCanvasSvg(nodes, edges, region, options, ratio);
+  return canvasToBlob(await rasterizeSvg(svg, region, ratio));
+};
+
+/**
+ * Render each region onto its own page of a PDF, sized to fit it
+ */
+export const renderCanvasPdf = async (
+  nodes: Node[],
+  edges: Edge[],
+  pages: Rect[],
+  options: ExportOptions,
+  onProgress?: (page: number) => void
+) => {
+  const { jsPDF } = await import("jspdf");
+  let pdf: InstanceType<typeof jsPDF> | null = null;
+
+  for (const [index, region] of pages.entries()) {
+    onProgress?.(index);
+    const ratio = getSafePixelRatio(region, 2);
+    // PDF pages are always white underneath, so draw the theme's background
+    const svg = await renderCanvasSvg(nodes, edges, region, { ...options, background: true }, ratio);
+    const canvas = await rasterizeSvg(svg, region, ratio);
+    // 1 CSS pixel is 0.75pt
+    const size: [number, number] = [region.width * 0.75, region.height * 0.75];
+    const orientation = size[0] > size[1] ? "landscape" : "portrait";
+
+    if (!pdf) {
+      pdf = new jsPDF({ orientation, unit: "pt", format: size });
+    } else {
+      pdf.addPage(size, orientation);
+    }
+    pdf.addImage(canvas, "PNG", 0, 0, size[0], size[1]);
+  }
+
+  if (!pdf) throw new Error("There is nothing to export");
+  return pdf.output("blob");
+};
@@ -0,0 +1,104 @@
+import { supabase } from "@/lib/supabase";
+import type { Node } from "@/types";
+
+/**
+ * Upload a file into a canvas' folder of the `slate_files` bucket and
+ * return its storage path
+ */
+export const uploadCanvasFile = async (code: string, file: Blob, name: string) => {
+  const path = `${code}/${Date.now()}_${name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+  const { error } = await supabase.storage
+    .from('slate_files')
+    .upload(path, file, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (error) throw error;
+  return path;
+};
+
+/**
+ * The node type used for an uploaded file of the given MIME type
+ */
+export const getFileNodeType = (mimeType: string) =>
+  (mimeType.startsWith('image/') ? 'image' :
+    mimeType.startsWith('video/') ? 'video' :
+    mimeType === 'application/pdf' ? 'pdf' : 'file') as Node['node_type'];
+
+// Resizing options storage applies before serving an image
+export interface FileTransform {
+  width?: number;
+  height?: number;
+  resize?: 'cover' | 'contain' | 'fill';
+  quality?: number;
+  format?: 'origin';
+}
+
+// Signed URLs last an hour and are reused until shortly before they run out
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+const SIGNED_URL_REFRESH_MS = 5 * 60 * 1000;
+
+const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+const pendingUrls = new Map<string, Promise<string>>();
+
+const getUrlKey = (path: string, transform?: FileTransform) =>
+  transform ? `${path}?${JSON.stringify(transform)}` : path;
+
+/**
+ * A signed URL for a canvas file. The bucket is private, and storage only
+ * signs paths in canvases the caller may view.
+ */
+export const getFileUrl = (path: string, transform?: FileTransform) => {
+  const key = getUrlKey(path, transform);
+  const cached = signedUrls.get(key);
+  if (cached && cached.expiresAt - Date.now() > SIGNED_URL_REFRESH_MS) return Promise.resolve(cached.url);
+
+  const pending = pendingUrls.get(key);
+  if (pending) return pending;
+
+  const request = supabase.storage
+    .from('slate_files')
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS, transform && { transform })
+    .then(({ data, error }) => {
+      if (error) throw error;
+      signedUrls.set(key, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000 });
+      return data.signedUrl;
+    })
+    .finally(() => pendingUrls.delete(key));
+
+  pendingUrls.set(key, request);
+  return request;
+};
+
+/**
+ * The signed URL for a file if there is one, for code that can't wait.
+ * Otherwise one is requested and `onReady` fires once it has arrived.
+ */
+export const peekFileUrl = (path: string, transform: FileTransform | undefined, onReady: () => void) => {
+  const cached = signedUrls.get(getUrlKey(path, transform));
+  const isFresh = cached && cached.expiresAt - Date.now() > SIGNED_URL_REFRESH_MS;
+
+  if (!isFresh) {
+    getFileUrl(path, transform).then(onReady, (error) => console.error('Error signing file URL:', error));
+  }
+  // An older URL keeps working until it expires, so show it meanwhile
+  return cached && cached.expiresAt > Date.now() ? cached.url : null;
+};
+
+/**
+ * Signed URLs for many files at once, for exports that link to them; each
+ * link stops working after `expiresIn` seconds
+ */
+export const getFileUrls = async (paths: string[], expiresIn: number) => {
+  const urls = new Map<string, string>();
+  if (paths.length === 0) return urls;
+
+  const { data, error } = await supabase.storage.from('slate_files').createSignedUrls(paths, expiresIn);
+  if (error) throw error;
+
+  data.forEach(({ path, signedUrl, error: urlError }) => {
+    if (path && signedUrl && !urlError) urls.set(path, signedUrl);
+  });
+  return urls;
+};
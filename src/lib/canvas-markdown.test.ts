@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { Node } from "@/types";
+import { makeNode } from "@/test/fixtures";
+import { splitNoteTitle, toMarkdown } from "@/lib/canvas-markdown";
+
+const at = (id: string, x: number, y: number, changes: Partial<Node> = {}) =>
+  makeNode(id, { position: { x, y }, ...changes });
+
+describe("splitNoteTitle", () => {
+  it("takes the first line as the title", () => {
+    expect(splitNoteTitle("\n## Plan\n\nDay one\nDay two\n")).toEqual({ title: "Plan", body: "Day one\nDay two" });
+    expect(splitNoteTitle("#\nBody")).toEqual({ title: "Untitled note", body: "Body" });
+  });
+});
+
+describe("toMarkdown", () => {
+  const grid = [at("B", 300, 0), at("C", 0, 200), at("A", 0, 0)];
+
+  it("reads nodes row by row or column by column", () => {
+    expect(toMarkdown(grid, "rows", "Trip")).toBe("# Trip\n\n## A\n\n## B\n\n## C\n");
+    expect(toMarkdown(grid, "columns", "Trip")).toBe("# Trip\n\n## A\n\n## C\n\n## B\n");
+  });
+
+  it("nests frame children and demotes headings outside code", () => {
+    const nodes = [
+      at("frame", 0, 0, { node_type: "frame", content: "Ideas", dimensions: { width: 800, height: 600 } }),
+      at("note", 20, 60, { parent_id: "frame", content: "Food\n# Lunch\n```\n# not a heading\n```" }),
+      at("empty-frame", 1000, 0, { node_type: "frame", content: "Nothing" }),
+      at("blank", 1000, 200, { content: "  " }),
+    ];
+
+    expect(toMarkdown(nodes, "rows", "Trip")).toBe([
+      "# Trip",
+      "## Ideas",
+      "### Food",
+      "#### Lunch\n```\n# not a heading\n```",
+    ].join("\n\n") + "\n");
+  });
+
+  it("links files to the URLs given for them", () => {
+    const nodes = [
+      at("photo", 0, 0, { node_type: "image", file_path: "code/1-photo.png", file_name: "beach [1].png" }),
+      at("doc", 0, 200, { node_type: "pdf", file_path: "code/2-plan.pdf", file_name: "plan.pdf" }),
+      at("lost", 0, 400, { node_type: "pdf", file_path: "code/3-notes.pdf" }),
+    ];
+    const urls = new Map([
+      ["code/1-photo.png", "https://files.test/photo.png?token=a b"],
+      ["code/2-plan.pdf", "https://files.test/plan.pdf"],
+    ]);
+
+    expect(toMarkdown(nodes, "rows", "Trip", urls)).toBe([
+      "# Trip",
+      "![beach \\[1\\].png](https://files.test/photo.png?token=a%20b)",
+      "[plan.pdf](https://files.test/plan.pdf)",
+      "3-notes.pdf",
+    ].join("\n\n") + "\n");
+  });
+
+  it("separates clusters of nearby nodes with a rule", () => {
+    const nodes = [at("far", 3000, 3000), at("A", 0, 0), at("B", 0, 120)];
+
+    expect(toMarkdown(nodes, "clusters", "Trip")).toBe("# Trip\n\n## A\n\n## B\n\n---\n\n## far\n");
+  });
+});
@@ -0,0 +1,137 @@
+import type { Node } from "@/types";
+import { getFrameTitle, isFrame } from "@/lib/frames";
+import { getNodeRect } from "@/lib/geometry";
+import { findNodeClusters } from "@/lib/node-placement";
+import { kanbanToMarkdown, parseKanbanBoard } from "@/lib/kanban";
+
+/**
+ * Flattens a canvas into a single Markdown document: notes become sections
+ * titled by their first line, frames become the sections around their
+ * children, boards become a section per column, and files become links or
+ * embedded images. File links are signed URLs handed in by the caller,
+ * since the files bucket is private.
+ */
+
+export type MarkdownOrder = "rows" | "columns" | "clusters";
+
+export const MARKDOWN_ORDERS: Record<MarkdownOrder, { label: string; description: string }> = {
+  rows: { label: "Top to bottom", description: "Row by row, like reading a page" },
+  columns: { label: "Left to right", description: "Column by column, like a timeline" },
+  clusters: { label: "By cluster", description: "Groups of nearby notes, one after another" },
+};
+
+// Markdown has no headings below h6
+const MAX_HEADING_LEVEL = 6;
+
+const byRows = (a: Node, b: Node) => {
+  const rectA = getNodeRect(a);
+  const rectB = getNodeRect(b);
+  return rectA.y - rectB.y || rectA.x - rectB.x;
+};
+
+const byColumns = (a: Node, b: Node) => {
+  const rectA = getNodeRect(a);
+  const rectB = getNodeRect(b);
+  return rectA.x - rectB.x || rectA.y - rectB.y;
+};
+
+const heading = (level: number, text: string) =>
+  `${"#".repeat(Math.min(level, MAX_HEADING_LEVEL))} ${text}`;
+
+/**
+ * Split a note into a title from its first line, like the node finder shows
+ * it, and the rest of its content
+ */
+export const splitNoteTitle = (content: string) => {
+  const lines = content.trim().split("\n");
+  return {
+    title: lines[0].replace(/^#+\s*/, "").trim() || "Untitled note",
+    body: lines.slice(1).join("\n").trim(),
+  };
+};
+
+/**
+ * Push headings in a note's body below the heading the note gets, leaving
+ * fenced code alone
+ */
+const demoteHeadings = (body: string, level: number) => {
+  let inFence = false;
+  return body
+    .split("\n")
+    .map((line) => {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      if (inFence) return line;
+      return line.replace(/^(#{1,6})\s+/, (_, hashes: string) =>
+        `${"#".repeat(Math.min(hashes.length + level, MAX_HEADING_LEVEL))} `
+      );
+    })
+    .join("\n");
+};
+
+const escapeLinkText = (text: string) => text.replace(/[[\]\\]/g, "\\$&");
+
+const renderFile = (node: Node, fileUrls: Map<string, string>) => {
+  if (!node.file_path) return null;
+  const name = escapeLinkText(node.file_name || node.file_path.split("/").pop() || node.file_path);
+  const signedUrl = fileUrls.get(node.file_path);
+  // Without a URL the file is still named where it was
+  if (!signedUrl) return name;
+  const url = encodeURI(signedUrl);
+  return node.node_type === "image" ? `![${name}](${url})` : `[${name}](${url})`;
+};
+
+const renderNote = (node: Node, level: number) => {
+  if (!node.content?.trim()) return null;
+  const { title, body } = splitNoteTitle(node.content);
+  return [heading(level, title), body && demoteHeadings(body, level)].filter(Boolean).join("\n\n");
+};
+
+/**
+ * Export the given nodes as Markdown, walking them in the given order.
+ * Empty notes and frames with nothing to show are left out; files link to
+ * their URL in `fileUrls`, keyed by storage path.
+ */
+export const toMarkdown = (
+  nodes: Node[],
+  order: MarkdownOrder,
+  title: string,
+  fileUrls: Map<string, string> = new Map()
+) => {
+  const sort = order === "columns" ? byColumns : byRows;
+  const ids = new Set(nodes.map((node) => node.id));
+  const childrenOf = (parentId: string | null) =>
+    nodes
+      .filter((node) => (node.parent_id && ids.has(node.parent_id) ? node.parent_id : null) === parentId)
+      .sort(sort);
+
+  const renderNode = (node: Node, level: number): string | null => {
+    if (node.node_type === "text") return renderNote(node, level);
+    // A shape's label reads as a plain paragraph
+    if (node.node_type === "shape") return node.content?.trim() || null;
+    // Each column of a board is a section, like a note
+    if (node.node_type === "kanban") return kanbanToMarkdown(parseKanbanBoard(node.content), Math.min(level, MAX_HEADING_LEVEL));
+    if (!isFrame(node)) return renderFile(node, fileUrls);
+
+    const sections = renderNodes(childrenOf(node.id), level + 1);
+    return sections.length > 0 ? [heading(level, getFrameTitle(node)), ...sections].join("\n\n") : null;
+  };
+
+  const renderNodes = (items: Node[], level: number) =>
+    items.map((node) => renderNode(node, level)).filter((section): section is string => !!section);
+
+  const topLevel = childrenOf(null);
+  let sections: string[];
+
+  if (order === "clusters") {
+    // Clusters are read top to bottom by their center, with a rule between them
+    sections = findNodeClusters(topLevel)
+      .sort((a, b) => a.center.y - b.center.y || a.center.x - b.center.x)
+      .map((cluster) => renderNodes([...cluster.nodes].sort(sort), 2).join("\n\n"))
+      .filter(Boolean);
+    sections = sections.length > 0 ? [sections.join("\n\n---\n\n")] : [];
+  } else {
+    sections = renderNodes(topLevel, 2);
+  }
+
+  return [heading(1, title), ...sections].join("\n\n") + "\n";
+};
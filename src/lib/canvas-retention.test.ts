@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { makeCanvas } from "@/test/fixtures";
+import { formatTimeLeft, getCanvasExpiry, getRetention } from "@/lib/canvas-retention";
+
+describe("getRetention", () => {
+  it("falls back to the default for unknown values", () => {
+    expect(getRetention(makeCanvas({ retention: "30d" }))).toBe("30d");
+    expect(getRetention(makeCanvas({ retention: "forever" }))).toBe("3d");
+  });
+});
+
+describe("getCanvasExpiry", () => {
+  it("counts fixed retentions from when they were set", () => {
+    const canvas = makeCanvas({
+      retention: "7d",
+      retention_started_at: "2026-02-01T12:00:00.000Z",
+      last_accessed_at: "2026-03-01T00:00:00.000Z",
+    });
+    expect(getCanvasExpiry(canvas).toISOString()).toBe("2026-02-08T12:00:00.000Z");
+  });
+
+  it("counts activity retention from the last visit", () => {
+    const canvas = makeCanvas({
+      retention: "activity",
+      retention_started_at: "2026-02-01T00:00:00.000Z",
+      last_accessed_at: "2026-02-10T00:00:00.000Z",
+    });
+    expect(getCanvasExpiry(canvas).toISOString()).toBe("2026-02-17T00:00:00.000Z");
+  });
+
+  it("never lets an older visit shorten a retention that was just set", () => {
+    const canvas = makeCanvas({
+      retention: "activity",
+      retention_started_at: "2026-02-10T00:00:00.000Z",
+      last_accessed_at: "2026-02-01T00:00:00.000Z",
+    });
+    expect(getCanvasExpiry(canvas).toISOString()).toBe("2026-02-17T00:00:00.000Z");
+  });
+
+  it("starts with the canvas for rows cached before retention existed", () => {
+    const canvas = makeCanvas({ retention_started_at: undefined as unknown as string });
+    expect(getCanvasExpiry(canvas).toISOString()).toBe("2026-01-04T00:00:00.000Z");
+  });
+});
+
+describe("formatTimeLeft", () => {
+  const MINUTE = 60 * 1000;
+
+  it("shows the two largest units", () => {
+    expect(formatTimeLeft((2 * 24 * 60 + 4 * 60 + 30) * MINUTE)).toBe("2d 4h");
+    expect(formatTimeLeft((3 * 60 + 12) * MINUTE)).toBe("3h 12m");
+    expect(formatTimeLeft(45 * MINUTE + 59_000)).toBe("45m");
+  });
+
+  it("says so when less than a minute is left", () => {
+    expect(formatTimeLeft(59_000)).toBe("under a minute");
+    expect(formatTimeLeft(0)).toBe("under a minute");
+  });
+});
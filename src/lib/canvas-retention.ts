@@ -0,0 +1,82 @@
+import { supabase } from "@/lib/supabase";
+import type { Tables } from "@/integrations/supabase/types";
+import { queryClient } from "@/lib/query-cache";
+
+/**
+ * How long a canvas is kept. Mirrors `canvas_expires_at` in the database,
+ * which the cleanup function goes by.
+ */
+
+export type CanvasRetention = "1d" | "3d" | "7d" | "30d" | "activity";
+
+type CanvasRow = Tables<"canvases">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RETENTION_OPTIONS: Record<CanvasRetention, { label: string; days: number }> = {
+  "1d": { label: "1 day", days: 1 },
+  "3d": { label: "3 days", days: 3 },
+  "7d": { label: "7 days", days: 7 },
+  "30d": { label: "30 days", days: 30 },
+  // Counted from the last visit rather than from when it was set
+  activity: { label: "7 days after last visit", days: 7 },
+};
+
+export const DEFAULT_RETENTION: CanvasRetention = "3d";
+
+export const getRetention = (canvas: CanvasRow): CanvasRetention =>
+  canvas.retention in RETENTION_OPTIONS ? (canvas.retention as CanvasRetention) : DEFAULT_RETENTION;
+
+export const getCanvasExpiry = (canvas: CanvasRow) => {
+  const retention = getRetention(canvas);
+  // Canvases cached before retention existed started with the canvas itself
+  const startedAt = new Date(canvas.retention_started_at ?? canvas.created_at).getTime();
+  const from = retention === "activity"
+    ? Math.max(startedAt, new Date(canvas.last_accessed_at).getTime())
+    : startedAt;
+  return new Date(from + RETENTION_OPTIONS[retention].days * DAY_MS);
+};
+
+/**
+ * "2d 4h", "3h 12m", "45m" or "under a minute"
+ */
+export const formatTimeLeft = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) return `${days}d ${hours % 24}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return "under a minute";
+};
+
+const patchCanvas = (code: string, changes: Partial<CanvasRow>) => {
+  queryClient.setQueryData<CanvasRow | null>(["canvas", code], (canvas) =>
+    canvas ? { ...canvas, ...changes } : canvas
+  );
+};
+
+/**
+ * Choose a retention, or pick the current one again to restart its clock
+ */
+export const setCanvasRetention = async (canvas: CanvasRow, retention: CanvasRetention) => {
+  // The server restarts the clock, so the start comes back from it
+  const { data, error } = await supabase.rpc("set_canvas_retention", {
+    target_canvas: canvas.id,
+    new_retention: retention,
+  });
+
+  if (error) throw error;
+  patchCanvas(canvas.code, { retention, ...(data && { retention_started_at: data }) });
+};
+
+/**
+ * Record a visit, which keeps "extend on activity" canvases alive
+ */
+export const touchCanvas = async (canvas: Pick<CanvasRow, "id" | "code">) => {
+  const { data, error } = await supabase.rpc("touch_canvas", { target_canvas: canvas.id });
+
+  if (error) throw error;
+  if (data) patchCanvas(canvas.code, { last_accessed_at: data });
+};
@@ -0,0 +1,282 @@
+import { create } from "zustand";
+import type { Edge, EdgeLineStyle, Node } from "@/types";
+import { getFrameRect, isFrame } from "@/lib/frames";
+import { getNodeRect, Point, Size } from "@/lib/geometry";
+import { insertNodes } from "@/lib/node-mutations";
+import { isDrawing } from "@/lib/ink";
+import { isShape } from "@/lib/shapes";
+import { isKanban } from "@/lib/kanban";
+
+/**
+ * Reusable canvas layouts. Built-in templates ship with the app; templates
+ * saved from a canvas are kept in this browser. Positions are relative to
+ * the template's top-left corner and ids are only unique within a template.
+ */
+
+export interface TemplateNode {
+  id: string;
+  node_type: "text" | "frame" | "drawing" | "shape" | "kanban";
+  content: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  parent_id?: string;
+  style?: Record<string, unknown>;
+}
+
+export interface TemplateEdge {
+  source_id: string;
+  target_id: string;
+  label?: string;
+  arrow_start?: boolean;
+  arrow_end?: boolean;
+  line_style?: EdgeLineStyle;
+}
+
+export interface CanvasTemplate {
+  id: string;
+  name: string;
+  description: string;
+  nodes: TemplateNode[];
+  edges: TemplateEdge[];
+  // Set on templates saved from a canvas
+  saved_at?: string;
+}
+
+const TEMPLATES_STORAGE_KEY = "slate-canvas-templates";
+
+const frame = (id: string, x: number, y: number, width: number, height: number, title: string): TemplateNode =>
+  ({ id, node_type: "frame", content: title, x, y, width, height });
+
+const note = (
+  id: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  content: string,
+  parent_id?: string
+): TemplateNode => ({ id, node_type: "text", content, x, y, width, height, parent_id });
+
+// Columns of frames, each with a starter note
+const columns = (titles: Array<[string, string]>, width = 360, height = 560, gap = 40) =>
+  titles.flatMap(([title, starter], index) => {
+    const x = index * (width + gap);
+    return [
+      frame(`column-${index}`, x, 0, width, height, title),
+      note(`note-${index}`, x + 20, 60, width - 40, 160, starter, `column-${index}`),
+    ];
+  });
+
+export const BUILT_IN_TEMPLATES: CanvasTemplate[] = [
+  {
+    id: "retro",
+    name: "Retrospective",
+    description: "What went well, what to improve and the actions to take",
+    nodes: columns([
+      ["Went well 🎉", "## Went well\n- "],
+      ["To improve 🔧", "## To improve\n- "],
+      ["Action items ✅", "## Actions\n- [ ] Owner: "],
+    ]),
+    edges: [],
+  },
+  {
+    id: "kanban",
+    name: "Kanban board",
+    description: "To do, in progress and done columns with cards",
+    nodes: columns([
+      ["To do", "### First task\nWhat needs doing and why"],
+      ["In progress", "### Task being worked on\nWho's on it"],
+      ["Done", "### Finished task\nLink to the result"],
+    ], 320, 640, 32),
+    edges: [],
+  },
+  {
+    id: "swot",
+    name: "SWOT analysis",
+    description: "Strengths, weaknesses, opportunities and threats",
+    nodes: [
+      frame("strengths", 0, 0, 440, 360, "Strengths 💪"),
+      note("strengths-note", 20, 60, 400, 200, "## Strengths\nWhat do we do well?\n- ", "strengths"),
+      frame("weaknesses", 480, 0, 440, 360, "Weaknesses 🩹"),
+      note("weaknesses-note", 500, 60, 400, 200, "## Weaknesses\nWhere do we fall short?\n- ", "weaknesses"),
+      frame("opportunities", 0, 400, 440, 360, "Opportunities 🌱"),
+      note("opportunities-note", 20, 460, 400, 200, "## Opportunities\nWhat could we take advantage of?\n- ", "opportunities"),
+      frame("threats", 480, 400, 440, 360, "Threats ⚠️"),
+      note("threats-note", 500, 460, 400, 200, "## Threats\nWhat could get in our way?\n- ", "threats"),
+    ],
+    edges: [],
+  },
+  {
+    id: "sprint-planning",
+    name: "Sprint planning",
+    description: "Sprint goal, capacity, backlog, commitments and risks",
+    nodes: [
+      note("goal", 0, 0, 760, 140, "# Sprint goal\nOne sentence on what this sprint delivers"),
+      note("capacity", 800, 0, 360, 140, "## Capacity\n| Person | Days |\n| --- | --- |\n|  |  |"),
+      frame("backlog", 0, 180, 360, 520, "Backlog"),
+      note("backlog-note", 20, 240, 320, 160, "### Candidate story\nEstimate: ", "backlog"),
+      frame("committed", 400, 180, 360, 520, "Committed"),
+      note("committed-note", 420, 240, 320, 160, "### Committed story\nAcceptance criteria:\n- [ ] ", "committed"),
+      frame("risks", 800, 180, 360, 520, "Risks & dependencies"),
+      note("risks-note", 820, 240, 320, 160, "### Risk\nImpact and mitigation", "risks"),
+    ],
+    edges: [
+      { source_id: "backlog", target_id: "committed", label: "Pull in" },
+    ],
+  },
+  {
+    id: "mind-map",
+    name: "Mind map",
+    description: "A central idea with branches to grow from",
+    nodes: [
+      note("center", 340, 240, 240, 120, "# Central idea"),
+      note("branch-1", 0, 0, 220, 110, "## Branch 1"),
+      note("branch-2", 700, 0, 220, 110, "## Branch 2"),
+      note("branch-3", 0, 490, 220, 110, "## Branch 3"),
+      note("branch-4", 700, 490, 220, 110, "## Branch 4"),
+    ],
+    edges: ["branch-1", "branch-2", "branch-3", "branch-4"].map((branch) => ({
+      source_id: "center",
+      target_id: branch,
+    })),
+  },
+];
+
+const loadSavedTemplates = (): CanvasTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TEMPLATES_STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    console.error("Error loading saved templates:", e);
+    return [];
+  }
+};
+
+interface TemplateState {
+  saved: CanvasTemplate[];
+  saveTemplate: (template: CanvasTemplate) => void;
+  removeTemplate: (id: string) => void;
+}
+
+export const useTemplateStore = create<TemplateState>((set, get) => {
+  const persist = (saved: CanvasTemplate[]) => {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(saved));
+    set({ saved });
+  };
+
+  return {
+    saved: loadSavedTemplates(),
+    saveTemplate: (template) => persist([template, ...get().saved]),
+    removeTemplate: (id) => persist(get().saved.filter((template) => template.id !== id)),
+  };
+});
+
+/**
+ * Find a built-in or saved template by id
+ */
+export const getTemplate = (id: string) =>
+  BUILT_IN_TEMPLATES.find((template) => template.id === id) ??
+  useTemplateStore.getState().saved.find((template) => template.id === id);
+
+/**
+ * Whether a node can go into a template. Files belong to the canvas they
+ * were uploaded to, so only notes, frames, drawings, shapes and boards can.
+ */
+export const isTemplateNode = (node: Node) =>
+  node.node_type === "text" || isFrame(node) || isDrawing(node) || isShape(node) || isKanban(node);
+
+/**
+ * Turn a canvas into a template, keeping only template nodes; `skipped`
+ * counts the rest.
+ */
+export const createTemplateFromCanvas = (name: string, description: string, nodes: Node[], edges: Edge[]) => {
+  const kept = nodes.filter(isTemplateNode);
+  const keptIds = new Set(kept.map((node) => node.id));
+  // Collapsed frames are saved at their full size
+  const rects = kept.map((node) => (isFrame(node) ? getFrameRect(node) : getNodeRect(node)));
+  const minX = Math.min(...rects.map((rect) => rect.x));
+  const minY = Math.min(...rects.map((rect) => rect.y));
+
+  const template: CanvasTemplate = {
+    id: crypto.randomUUID(),
+    name,
+    description,
+    saved_at: new Date().toISOString(),
+    nodes: kept.map((node, index) => ({
+      id: node.id,
+      node_type: node.node_type as TemplateNode["node_type"],
+      content: node.content ?? "",
+      x: Math.round(rects[index].x - minX),
+      y: Math.round(rects[index].y - minY),
+      width: Math.round(rects[index].width),
+      height: Math.round(rects[index].height),
+      ...(node.parent_id && keptIds.has(node.parent_id) && { parent_id: node.parent_id }),
+      ...(node.style && { style: node.style }),
+    })),
+    edges: edges
+      .filter((edge) => keptIds.has(edge.source_id) && keptIds.has(edge.target_id))
+      .map((edge) => ({
+        source_id: edge.source_id,
+        target_id: edge.target_id,
+        label: edge.label ?? undefined,
+        arrow_start: edge.arrow_start,
+        arrow_end: edge.arrow_end,
+        line_style: edge.line_style,
+      })),
+  };
+
+  return { template, skipped: nodes.length - kept.length };
+};
+
+/**
+ * Size of the area a template covers
+ */
+export const getTemplateSize = (template: CanvasTemplate): Size => ({
+  width: Math.max(0, ...template.nodes.map((node) => node.x + node.width)),
+  height: Math.max(0, ...template.nodes.map((node) => node.y + node.height)),
+});
+
+/**
+ * Add a template's notes, frames and connectors to a canvas as one undoable
+ * step, with its top-left corner wherever `place` puts it
+ */
+export const insertTemplate = async (
+  template: CanvasTemplate,
+  { canvasId, place }: { canvasId: string; place: (size: Size) => Point }
+) => {
+  const origin = place(getTemplateSize(template));
+  const now = new Date().toISOString();
+  const ids = new Map(template.nodes.map((node) => [node.id, crypto.randomUUID()]));
+
+  const nodes: Node[] = template.nodes.map((node) => ({
+    id: ids.get(node.id) as string,
+    canvas_id: canvasId,
+    node_type: node.node_type,
+    content: node.content,
+    position: { x: origin.x + node.x, y: origin.y + node.y },
+    dimensions: { width: node.width, height: node.height },
+    style: node.style,
+    parent_id: node.parent_id ? ids.get(node.parent_id) ?? null : null,
+    created_at: now,
+    updated_at: now,
+  }));
+
+  const edges: Edge[] = template.edges
+    .filter((edge) => ids.has(edge.source_id) && ids.has(edge.target_id))
+    .map((edge) => ({
+      id: crypto.randomUUID(),
+      canvas_id: canvasId,
+      source_id: ids.get(edge.source_id) as string,
+      target_id: ids.get(edge.target_id) as string,
+      label: edge.label ?? null,
+      arrow_start: edge.arrow_start ?? false,
+      arrow_end: edge.arrow_end ?? true,
+      line_style: edge.line_style ?? "solid",
+      created_at: now,
+      updated_at: now,
+    }));
+
+  await insertNodes(nodes, edges);
+};
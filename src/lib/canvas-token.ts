@@ -0,0 +1,14 @@
+/**
+ * Scoped access token for the canvas that is currently open. It is sent
+ * with every Supabase request instead of the anon key, so row level
+ * security can tell what this visitor may do. Kept free of imports so the
+ * Supabase client can depend on it.
+ */
+
+let canvasToken: string | null = null;
+
+export const getCanvasToken = () => canvasToken;
+
+export const setCanvasToken = (token: string | null) => {
+  canvasToken = token;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import * as Y from "yjs";
+import { applyTextDiff, createSeedUpdate, fromBase64, TEXT_KEY, toBase64 } from "@/lib/collab-text";
+
+const docFrom = (...updates: Uint8Array[]) => {
+  const doc = new Y.Doc();
+  updates.forEach((update) => Y.applyUpdate(doc, update));
+  return doc;
+};
+
+const textOf = (doc: Y.Doc) => doc.getText(TEXT_KEY).toString();
+
+describe("createSeedUpdate", () => {
+  it("gives editors of the same snapshot identical seeds", () => {
+    expect(createSeedUpdate("Hello")).toEqual(createSeedUpdate("Hello"));
+    expect(textOf(docFrom(createSeedUpdate("Hello"), createSeedUpdate("Hello")))).toBe("Hello");
+  });
+
+  it("keeps seeds of different snapshots apart", () => {
+    const merged = textOf(docFrom(createSeedUpdate("Hello"), createSeedUpdate("Help")));
+
+    // Both seeds survive whole instead of being mistaken for the same items
+    expect(merged).toHaveLength("Hello".length + "Help".length);
+  });
+});
+
+describe("applyTextDiff", () => {
+  it("merges concurrent edits made from the same seed", () => {
+    const seed = createSeedUpdate("The quick fox");
+    const alice = docFrom(seed);
+    const bob = docFrom(seed);
+
+    applyTextDiff(alice.getText(TEXT_KEY), "The quick fox", "The quick brown fox", "local");
+    applyTextDiff(bob.getText(TEXT_KEY), "The quick fox", "The quick fox jumps", "local");
+    Y.applyUpdate(alice, Y.encodeStateAsUpdate(bob));
+    Y.applyUpdate(bob, Y.encodeStateAsUpdate(alice));
+
+    expect(textOf(alice)).toBe("The quick brown fox jumps");
+    expect(textOf(bob)).toBe("The quick brown fox jumps");
+  });
+
+  it("applies the change as one transaction with the given origin", () => {
+    const doc = docFrom(createSeedUpdate("aaa"));
+    const origins: unknown[] = [];
+    doc.on("afterTransaction", (transaction: Y.Transaction) => origins.push(transaction.origin));
+
+    applyTextDiff(doc.getText(TEXT_KEY), "aaa", "abba", "local");
+    applyTextDiff(doc.getText(TEXT_KEY), "abba", "abba", "local");
+
+    expect(textOf(doc)).toBe("abba");
+    expect(origins).toEqual(["local"]);
+  });
+});
+
+describe("toBase64", () => {
+  it("round-trips updates larger than one chunk", () => {
+    const bytes = Uint8Array.from({ length: 0x8000 * 2 + 5 }, (_, i) => i % 256);
+
+    expect(fromBase64(toBase64(bytes))).toEqual(bytes);
+  });
+});
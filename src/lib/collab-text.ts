@@ -0,0 +1,128 @@
+import * as Y from "yjs";
+
+/**
+ * Helpers for merging concurrent edits to a text node with a Yjs CRDT
+ */
+
+// Name of the shared text type inside each node's document
+export const TEXT_KEY = "content";
+
+// 32-bit FNV-1a hash, used as the client ID that writes a seed
+const hashContent = (content: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Build the initial document state for a node's saved content.
+ *
+ * The seed is written by a client ID derived from the content, so editors
+ * that start from the same snapshot produce identical items and merge
+ * cleanly. Editors that seed from different snapshots get different IDs;
+ * Yjs would otherwise take their differing items for the same ones.
+ */
+export const createSeedUpdate = (content: string): Uint8Array => {
+  const seed = new Y.Doc();
+  seed.clientID = hashContent(content);
+  seed.getText(TEXT_KEY).insert(0, content);
+  const update = Y.encodeStateAsUpdate(seed);
+  seed.destroy();
+  return update;
+};
+
+/**
+ * Apply the difference between two versions of a string to a shared text
+ * as a single delete/insert around their common prefix and suffix
+ */
+export const applyTextDiff = (text: Y.Text, previous: string, next: string, origin: unknown) => {
+  if (previous === next) return;
+
+  let start = 0;
+  const maxStart = Math.min(previous.length, next.length);
+  while (start < maxStart && previous[start] === next[start]) start++;
+
+  let end = 0;
+  const maxEnd = Math.min(previous.length, next.length) - start;
+  while (
+    end < maxEnd &&
+    previous[previous.length - 1 - end] === next[next.length - 1 - end]
+  ) end++;
+
+  text.doc?.transact(() => {
+    const deleted = previous.length - start - end;
+    if (deleted > 0) text.delete(start, deleted);
+    const inserted = next.slice(start, next.length - end);
+    if (inserted) text.insert(start, inserted);
+  }, origin);
+};
+
+/**
+ * Resolve a position shared by another editor to an index in the text
+ */
+export const resolveRelativeIndex = (doc: Y.Doc, json: unknown): number | null => {
+  if (!json) return null;
+  const relative = Y.createRelativePositionFromJSON(json);
+  return Y.createAbsolutePositionFromRelativePosition(relative, doc)?.index ?? null;
+};
+
+/**
+ * Encode a text index so it survives concurrent edits before it is resolved
+ */
+export const toRelativeJSON = (text: Y.Text, index: number) =>
+  Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, index));
+
+// Realtime broadcast payloads must be JSON, so binary updates travel as base64
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+// Styles copied onto the mirror element used to measure caret positions
+const MIRRORED_STYLES = [
+  "boxSizing", "width", "paddingTop", "paddingRight", "paddingBottom", "paddingLeft",
+  "borderTopWidth", "borderRightWidth", "borderBottomWidth", "borderLeftWidth",
+  "fontFamily", "fontSize", "fontWeight", "fontStyle", "letterSpacing", "lineHeight",
+  "textTransform", "textIndent", "tabSize", "wordSpacing",
+] as const;
+
+/**
+ * Measure where a character index sits inside a textarea, relative to its
+ * top-left corner and accounting for scrolling
+ */
+export const getTextareaCaretCoordinates = (textarea: HTMLTextAreaElement, index: number) => {
+  const mirror = document.createElement("div");
+  const computed = window.getComputedStyle(textarea);
+
+  MIRRORED_STYLES.forEach((property) => {
+    mirror.style[property] = computed[property];
+  });
+  mirror.style.position = "absolute";
+  mirror.style.visibility = "hidden";
+  mirror.style.whiteSpace = "pre-wrap";
+  mirror.style.overflowWrap = "break-word";
+
+  mirror.textContent = textarea.value.slice(0, index);
+  const marker = document.createElement("span");
+  marker.textContent = textarea.value.slice(index) || ".";
+  mirror.appendChild(marker);
+
+  document.body.appendChild(mirror);
+  const coordinates = {
+    top: marker.offsetTop - textarea.scrollTop,
+    left: marker.offsetLeft - textarea.scrollLeft,
+    height: parseFloat(computed.lineHeight) || parseFloat(computed.fontSize) * 1.5,
+  };
+  document.body.removeChild(mirror);
+
+  return coordinates;
+};
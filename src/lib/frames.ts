@@ -0,0 +1,61 @@
+import { Node } from "@/types";
+import { FRAME_HEADER_HEIGHT, getRectCenter, parseNodeDimensions, parseNodePosition, Rect } from "@/lib/geometry";
+import { parseNodeStyle } from "@/lib/node-style";
+
+/**
+ * Helpers for frame nodes, which act as titled containers for other nodes
+ */
+
+export const isFrame = (node: Node) => node.node_type === 'frame';
+
+export const isFrameCollapsed = (node: Node) =>
+  isFrame(node) && parseNodeStyle(node.style).collapsed === true;
+
+export const getFrameTitle = (node: Node) => node.content?.trim() || 'Untitled frame';
+
+/**
+ * Get the expanded bounds of a frame, ignoring its collapsed state
+ */
+export const getFrameRect = (frame: Node): Rect => ({
+  ...parseNodePosition(frame.position),
+  ...parseNodeDimensions(frame.dimensions)
+});
+
+/**
+ * Ids of the nodes that belong to the given frame
+ */
+export const getFrameChildIds = (frameId: string, nodes: Node[]) =>
+  nodes.filter(node => node.parent_id === frameId).map(node => node.id);
+
+/**
+ * Find the expanded frame whose area contains the center of `rect`
+ */
+export const findContainingFrame = (
+  rect: Rect,
+  frames: Array<{ id: string; rect: Rect }>
+): string | null => {
+  const center = getRectCenter(rect);
+  // Prefer the smallest matching frame when frames overlap
+  const matches = frames
+    .filter(({ rect: frameRect }) =>
+      center.x >= frameRect.x &&
+      center.x <= frameRect.x + frameRect.width &&
+      center.y >= frameRect.y + FRAME_HEADER_HEIGHT &&
+      center.y <= frameRect.y + frameRect.height
+    )
+    .sort((a, b) => a.rect.width * a.rect.height - b.rect.width * b.rect.height);
+
+  return matches[0]?.id ?? null;
+};
+
+/**
+ * Ids of nodes hidden inside collapsed frames
+ */
+export const getHiddenNodeIds = (nodes: Node[]) => {
+  const collapsed = new Set(nodes.filter(isFrameCollapsed).map(node => node.id));
+  return new Set(
+    nodes
+      .filter(node => node.parent_id && collapsed.has(node.parent_id))
+      .map(node => node.id)
+  );
+};
@@ -0,0 +1,128 @@
+import { Node } from "@/types";
+import { parseNodeStyle } from "@/lib/node-style";
+
+/**
+ * Shared geometry helpers for working with node bounds on the canvas
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Rect extends Point, Size {}
+
+/**
+ * Safely parse a node position that may have been stored as a JSON string
+ */
+export const parseNodePosition = (position: unknown): Point => {
+  let value = position;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (e) {
+      console.error('Error parsing position:', e);
+      return { x: 0, y: 0 };
+    }
+  }
+  if (value && typeof value === 'object' && 'x' in value && 'y' in value) {
+    return { x: Number(value.x), y: Number(value.y) };
+  }
+  return { x: 0, y: 0 };
+};
+
+/**
+ * Safely parse node dimensions that may have been stored as a JSON string
+ */
+export const parseNodeDimensions = (dimensions: unknown): Size => {
+  let value = dimensions;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (e) {
+      console.error('Error parsing dimensions:', e);
+      return { width: 50, height: 50 };
+    }
+  }
+  if (value && typeof value === 'object' && 'width' in value && 'height' in value) {
+    return { width: Number(value.width), height: Number(value.height) };
+  }
+  return { width: 50, height: 50 };
+};
+
+// Height of a frame's title bar, which is all that remains when collapsed
+export const FRAME_HEADER_HEIGHT = 40;
+
+/**
+ * Get the world-space bounding rectangle of a node as it is displayed
+ */
+export const getNodeRect = (node: Node): Rect => {
+  const { x, y } = parseNodePosition(node.position);
+  const { width, height } = parseNodeDimensions(node.dimensions);
+  const collapsed = node.node_type === 'frame' && parseNodeStyle(node.style).collapsed === true;
+  return { x, y, width, height: collapsed ? FRAME_HEADER_HEIGHT : height };
+};
+
+/**
+ * Check whether two rectangles intersect
+ */
+export const rectsIntersect = (a: Rect, b: Rect): boolean => {
+  return (
+    a.x < b.x + b.width &&
+    a.x + a.width > b.x &&
+    a.y < b.y + b.height &&
+    a.y + a.height > b.y
+  );
+};
+
+/**
+ * Get the center point of a rectangle
+ */
+export const getRectCenter = (rect: Rect): Point => ({
+  x: rect.x + rect.width / 2,
+  y: rect.y + rect.height / 2
+});
+
+/**
+ * Find where the line from the rectangle's center towards `target` leaves the rectangle
+ */
+export const getRectBoundaryPoint = (rect: Rect, target: Point): Point => {
+  const center = getRectCenter(rect);
+  const dx = target.x - center.x;
+  const dy = target.y - center.y;
+
+  if (dx === 0 && dy === 0) return center;
+
+  const halfWidth = rect.width / 2;
+  const halfHeight = rect.height / 2;
+
+  // Scale the direction vector until it touches the nearest side
+  const scaleX = dx !== 0 ? halfWidth / Math.abs(dx) : Infinity;
+  const scaleY = dy !== 0 ? halfHeight / Math.abs(dy) : Infinity;
+  const t = Math.min(scaleX, scaleY);
+
+  return {
+    x: center.x + dx * t,
+    y: center.y + dy * t
+  };
+};
+
+/**
+ * Smallest size a node of the given type can be resized to
+ */
+export const getMinNodeSize = (nodeType: string): Size => {
+  if (nodeType === 'frame') return { width: 200, height: 120 };
+  // A short stroke can be as small as a dot
+  if (nodeType === 'drawing') return { width: 16, height: 16 };
+  if (nodeType === 'shape') return { width: 60, height: 40 };
+  if (nodeType === 'kanban') return { width: 320, height: 240 };
+  return {
+    width: nodeType === 'text' ? 150 : 100,
+    height: 100
+  };
+};
@@ -0,0 +1,66 @@
+import { create } from "zustand";
+
+/**
+ * A reversible canvas mutation recorded on the undo stack
+ */
+export interface HistoryCommand {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+// Maximum number of commands kept on the undo stack
+const HISTORY_LIMIT = 50;
+
+interface HistoryState {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+  isBusy: boolean;
+  record: (command: HistoryCommand) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  reset: () => void;
+}
+
+export const useHistoryStore = create<HistoryState>((set, get) => {
+  /**
+   * Move the command at the top of one stack onto the other after running it
+   */
+  const step = async (direction: 'undo' | 'redo') => {
+    const { past, future, isBusy } = get();
+    const source = direction === 'undo' ? past : future;
+    const command = source[source.length - 1];
+    if (!command || isBusy) return;
+
+    set({ isBusy: true });
+    try {
+      await command[direction]();
+      set((state) => direction === 'undo'
+        ? { past: state.past.filter((c) => c !== command), future: [...state.future, command] }
+        : { future: state.future.filter((c) => c !== command), past: [...state.past, command] }
+      );
+    } catch (error) {
+      import('@/lib/error-handler').then(({ handleError }) => {
+        handleError(error, {
+          title: direction === 'undo' ? "Undo Failed" : "Redo Failed",
+          message: `Could not ${direction} "${command.label}"`
+        });
+      });
+    } finally {
+      set({ isBusy: false });
+    }
+  };
+
+  return {
+    past: [],
+    future: [],
+    isBusy: false,
+    record: (command) => {
+      // A new action makes everything that was undone unreachable
+      set((state) => ({ past: [...state.past, command].slice(-HISTORY_LIMIT), future: [] }));
+    },
+    undo: () => step('undo'),
+    redo: () => step('redo'),
+    reset: () => set({ past: [], future: [] }),
+  };
+});
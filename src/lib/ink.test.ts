@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createDrawingRow,
+  decodeInkPath,
+  encodeInkPath,
+  hitsInk,
+  InkPath,
+  InkPoint,
+  simplifyStroke,
+  smoothStroke,
+} from "@/lib/ink";
+
+// The ink store reads its settings when the module loads
+vi.hoisted(() => {
+  vi.stubGlobal("localStorage", { getItem: () => null, setItem: () => undefined });
+});
+
+const point = (x: number, y: number, pressure = 5 / 9): InkPoint => ({ x, y, pressure });
+
+describe("encodeInkPath", () => {
+  it("delta-encodes points in quarter units", () => {
+    const path = { width: 40, height: 20.25, points: [point(10, 10), point(12.5, 9.75, 1), point(12.5, 9.75, 0)] };
+
+    expect(encodeInkPath(path)).toBe("40,20.25;40,40,5 10,-1,9 0,0,0");
+    expect(decodeInkPath(encodeInkPath(path))).toEqual(path);
+  });
+
+  it("rounds to the stored precision", () => {
+    const decoded = decodeInkPath(encodeInkPath({ width: 10, height: 10, points: [point(1.1, 2.9, 0.52)] }));
+
+    expect(decoded?.points).toEqual([{ x: 1, y: 3, pressure: 5 / 9 }]);
+  });
+});
+
+describe("decodeInkPath", () => {
+  it("returns null for content that isn't a stroke", () => {
+    expect(decodeInkPath(null)).toBeNull();
+    expect(decodeInkPath("hello")).toBeNull();
+    expect(decodeInkPath("10,10;")).toBeNull();
+    expect(decodeInkPath("0,10;0,0,5")).toBeNull();
+    expect(decodeInkPath("10,10;0,0,5 1,x,5")).toBeNull();
+  });
+});
+
+describe("smoothStroke", () => {
+  it("averages inner points and keeps both ends", () => {
+    const points = [point(0, 0), point(10, 10), point(20, 0), point(30, 10)];
+
+    expect(smoothStroke(points, 1)).toEqual([
+      point(0, 0),
+      point(10, 10 / 3),
+      point(20, 20 / 3),
+      point(30, 10),
+    ]);
+  });
+});
+
+describe("simplifyStroke", () => {
+  it("drops points within the tolerance and keeps corners", () => {
+    const points = [point(0, 0), point(5, 0.2), point(10, 0), point(10, 5), point(10, 10)];
+
+    expect(simplifyStroke(points, 0.5)).toEqual([point(0, 0), point(10, 0), point(10, 10)]);
+    expect(simplifyStroke(points, 0.1)).toEqual([point(0, 0), point(5, 0.2), point(10, 0), point(10, 10)]);
+  });
+});
+
+describe("createDrawingRow", () => {
+  it("sits on the stroke's padded bounds, with the path relative to it", () => {
+    const row = createDrawingRow("canvas", [point(10, 20), point(30, 25, 1)], { color: "blue", width: 4 });
+    const path = decodeInkPath(row.content) as InkPath;
+
+    // Padding is the widest the pen can draw plus a unit
+    expect(row.position).toEqual({ x: 5.8, y: 15.8 });
+    expect(row.dimensions).toEqual({ width: 28.5, height: 13.5 });
+    expect(row.style).toEqual({ strokeWidth: 4, color: "blue" });
+    expect(path.width).toBe(28.5);
+    expect(path.height).toBe(13.5);
+    expect(path.points.map(({ x, y }) => [x, y])).toEqual([[4.25, 4.25], [24.25, 9.25]]);
+  });
+});
+
+describe("hitsInk", () => {
+  it("follows the drawing when it's moved and stretched", () => {
+    const path = { width: 10, height: 10, points: [point(0, 0), point(10, 10)] };
+    const rect = { x: 100, y: 100, width: 20, height: 10 };
+
+    expect(hitsInk(path, rect, 2, { x: 110, y: 105 }, 1)).toBe(true);
+    expect(hitsInk(path, rect, 2, { x: 105, y: 108 }, 1)).toBe(false);
+    expect(hitsInk(path, rect, 2, { x: 5, y: 5 }, 1)).toBe(false);
+  });
+});
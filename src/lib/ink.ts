@@ -0,0 +1,289 @@
+import { create } from "zustand";
+import type { Node } from "@/types";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import type { Point, Rect } from "@/lib/geometry";
+import { getNodeAppearance, NODE_COLORS, NodeColor, parseNodeStyle } from "@/lib/node-style";
+
+/**
+ * Freehand ink. Every pen stroke becomes a `drawing` node whose rect is the
+ * stroke's bounds. Its content holds the stroke's points relative to the
+ * node, delta-encoded so long strokes stay small, and the size they were
+ * drawn at so the path stretches along when the node is resized.
+ */
+
+export interface InkPoint {
+  x: number;
+  y: number;
+  // 0 to 1; mice and pens without pressure report 0.5
+  pressure: number;
+}
+
+export interface InkPath {
+  width: number;
+  height: number;
+  points: InkPoint[];
+}
+
+export type InkTool = "pen" | "eraser";
+
+export const INK_WIDTHS = [2, 4, 8, 16];
+const DEFAULT_INK_WIDTH = 4;
+
+// Ink without a color follows the theme, like text
+export const DEFAULT_INK_COLORS = { light: "#0f172a", dark: "#f1f5f9" };
+
+// Coordinates are kept in quarters of a world unit and pressure as one digit
+const COORDINATE_STEPS = 4;
+const PRESSURE_STEPS = 9;
+
+export const isDrawing = (node: Node) => node.node_type === "drawing";
+
+/**
+ * Serialize a stroke as `width,height;x,y,p dx,dy,p ...`
+ */
+export const encodeInkPath = ({ width, height, points }: InkPath) => {
+  const round = (value: number) => Math.round(value * COORDINATE_STEPS);
+  let previous = { x: 0, y: 0 };
+
+  const body = points.map((point) => {
+    const current = { x: round(point.x), y: round(point.y) };
+    const entry = `${current.x - previous.x},${current.y - previous.y},${Math.round(point.pressure * PRESSURE_STEPS)}`;
+    previous = current;
+    return entry;
+  });
+
+  return `${round(width) / COORDINATE_STEPS},${round(height) / COORDINATE_STEPS};${body.join(" ")}`;
+};
+
+/**
+ * Read a stroke back from a drawing's content; null when it isn't one
+ */
+export const decodeInkPath = (content: string | null | undefined): InkPath | null => {
+  const [size, body] = (content || "").split(";");
+  const [width, height] = size.split(",").map(Number);
+  if (!body || !(width > 0) || !(height > 0)) return null;
+
+  const points: InkPoint[] = [];
+  let x = 0;
+  let y = 0;
+  for (const entry of body.split(" ")) {
+    const [dx, dy, pressure] = entry.split(",").map(Number);
+    if ([dx, dy, pressure].some((value) => !Number.isFinite(value))) return null;
+    x += dx;
+    y += dy;
+    points.push({ x: x / COORDINATE_STEPS, y: y / COORDINATE_STEPS, pressure: pressure / PRESSURE_STEPS });
+  }
+
+  return { width, height, points };
+};
+
+/**
+ * Color and nominal width of a drawing. The color is the same `style.color`
+ * notes use, so the minimap and finder pick it up too.
+ */
+export const getInkStyle = (node: Node) => {
+  const { color } = getNodeAppearance(node);
+  const width = Number(parseNodeStyle(node.style).strokeWidth);
+  return { color, width: width > 0 ? width : DEFAULT_INK_WIDTH };
+};
+
+export const getInkColor = (color: NodeColor | undefined, isDark: boolean) =>
+  color ? NODE_COLORS[color].swatch : DEFAULT_INK_COLORS[isDark ? "dark" : "light"];
+
+const distanceToSegment = (point: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+};
+
+/**
+ * Even out pointer jitter with a moving average, keeping both ends in place
+ */
+export const smoothStroke = (points: InkPoint[], radius = 2): InkPoint[] =>
+  points.map((point, index) => {
+    if (index === 0 || index === points.length - 1) return point;
+    const window = points.slice(Math.max(0, index - radius), index + radius + 1);
+    const average = (key: keyof InkPoint) => window.reduce((sum, p) => sum + p[key], 0) / window.length;
+    return { x: average("x"), y: average("y"), pressure: average("pressure") };
+  });
+
+/**
+ * Drop points that add less than `tolerance` of detail (Ramer-Douglas-Peucker)
+ */
+export const simplifyStroke = (points: InkPoint[], tolerance: number): InkPoint[] => {
+  if (points.length < 3) return points;
+
+  const keep = points.map((_, index) => index === 0 || index === points.length - 1);
+  const ranges: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (ranges.length > 0) {
+    const [start, end] = ranges.pop() as [number, number];
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        farthest = i;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([start, farthest], [farthest, end]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index]);
+};
+
+// Half the stroke's thickness at a point; harder presses draw thicker lines
+const getRadius = (width: number, pressure: number) => (width / 2) * (0.4 + pressure * 1.2);
+
+const formatPoint = ({ x, y }: Point) => `${+x.toFixed(2)} ${+y.toFixed(2)}`;
+
+// Quadratic curves through the midpoints between consecutive points
+const curveThrough = (points: Point[]) =>
+  points.slice(1, -1).map((point, index) => {
+    const next = points[index + 2];
+    return `Q ${formatPoint(point)} ${formatPoint({ x: (point.x + next.x) / 2, y: (point.y + next.y) / 2 })}`;
+  }).concat(`L ${formatPoint(points[points.length - 1])}`).join(" ");
+
+/**
+ * SVG path data for the filled outline of a stroke, with round ends
+ */
+export const getStrokeOutline = (points: InkPoint[], width: number) => {
+  if (points.length === 0) return "";
+
+  if (points.length === 1) {
+    const { x, y, pressure } = points[0];
+    const r = +getRadius(width, pressure).toFixed(2);
+    return `M ${formatPoint({ x: x - r, y })} a ${r} ${r} 0 1 0 ${r * 2} 0 a ${r} ${r} 0 1 0 ${-r * 2} 0 Z`;
+  }
+
+  const left: Point[] = [];
+  const right: Point[] = [];
+  points.forEach((point, index) => {
+    const previous = points[Math.max(0, index - 1)];
+    const next = points[Math.min(points.length - 1, index + 1)];
+    const dx = next.x - previous.x;
+    const dy = next.y - previous.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const r = getRadius(width, point.pressure);
+    const normal = { x: (-dy / length) * r, y: (dx / length) * r };
+    left.push({ x: point.x + normal.x, y: point.y + normal.y });
+    right.push({ x: point.x - normal.x, y: point.y - normal.y });
+  });
+  right.reverse();
+
+  const startRadius = +getRadius(width, points[0].pressure).toFixed(2);
+  const endRadius = +getRadius(width, points[points.length - 1].pressure).toFixed(2);
+
+  return [
+    `M ${formatPoint(left[0])}`,
+    curveThrough(left),
+    `A ${endRadius} ${endRadius} 0 0 0 ${formatPoint(right[0])}`,
+    curveThrough(right),
+    `A ${startRadius} ${startRadius} 0 0 0 ${formatPoint(left[0])}`,
+    "Z",
+  ].join(" ");
+};
+
+/**
+ * A drawing's outline in the space it was drawn in, along with that space's
+ * size, for painting it outside of React
+ */
+export const getDrawingOutline = (node: Node) => {
+  const path = decodeInkPath(node.content);
+  if (!path) return null;
+  return { width: path.width, height: path.height, d: getStrokeOutline(path.points, getInkStyle(node).width) };
+};
+
+/**
+ * Whether a world-space point is within `radius` of a drawing's ink, given
+ * where the drawing currently is
+ */
+export const hitsInk = (path: InkPath, rect: Rect, inkWidth: number, point: Point, radius: number) => {
+  const scaleX = rect.width / path.width;
+  const scaleY = rect.height / path.height;
+  const world = path.points.map((p) => ({ x: rect.x + p.x * scaleX, y: rect.y + p.y * scaleY }));
+  const reach = radius + (inkWidth / 2) * Math.max(scaleX, scaleY);
+
+  if (world.length === 1) return Math.hypot(point.x - world[0].x, point.y - world[0].y) <= reach;
+  return world.slice(1).some((end, index) => distanceToSegment(point, world[index], end) <= reach);
+};
+
+/**
+ * Turn a finished world-space stroke into the row of a drawing node that
+ * sits on the stroke's bounds
+ */
+export const createDrawingRow = (
+  canvasId: string,
+  points: InkPoint[],
+  { color, width }: { color: NodeColor | null; width: number }
+): TablesInsert<"nodes"> => {
+  const padding = getRadius(width, 1) + 1;
+  const minX = Math.min(...points.map((p) => p.x)) - padding;
+  const minY = Math.min(...points.map((p) => p.y)) - padding;
+  // Sized in the same steps as the encoded path so the two match exactly
+  const toStep = (value: number) => Math.ceil(value * COORDINATE_STEPS) / COORDINATE_STEPS;
+  const size = {
+    width: toStep(Math.max(...points.map((p) => p.x)) + padding - minX),
+    height: toStep(Math.max(...points.map((p) => p.y)) + padding - minY),
+  };
+
+  return {
+    canvas_id: canvasId,
+    node_type: "drawing",
+    content: encodeInkPath({
+      ...size,
+      points: points.map((p) => ({ x: p.x - minX, y: p.y - minY, pressure: p.pressure })),
+    }),
+    position: { x: minX, y: minY },
+    dimensions: size,
+    style: { strokeWidth: width, ...(color && { color }) },
+  };
+};
+
+const INK_STORAGE_KEY = "slate-ink";
+
+const loadInkSettings = (): { color: NodeColor | null; width: number } => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(INK_STORAGE_KEY) || "null");
+    if (stored && INK_WIDTHS.includes(stored.width)) {
+      return { color: stored.color in NODE_COLORS ? stored.color : null, width: stored.width };
+    }
+  } catch (e) {
+    console.error("Error loading ink settings:", e);
+  }
+  return { color: null, width: DEFAULT_INK_WIDTH };
+};
+
+interface InkState {
+  // Tool the pointer draws or erases with; null outside drawing mode
+  tool: InkTool | null;
+  color: NodeColor | null;
+  width: number;
+  setTool: (tool: InkTool | null) => void;
+  setColor: (color: NodeColor | null) => void;
+  setWidth: (width: number) => void;
+}
+
+export const useInkStore = create<InkState>((set, get) => {
+  const persist = (changes: Partial<Pick<InkState, "color" | "width">>) => {
+    const { color, width } = { ...get(), ...changes };
+    localStorage.setItem(INK_STORAGE_KEY, JSON.stringify({ color, width }));
+    set(changes);
+  };
+
+  return {
+    tool: null,
+    ...loadInkSettings(),
+    setTool: (tool) => set({ tool }),
+    setColor: (color) => persist({ color }),
+    setWidth: (width) => persist({ width }),
+  };
+});
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { makeEdge, makeNode } from "@/test/fixtures";
+import { uploadCanvasFile } from "@/lib/canvas-files";
+import { insertNodes } from "@/lib/node-mutations";
+import { fromCanvasColor, importJsonCanvas, parseJsonCanvas, toJsonCanvas } from "@/lib/json-canvas";
+
+vi.mock("@/lib/node-mutations", () => ({ insertNodes: vi.fn() }));
+
+vi.mock("@/lib/canvas-files", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/canvas-files")>()),
+  uploadCanvasFile: vi.fn(),
+}));
+
+const canvasFile = (doc: unknown) => new File([JSON.stringify(doc)], "board.canvas");
+
+const importOptions = { canvasId: "canvas", code: "code", place: () => ({ x: 1000, y: 500 }) };
+
+beforeEach(() => {
+  vi.mocked(insertNodes).mockReset();
+  vi.mocked(uploadCanvasFile).mockReset();
+});
+
+describe("toJsonCanvas", () => {
+  it("converts nodes and connectors, reporting what doesn't carry over", () => {
+    const nodes = [
+      makeNode("note", { position: { x: 10.4, y: -20.6 }, style: { color: "red" } }),
+      makeNode("frame", { node_type: "frame", content: " Ideas ", style: { collapsed: true, color: "blue" } }),
+      makeNode("photo", { node_type: "image", file_path: "code/123-photo.png", file_name: "photo.png" }),
+      makeNode("sketch", { node_type: "drawing" }),
+    ];
+    const edges = [
+      makeEdge("arrow", "note", "photo", { label: "see", line_style: "dashed" }),
+      makeEdge("to-sketch", "note", "sketch"),
+    ];
+
+    const { canvas, report } = toJsonCanvas(nodes, edges);
+
+    expect(canvas.nodes).toEqual([
+      { id: "note", type: "text", text: "note", x: 10, y: -21, width: 100, height: 100, color: "1" },
+      { id: "frame", type: "group", label: "Ideas", x: 0, y: 0, width: 100, height: 100, color: "#3b82f6" },
+      { id: "photo", type: "file", file: "photo.png", x: 0, y: 0, width: 100, height: 100 },
+    ]);
+    expect(canvas.edges).toEqual([
+      { id: "arrow", fromNode: "note", fromEnd: "none", toNode: "photo", toEnd: "arrow", label: "see" },
+    ]);
+    expect(report).toEqual({
+      nodes: 3,
+      edges: 1,
+      issues: [
+        "1 collapsed frame exported expanded",
+        "1 file is referenced by name only; download them into the root of your vault",
+        "1 drawing skipped, since JSON Canvas has no freehand ink",
+        "1 dashed or dotted connector exported as solid lines",
+      ],
+    });
+  });
+});
+
+describe("parseJsonCanvas", () => {
+  it("accepts documents without nodes or edges", () => {
+    expect(parseJsonCanvas("{}")).toEqual({ nodes: [], edges: [] });
+  });
+
+  it("rejects malformed documents", () => {
+    expect(() => parseJsonCanvas("not json")).toThrow("isn't valid JSON Canvas");
+    expect(() => parseJsonCanvas('{"nodes": {}}')).toThrow("isn't valid JSON Canvas");
+    expect(() => parseJsonCanvas('{"nodes": [{"id": "a", "type": "text", "x": 0, "y": 0, "width": 10}]}'))
+      .toThrow("isn't valid JSON Canvas");
+    expect(() => parseJsonCanvas('{"edges": [{"id": "e", "fromNode": "a"}]}')).toThrow("isn't valid JSON Canvas");
+  });
+});
+
+describe("fromCanvasColor", () => {
+  it("maps presets and matches hex colors to the nearest swatch", () => {
+    expect(fromCanvasColor("5")).toEqual({ color: "teal", exact: true });
+    expect(fromCanvasColor("#3B82F6")).toEqual({ color: "blue", exact: true });
+    expect(fromCanvasColor("#f0f")).toEqual({ color: "pink", exact: false });
+    expect(fromCanvasColor("7")).toBeNull();
+    expect(fromCanvasColor("tomato")).toBeNull();
+  });
+});
+
+describe("importJsonCanvas", () => {
+  it("places content, keeps colors and nests nodes inside groups", async () => {
+    const doc = {
+      nodes: [
+        { id: "group", type: "group", label: "Trip", x: -100, y: -100, width: 800, height: 600 },
+        { id: "note", type: "text", text: "Pack", x: 0, y: 0, width: 250, height: 150, color: "#ff0000" },
+        { id: "outside", type: "link", url: "https://example.com", x: 900, y: 0, width: 250, height: 150 },
+        { id: "mystery", type: "widget", x: 0, y: 0, width: 10, height: 10 },
+      ],
+      edges: [
+        { id: "e1", fromNode: "note", toNode: "outside", color: "2", toEnd: "none" },
+        { id: "e2", fromNode: "note", toNode: "mystery" },
+      ],
+    };
+
+    const report = await importJsonCanvas(canvasFile(doc), [], importOptions);
+    const [nodes, edges] = vi.mocked(insertNodes).mock.calls[0];
+    const [group, note, link] = nodes;
+
+    expect(group).toMatchObject({ node_type: "frame", content: "Trip", position: { x: 1000, y: 500 } });
+    expect(note).toMatchObject({ content: "Pack", position: { x: 1100, y: 600 }, style: { color: "red" } });
+    expect(note.parent_id).toBe(group.id);
+    expect(link).toMatchObject({ content: "[https://example.com](https://example.com)", parent_id: null });
+    expect(edges).toEqual([
+      expect.objectContaining({ source_id: note.id, target_id: link.id, arrow_start: false, arrow_end: false }),
+    ]);
+    expect(report.issues).toEqual([
+      "1 node of an unknown type skipped",
+      "1 custom color matched to the nearest Slate color",
+      "1 link node turned into text notes",
+      "1 connector color dropped, since Slate connectors have no colors",
+      "1 connector to missing nodes skipped",
+    ]);
+  });
+
+  it("uploads each attached file once and turns missing ones into notes", async () => {
+    vi.mocked(uploadCanvasFile).mockResolvedValue("code/1-photo.png");
+    const doc = {
+      nodes: [
+        { id: "a", type: "file", file: "assets/photo.png", x: 0, y: 0, width: 300, height: 300 },
+        { id: "b", type: "file", file: "photo.png", subpath: "#crop", x: 400, y: 0, width: 300, height: 300 },
+        { id: "c", type: "file", file: "notes/plan.md", x: 0, y: 400, width: 300, height: 300 },
+        { id: "d", type: "file", file: "missing.pdf", x: 400, y: 400, width: 300, height: 300 },
+      ],
+    };
+    const attachments = [
+      new File(["png"], "photo.png", { type: "image/png" }),
+      new File(["# Plan"], "plan.md", { type: "text/markdown" }),
+    ];
+
+    const report = await importJsonCanvas(canvasFile(doc), attachments, importOptions);
+    const [nodes] = vi.mocked(insertNodes).mock.calls[0];
+
+    expect(uploadCanvasFile).toHaveBeenCalledTimes(1);
+    expect(nodes.map((node) => [node.node_type, node.file_path ?? node.content])).toEqual([
+      ["image", "code/1-photo.png"],
+      ["image", "code/1-photo.png"],
+      ["text", "# Plan"],
+      ["text", "📎 missing.pdf"],
+    ]);
+    expect(report.issues).toEqual([
+      "1 link to a heading or block now points to the whole file",
+      "1 file node had no matching file selected and became a text note",
+    ]);
+  });
+});
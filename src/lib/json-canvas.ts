@@ -0,0 +1,383 @@
+import type { Edge, Node } from "@/types";
+import { getFileNodeType, uploadCanvasFile } from "@/lib/canvas-files";
+import { findContainingFrame, getFrameRect, getFrameTitle, isFrame, isFrameCollapsed } from "@/lib/frames";
+import { getMinNodeSize, getNodeRect, Point, Rect, Size } from "@/lib/geometry";
+import { insertNodes } from "@/lib/node-mutations";
+import { getNodeAppearance, NODE_COLORS, NodeColor } from "@/lib/node-style";
+import { kanbanToMarkdown, parseKanbanBoard } from "@/lib/kanban";
+
+/**
+ * Conversion between Slate canvases and JSON Canvas (https://jsoncanvas.org),
+ * the open format behind Obsidian's `.canvas` files. Anything that has no
+ * counterpart on the other side is listed in a conversion report.
+ */
+
+interface JsonCanvasBase {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+}
+
+export type JsonCanvasNode = JsonCanvasBase & (
+  | { type: "text"; text: string }
+  | { type: "file"; file: string; subpath?: string }
+  | { type: "link"; url: string }
+  | { type: "group"; label?: string; background?: string; backgroundStyle?: string }
+);
+
+export interface JsonCanvasEdge {
+  id: string;
+  fromNode: string;
+  fromSide?: string;
+  fromEnd?: "none" | "arrow";
+  toNode: string;
+  toSide?: string;
+  toEnd?: "none" | "arrow";
+  color?: string;
+  label?: string;
+}
+
+export interface JsonCanvas {
+  nodes?: JsonCanvasNode[];
+  edges?: JsonCanvasEdge[];
+}
+
+export interface ConversionReport {
+  nodes: number;
+  edges: number;
+  issues: string[];
+}
+
+const count = (n: number, singular: string, plural = `${singular}s`) =>
+  `${n} ${n === 1 ? singular : plural}`;
+
+const ISSUES = {
+  edgeColors: (n: number) => `${count(n, "connector color")} dropped, since Slate connectors have no colors`,
+  customColors: (n: number) => `${count(n, "custom color")} matched to the nearest Slate color`,
+  collapsedFrames: (n: number) => `${count(n, "collapsed frame")} exported expanded`,
+  exportedFiles: (n: number) =>
+    `${count(n, "file is", "files are")} referenced by name only; download them into the root of your vault`,
+  emptyFiles: (n: number) => `${count(n, "file node")} without a file skipped`,
+  drawings: (n: number) => `${count(n, "drawing")} skipped, since JSON Canvas has no freehand ink`,
+  shapes: (n: number) => `${count(n, "shape")} exported as text notes with their label`,
+  boards: (n: number) => `${count(n, "kanban board")} exported as text notes listing their cards`,
+  lineStyles: (n: number) => `${count(n, "dashed or dotted connector")} exported as solid lines`,
+  links: (n: number) => `${count(n, "link node")} turned into text notes`,
+  missingAttachments: (n: number) =>
+    `${count(n, "file node")} had no matching file selected and became a text note`,
+  failedUploads: (n: number) => `${count(n, "file")} couldn't be uploaded and became a text note`,
+  subpaths: (n: number) => `${count(n, "link")} to a heading or block now point${n === 1 ? "s" : ""} to the whole file`,
+  backgrounds: (n: number) => `${count(n, "group background")} dropped`,
+  unknownNodes: (n: number) => `${count(n, "node")} of an unknown type skipped`,
+  danglingEdges: (n: number) => `${count(n, "connector")} to missing nodes skipped`,
+};
+
+type Issue = keyof typeof ISSUES;
+
+const createReport = () => {
+  const issues = new Map<Issue, number>();
+  return {
+    note: (issue: Issue) => issues.set(issue, (issues.get(issue) ?? 0) + 1),
+    build: (nodes: number, edges: number): ConversionReport => ({
+      nodes,
+      edges,
+      issues: Array.from(issues, ([issue, n]) => ISSUES[issue](n)),
+    }),
+  };
+};
+
+const fileName = (path: string) => path.split("/").pop() || path;
+
+// JSON Canvas' preset colors; the rest of Slate's are written as hex
+const PRESET_COLORS: Record<string, NodeColor> = {
+  "1": "red",
+  "2": "orange",
+  "3": "yellow",
+  "4": "green",
+  "5": "teal",
+  "6": "purple",
+};
+
+const toCanvasColor = (color: NodeColor) =>
+  Object.keys(PRESET_COLORS).find((preset) => PRESET_COLORS[preset] === color) ?? NODE_COLORS[color].swatch;
+
+const parseHex = (hex: string) => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].replace(/./g, "$&$&") : match[1];
+  return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16));
+};
+
+/**
+ * The Slate color for a JSON Canvas color: a preset, or the color whose
+ * swatch is nearest to a hex value. `exact` is false for the latter unless
+ * it was one of Slate's own swatches.
+ */
+export const fromCanvasColor = (value: string): { color: NodeColor; exact: boolean } | null => {
+  if (value in PRESET_COLORS) return { color: PRESET_COLORS[value], exact: true };
+
+  const rgb = parseHex(value);
+  if (!rgb) return null;
+
+  const distance = (color: NodeColor) => {
+    const swatch = parseHex(NODE_COLORS[color].swatch) as number[];
+    return swatch.reduce((sum, channel, i) => sum + (channel - rgb[i]) ** 2, 0);
+  };
+  const nearest = (Object.keys(NODE_COLORS) as NodeColor[])
+    .reduce((best, color) => (distance(color) < distance(best) ? color : best));
+  return { color: nearest, exact: distance(nearest) === 0 };
+};
+
+const isMarkdown = (name: string) => /\.(md|markdown)$/i.test(name);
+
+/**
+ * Convert a canvas to JSON Canvas. Files are referenced by their original
+ * name, as the format has no way to embed them.
+ */
+export const toJsonCanvas = (nodes: Node[], edges: Edge[]) => {
+  const report = createReport();
+  const exported = new Set<string>();
+  const canvasNodes: JsonCanvasNode[] = [];
+
+  nodes.forEach((node) => {
+    // Coordinates are integers in JSON Canvas
+    const rect = isFrame(node) ? getFrameRect(node) : getNodeRect(node);
+    const { color } = getNodeAppearance(node);
+    const base = {
+      id: node.id,
+      x: Math.round(rect.x),
+      y: Math.round(rect.y),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+      ...(color && { color: toCanvasColor(color) }),
+    };
+
+    if (node.node_type === "text") {
+      canvasNodes.push({ ...base, type: "text", text: node.content ?? "" });
+    } else if (node.node_type === "shape") {
+      report.note("shapes");
+      canvasNodes.push({ ...base, type: "text", text: node.content ?? "" });
+    } else if (node.node_type === "kanban") {
+      report.note("boards");
+      canvasNodes.push({ ...base, type: "text", text: kanbanToMarkdown(parseKanbanBoard(node.content)) });
+    } else if (node.node_type === "frame") {
+      if (isFrameCollapsed(node)) report.note("collapsedFrames");
+      canvasNodes.push({ ...base, type: "group", label: getFrameTitle(node) });
+    } else if (node.node_type === "drawing") {
+      report.note("drawings");
+      return;
+    } else if (node.file_path) {
+      report.note("exportedFiles");
+      canvasNodes.push({ ...base, type: "file", file: node.file_name || fileName(node.file_path) });
+    } else {
+      report.note("emptyFiles");
+      return;
+    }
+    exported.add(node.id);
+  });
+
+  // Connectors to trashed nodes are left out silently
+  const canvasEdges: JsonCanvasEdge[] = edges
+    .filter((edge) => exported.has(edge.source_id) && exported.has(edge.target_id))
+    .map((edge) => {
+      if (edge.line_style !== "solid") report.note("lineStyles");
+      return {
+        id: edge.id,
+        fromNode: edge.source_id,
+        fromEnd: edge.arrow_start ? "arrow" : "none",
+        toNode: edge.target_id,
+        toEnd: edge.arrow_end ? "arrow" : "none",
+        ...(edge.label && { label: edge.label }),
+      };
+    });
+
+  return {
+    canvas: { nodes: canvasNodes, edges: canvasEdges } as JsonCanvas,
+    report: report.build(canvasNodes.length, canvasEdges.length),
+  };
+};
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Parse and sanity-check the contents of a `.canvas` file
+ */
+export const parseJsonCanvas = (text: string): JsonCanvas => {
+  let doc: JsonCanvas;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON Canvas");
+  }
+
+  const nodes = doc?.nodes ?? [];
+  const edges = doc?.edges ?? [];
+  const valid =
+    Array.isArray(nodes) &&
+    Array.isArray(edges) &&
+    nodes.every((node) =>
+      typeof node?.id === "string" &&
+      typeof node.type === "string" &&
+      isNumber(node.x) && isNumber(node.y) && isNumber(node.width) && isNumber(node.height)
+    ) &&
+    edges.every((edge) =>
+      typeof edge?.id === "string" && typeof edge.fromNode === "string" && typeof edge.toNode === "string"
+    );
+
+  if (!valid) throw new Error("This file isn't valid JSON Canvas");
+  return { nodes, edges };
+};
+
+const getBounds = (nodes: JsonCanvasNode[]): Rect => {
+  if (nodes.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const minX = Math.min(...nodes.map((node) => node.x));
+  const minY = Math.min(...nodes.map((node) => node.y));
+  const maxX = Math.max(...nodes.map((node) => node.x + node.width));
+  const maxY = Math.max(...nodes.map((node) => node.y + node.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+interface ImportOptions {
+  canvasId: string;
+  code: string;
+  // Where to put the top-left corner of the imported content
+  place: (size: Size) => Point;
+}
+
+/**
+ * Add the contents of a `.canvas` file to a canvas. File nodes are matched
+ * by name against `attachments`: markdown notes become text notes, other
+ * files are uploaded.
+ */
+export const importJsonCanvas = async (
+  canvasFile: File,
+  attachments: File[],
+  { canvasId, code, place }: ImportOptions
+): Promise<ConversionReport> => {
+  const doc = parseJsonCanvas(await canvasFile.text());
+  const report = createReport();
+  const now = new Date().toISOString();
+
+  const canvasNodes = (doc.nodes ?? []).filter((node) => {
+    const known = ["text", "file", "link", "group"].includes(node.type);
+    if (!known) report.note("unknownNodes");
+    return known;
+  });
+  const bounds = getBounds(canvasNodes);
+  const origin = place({ width: bounds.width, height: bounds.height });
+
+  const attachmentsByName = new Map(attachments.map((file) => [file.name, file]));
+  // Several nodes may show the same file, which only needs uploading once
+  const uploads = new Map<string, Promise<string>>();
+
+  const toNode = async (source: JsonCanvasNode): Promise<Node> => {
+    const color = source.color ? fromCanvasColor(source.color) : null;
+    if (color && !color.exact) report.note("customColors");
+
+    const base = {
+      id: crypto.randomUUID(),
+      canvas_id: canvasId,
+      position: { x: source.x - bounds.x + origin.x, y: source.y - bounds.y + origin.y },
+      ...(color && { style: { color: color.color } }),
+      created_at: now,
+      updated_at: now,
+    };
+    const withSize = (node_type: Node["node_type"]) => {
+      const min = getMinNodeSize(node_type);
+      return {
+        ...base,
+        node_type,
+        dimensions: {
+          width: Math.max(min.width, source.width),
+          height: Math.max(min.height, source.height),
+        },
+      };
+    };
+
+    switch (source.type) {
+      case "text":
+        return { ...withSize("text"), content: source.text ?? "" };
+      case "link":
+        report.note("links");
+        return { ...withSize("text"), content: `[${source.url}](${source.url})` };
+      case "group":
+        if (source.background) report.note("backgrounds");
+        return { ...withSize("frame"), content: source.label?.trim() || "Untitled frame" };
+      case "file": {
+        if (source.subpath) report.note("subpaths");
+        const name = fileName(source.file);
+        const attachment = attachmentsByName.get(name);
+
+        if (attachment && isMarkdown(name)) {
+          return { ...withSize("text"), content: await attachment.text() };
+        }
+        if (attachment) {
+          if (!uploads.has(name)) uploads.set(name, uploadCanvasFile(code, attachment, name));
+          try {
+            const path = await (uploads.get(name) as Promise<string>);
+            return {
+              ...withSize(getFileNodeType(attachment.type)),
+              file_path: path,
+              file_name: name,
+              file_type: attachment.type,
+            };
+          } catch (error) {
+            console.error(`Error uploading ${name}:`, error);
+            report.note("failedUploads");
+          }
+        } else {
+          report.note("missingAttachments");
+        }
+        return { ...withSize("text"), content: `📎 ${source.file}` };
+      }
+    }
+  };
+
+  const nodes: Node[] = [];
+  const ids = new Map<string, string>();
+  for (const source of canvasNodes) {
+    const node = await toNode(source);
+    ids.set(source.id, node.id);
+    nodes.push(node);
+  }
+
+  // JSON Canvas groups contain whatever lies inside them
+  const frames = nodes
+    .filter((node) => node.node_type === "frame")
+    .map((node) => ({ id: node.id, rect: getNodeRect(node) }));
+  nodes.forEach((node) => {
+    if (node.node_type !== "frame") node.parent_id = findContainingFrame(getNodeRect(node), frames);
+  });
+
+  const edges: Edge[] = [];
+  (doc.edges ?? []).forEach((source) => {
+    const sourceId = ids.get(source.fromNode);
+    const targetId = ids.get(source.toNode);
+    if (!sourceId || !targetId) {
+      report.note("danglingEdges");
+      return;
+    }
+    if (source.color) report.note("edgeColors");
+
+    // Slate attaches connectors to the nearest side itself, so fromSide and
+    // toSide aren't needed
+    edges.push({
+      id: crypto.randomUUID(),
+      canvas_id: canvasId,
+      source_id: sourceId,
+      target_id: targetId,
+      label: source.label || null,
+      arrow_start: source.fromEnd === "arrow",
+      arrow_end: source.toEnd !== "none",
+      line_style: "solid",
+      created_at: now,
+      updated_at: now,
+    });
+  });
+
+  await insertNodes(nodes, edges);
+  return report.build(nodes.length, edges.length);
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+import { makeNode } from "@/test/fixtures";
+import {
+  explodeKanbanBoard,
+  getKanbanText,
+  KanbanBoard,
+  kanbanToMarkdown,
+  moveKanbanCard,
+  parseKanbanBoard,
+  serializeKanbanBoard,
+  updateKanbanCard,
+} from "@/lib/kanban";
+
+const makeBoard = (): KanbanBoard => ({
+  columns: [
+    {
+      id: "todo",
+      title: "To do",
+      cards: [
+        { id: "a", text: "Book flights", color: "red", assignee: "Sam" },
+        { id: "b", text: "Pack\nbags" },
+        { id: "c", text: "" },
+      ],
+    },
+    { id: "done", title: "", cards: [] },
+  ],
+});
+
+const cardIds = (board: KanbanBoard) => board.columns.map((column) => column.cards.map((card) => card.id));
+
+describe("parseKanbanBoard", () => {
+  it("round-trips a serialized board", () => {
+    expect(parseKanbanBoard(serializeKanbanBoard(makeBoard()))).toEqual(makeBoard());
+  });
+
+  it("drops malformed columns, cards and fields", () => {
+    const content = JSON.stringify({
+      columns: [
+        { id: "todo", title: 3, cards: [{ id: "a", text: "Ok", color: "plaid", assignee: "  " }, { text: "No id" }] },
+        { title: "No id" },
+        null,
+      ],
+    });
+
+    expect(parseKanbanBoard(content)).toEqual({ columns: [{ id: "todo", title: "", cards: [{ id: "a", text: "Ok" }] }] });
+  });
+
+  it("gives an empty board for unreadable content", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    expect(parseKanbanBoard("")).toEqual({ columns: [] });
+    expect(parseKanbanBoard("not json")).toEqual({ columns: [] });
+    expect(parseKanbanBoard('{"columns": {}}')).toEqual({ columns: [] });
+    error.mockRestore();
+  });
+});
+
+describe("moveKanbanCard", () => {
+  it("counts the index without the moved card", () => {
+    expect(cardIds(moveKanbanCard(makeBoard(), "a", "todo", 0))).toEqual([["a", "b", "c"], []]);
+    expect(cardIds(moveKanbanCard(makeBoard(), "a", "todo", 1))).toEqual([["b", "a", "c"], []]);
+    expect(cardIds(moveKanbanCard(makeBoard(), "a", "todo", 99))).toEqual([["b", "c", "a"], []]);
+  });
+
+  it("moves cards between columns", () => {
+    expect(cardIds(moveKanbanCard(makeBoard(), "b", "done", 0))).toEqual([["a", "c"], ["b"]]);
+  });
+
+  it("ignores unknown cards", () => {
+    const board = makeBoard();
+    expect(moveKanbanCard(board, "missing", "done", 0)).toBe(board);
+  });
+});
+
+describe("updateKanbanCard", () => {
+  it("drops cleared fields instead of storing them empty", () => {
+    const board = updateKanbanCard(makeBoard(), "a", { color: undefined, assignee: " " });
+
+    expect(board.columns[0].cards[0]).toEqual({ id: "a", text: "Book flights" });
+  });
+});
+
+describe("getKanbanText", () => {
+  it("lists column titles, card text and assignees", () => {
+    expect(getKanbanText(makeBoard())).toBe("To do\nBook flights\nSam\nPack\nbags");
+  });
+});
+
+describe("kanbanToMarkdown", () => {
+  it("writes a heading per column and a list item per card", () => {
+    expect(kanbanToMarkdown(makeBoard(), 3)).toBe([
+      "### To do",
+      "",
+      "- Book flights (@Sam)\n- Pack bags\n- Untitled card",
+      "",
+      "### Untitled column",
+      "",
+      "_No cards_",
+    ].join("\n"));
+  });
+});
+
+describe("explodeKanbanBoard", () => {
+  it("lays columns out as frames holding a note per card", () => {
+    const node = makeNode("board", { node_type: "kanban", content: serializeKanbanBoard(makeBoard()) });
+    const place = vi.fn(() => ({ x: 100, y: 200 }));
+
+    const [todo, flights, pack, untitled, done] = explodeKanbanBoard(node, place);
+
+    // Two 320 wide frames with a gap, tall enough for three cards
+    expect(place).toHaveBeenCalledWith({ width: 664, height: 548 });
+    expect(todo).toMatchObject({ node_type: "frame", content: "To do", position: { x: 100, y: 200 }, parent_id: null });
+    expect(done).toMatchObject({ node_type: "frame", content: "Untitled column", position: { x: 444, y: 200 } });
+    expect(flights).toMatchObject({
+      content: "Book flights\n\n**Assignee:** Sam",
+      position: { x: 120, y: 260 },
+      style: { color: "red" },
+      parent_id: todo.id,
+    });
+    expect(pack).toMatchObject({ content: "Pack\nbags", position: { x: 120, y: 424 }, parent_id: todo.id });
+    expect(untitled.content).toBe("");
+  });
+});
@@ -0,0 +1,223 @@
+import type { Node } from "@/types";
+import type { Point, Size } from "@/lib/geometry";
+import { NODE_COLORS, NodeColor } from "@/lib/node-style";
+
+/**
+ * Kanban boards. A `kanban` node keeps its columns and cards as JSON in its
+ * content, so a board moves, copies and syncs like any other node. Every
+ * change replaces the whole board.
+ */
+
+export interface KanbanCard {
+  id: string;
+  text: string;
+  color?: NodeColor;
+  assignee?: string;
+}
+
+export interface KanbanColumn {
+  id: string;
+  title: string;
+  cards: KanbanCard[];
+}
+
+export interface KanbanBoard {
+  columns: KanbanColumn[];
+}
+
+export const DEFAULT_KANBAN_COLUMNS = ["To do", "In progress", "Done"];
+export const DEFAULT_KANBAN_SIZE: Size = { width: 760, height: 480 };
+
+export const isKanban = (node: Node) => node.node_type === "kanban";
+
+export const createKanbanBoard = (titles = DEFAULT_KANBAN_COLUMNS): KanbanBoard => ({
+  columns: titles.map((title) => ({ id: crypto.randomUUID(), title, cards: [] })),
+});
+
+const parseCard = (value: unknown): KanbanCard | null => {
+  if (!value || typeof value !== "object") return null;
+  const { id, text, color, assignee } = value as Record<string, unknown>;
+  if (typeof id !== "string") return null;
+  return {
+    id,
+    text: typeof text === "string" ? text : "",
+    ...(typeof color === "string" && color in NODE_COLORS && { color: color as NodeColor }),
+    ...(typeof assignee === "string" && assignee.trim() && { assignee: assignee.trim() }),
+  };
+};
+
+const parseColumn = (value: unknown): KanbanColumn | null => {
+  if (!value || typeof value !== "object") return null;
+  const { id, title, cards } = value as Record<string, unknown>;
+  if (typeof id !== "string") return null;
+  return {
+    id,
+    title: typeof title === "string" ? title : "",
+    cards: Array.isArray(cards) ? cards.map(parseCard).filter((card): card is KanbanCard => !!card) : [],
+  };
+};
+
+/**
+ * Read a board from a node's content. Anything unreadable, such as a new
+ * node's empty content, gives an empty board with no columns.
+ */
+export const parseKanbanBoard = (content: string | null | undefined): KanbanBoard => {
+  try {
+    const parsed = JSON.parse(content || "null");
+    if (parsed && Array.isArray(parsed.columns)) {
+      return {
+        columns: parsed.columns.map(parseColumn).filter((column: KanbanColumn | null): column is KanbanColumn => !!column),
+      };
+    }
+  } catch (e) {
+    console.error("Error parsing kanban board:", e);
+  }
+  return { columns: [] };
+};
+
+export const serializeKanbanBoard = (board: KanbanBoard) => JSON.stringify(board);
+
+const mapColumns = (board: KanbanBoard, update: (column: KanbanColumn) => KanbanColumn): KanbanBoard => ({
+  columns: board.columns.map(update),
+});
+
+export const addKanbanColumn = (board: KanbanBoard, title: string): KanbanBoard => ({
+  columns: [...board.columns, { id: crypto.randomUUID(), title, cards: [] }],
+});
+
+export const renameKanbanColumn = (board: KanbanBoard, columnId: string, title: string) =>
+  mapColumns(board, (column) => (column.id === columnId ? { ...column, title } : column));
+
+export const removeKanbanColumn = (board: KanbanBoard, columnId: string): KanbanBoard => ({
+  columns: board.columns.filter((column) => column.id !== columnId),
+});
+
+/**
+ * Add a card to the bottom of a column; returns the board and the new card
+ */
+export const addKanbanCard = (board: KanbanBoard, columnId: string, text = "") => {
+  const card: KanbanCard = { id: crypto.randomUUID(), text };
+  return {
+    board: mapColumns(board, (column) =>
+      column.id === columnId ? { ...column, cards: [...column.cards, card] } : column
+    ),
+    card,
+  };
+};
+
+export const updateKanbanCard = (board: KanbanBoard, cardId: string, changes: Partial<Omit<KanbanCard, "id">>) =>
+  mapColumns(board, (column) => ({
+    ...column,
+    cards: column.cards.map((card) => {
+      if (card.id !== cardId) return card;
+      const next = { ...card, ...changes };
+      // Cleared fields are dropped rather than stored empty
+      if (!next.color) delete next.color;
+      if (!next.assignee?.trim()) delete next.assignee;
+      return next;
+    }),
+  }));
+
+export const removeKanbanCard = (board: KanbanBoard, cardId: string) =>
+  mapColumns(board, (column) => ({ ...column, cards: column.cards.filter((card) => card.id !== cardId) }));
+
+/**
+ * Move a card to `index` in a column, counted among that column's cards
+ * without the moved one, so dropping a card where it was changes nothing
+ */
+export const moveKanbanCard = (board: KanbanBoard, cardId: string, columnId: string, index: number) => {
+  const card = board.columns.flatMap((column) => column.cards).find((c) => c.id === cardId);
+  if (!card) return board;
+
+  return mapColumns(removeKanbanCard(board, cardId), (column) => {
+    if (column.id !== columnId) return column;
+    const cards = [...column.cards];
+    cards.splice(Math.max(0, Math.min(index, cards.length)), 0, card);
+    return { ...column, cards };
+  });
+};
+
+export const countKanbanCards = (board: KanbanBoard) =>
+  board.columns.reduce((sum, column) => sum + column.cards.length, 0);
+
+/**
+ * Text of every column and card, for searching a board
+ */
+export const getKanbanText = (board: KanbanBoard) =>
+  board.columns
+    .flatMap((column) => [column.title, ...column.cards.flatMap((card) => [card.text, card.assignee ?? ""])])
+    .filter(Boolean)
+    .join("\n");
+
+const describeCard = (card: KanbanCard) =>
+  [card.text.trim().replace(/\s*\n\s*/g, " ") || "Untitled card", card.assignee && `(@${card.assignee})`]
+    .filter(Boolean)
+    .join(" ");
+
+/**
+ * A board as Markdown: one heading per column with its cards as a list
+ */
+export const kanbanToMarkdown = (board: KanbanBoard, level = 2) =>
+  board.columns
+    .map((column) => [
+      `${"#".repeat(level)} ${column.title || "Untitled column"}`,
+      column.cards.length > 0 ? column.cards.map((card) => `- ${describeCard(card)}`).join("\n") : "_No cards_",
+    ].join("\n\n"))
+    .join("\n\n");
+
+// Layout of a board broken up into frames and notes
+const EXPLODED_CARD = { width: 280, height: 140 };
+const EXPLODED_GAP = 24;
+const EXPLODED_PADDING = 20;
+const EXPLODED_HEADER = 60;
+
+const getCardContent = (card: KanbanCard) =>
+  [card.text.trim(), card.assignee && `**Assignee:** ${card.assignee}`].filter(Boolean).join("\n\n");
+
+/**
+ * Turn a board into a frame per column holding a note per card, laid out
+ * like the board and placed wherever `place` finds room for the whole
+ * layout. Cards keep their color; assignees become a line in the note.
+ */
+export const explodeKanbanBoard = (node: Node, place: (size: Size) => Point): Node[] => {
+  const board = parseKanbanBoard(node.content);
+  const tallest = Math.max(1, ...board.columns.map((column) => column.cards.length));
+  const frameSize = {
+    width: EXPLODED_CARD.width + EXPLODED_PADDING * 2,
+    height: EXPLODED_HEADER + tallest * (EXPLODED_CARD.height + EXPLODED_GAP) - EXPLODED_GAP + EXPLODED_PADDING,
+  };
+  const origin = place({
+    width: board.columns.length * (frameSize.width + EXPLODED_GAP) - EXPLODED_GAP,
+    height: frameSize.height,
+  });
+  const now = new Date().toISOString();
+  const base = { canvas_id: node.canvas_id, created_at: now, updated_at: now };
+
+  return board.columns.flatMap((column, columnIndex) => {
+    const frame: Node = {
+      ...base,
+      id: crypto.randomUUID(),
+      node_type: "frame",
+      content: column.title || "Untitled column",
+      position: { x: origin.x + columnIndex * (frameSize.width + EXPLODED_GAP), y: origin.y },
+      dimensions: frameSize,
+      parent_id: null,
+    };
+
+    const cards = column.cards.map((card, cardIndex): Node => ({
+      ...base,
+      id: crypto.randomUUID(),
+      node_type: "text",
+      content: getCardContent(card),
+      position: {
+        x: frame.position.x + EXPLODED_PADDING,
+        y: frame.position.y + EXPLODED_HEADER + cardIndex * (EXPLODED_CARD.height + EXPLODED_GAP),
+      },
+      dimensions: EXPLODED_CARD,
+      ...(card.color && { style: { color: card.color } }),
+      parent_id: frame.id,
+    }));
+
+    return [frame, ...cards];
+  });
+};
@@ -0,0 +1,140 @@
+import { create } from "zustand";
+import { Node } from "@/types";
+import { FileTransform, peekFileUrl } from "@/lib/canvas-files";
+import { getFrameTitle } from "@/lib/frames";
+import { parseKanbanBoard } from "@/lib/kanban";
+
+/**
+ * Level-of-detail settings: how nodes are drawn once the canvas is zoomed
+ * far enough out that their content can't be read anyway
+ */
+
+// full: interactive nodes; placeholder: title line and thumbnail; canvas: one <canvas> for everything
+export type DetailLevel = "full" | "placeholder" | "canvas";
+
+export interface DetailThresholds {
+  // Below this zoom, nodes become lightweight placeholders
+  placeholder: number;
+  // Below this zoom, nodes are painted onto a single canvas layer
+  canvas: number;
+}
+
+export const DEFAULT_DETAIL_THRESHOLDS: DetailThresholds = {
+  placeholder: 0.4,
+  canvas: 0.2,
+};
+
+const THRESHOLDS_STORAGE_KEY = "slate-detail-thresholds";
+
+const loadThresholds = (): DetailThresholds => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(THRESHOLDS_STORAGE_KEY) || "null");
+    if (stored && typeof stored.placeholder === "number" && typeof stored.canvas === "number") {
+      return { placeholder: stored.placeholder, canvas: stored.canvas };
+    }
+  } catch (e) {
+    console.error("Error loading detail thresholds:", e);
+  }
+  return DEFAULT_DETAIL_THRESHOLDS;
+};
+
+interface DetailState {
+  thresholds: DetailThresholds;
+  setThresholds: (thresholds: DetailThresholds) => void;
+}
+
+export const useDetailStore = create<DetailState>((set) => ({
+  thresholds: loadThresholds(),
+  setThresholds: (thresholds) => {
+    // The canvas layer only ever kicks in further out than placeholders
+    const next = { ...thresholds, canvas: Math.min(thresholds.canvas, thresholds.placeholder) };
+    localStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(next));
+    set({ thresholds: next });
+  },
+}));
+
+export const getDetailLevel = (scale: number, thresholds: DetailThresholds): DetailLevel => {
+  if (scale < thresholds.canvas) return "canvas";
+  if (scale < thresholds.placeholder) return "placeholder";
+  return "full";
+};
+
+/**
+ * Colors used to tell node types apart when their content isn't shown
+ */
+export const getNodeTypeColor = (nodeType: string, isDark: boolean) => {
+  switch (nodeType) {
+    case "text":
+      return isDark ? "rgba(96, 165, 250, 0.9)" : "rgba(59, 130, 246, 0.8)";
+    case "image":
+      return isDark ? "rgba(52, 211, 153, 0.9)" : "rgba(16, 185, 129, 0.8)";
+    case "video":
+      return isDark ? "rgba(248, 113, 113, 0.9)" : "rgba(239, 68, 68, 0.8)";
+    case "pdf":
+      return isDark ? "rgba(251, 191, 36, 0.9)" : "rgba(245, 158, 11, 0.8)";
+    default:
+      return isDark ? "rgba(156, 163, 175, 0.9)" : "rgba(107, 114, 128, 0.8)";
+  }
+};
+
+/**
+ * One-line summary of a node: the frame title, the first line of text
+ * (without markdown syntax) or the file name
+ */
+export const getNodeLabel = (node: Node) => {
+  if (node.node_type === "frame") return getFrameTitle(node);
+  if (node.node_type === "drawing") return "Drawing";
+  if (node.node_type === "kanban") {
+    const columns = parseKanbanBoard(node.content).columns.map((column) => column.title).filter(Boolean);
+    return columns.length > 0 ? `Board: ${columns.join(" · ")}` : "Board";
+  }
+  if (node.node_type === "shape") {
+    return (node.content || "").split("\n").map((line) => line.trim()).find(Boolean) || "Shape";
+  }
+  if (node.node_type === "text") {
+    const firstLine = (node.content || "")
+      .split("\n")
+      .map((line) => line.replace(/^[\s#>*\-+`]+|[*_`~]/g, "").trim())
+      .find(Boolean);
+    return firstLine || "Empty note";
+  }
+  return node.file_name || node.node_type;
+};
+
+// Small, low-quality rendition of an image served by storage
+export const THUMBNAIL_TRANSFORM: FileTransform = { width: 200, height: 200, resize: "contain", quality: 40 };
+
+/**
+ * File an image node's thumbnail is made from
+ */
+export const getThumbnailPath = (node: Node) =>
+  node.node_type === "image" && node.file_path ? node.file_path : null;
+
+/**
+ * Signed thumbnail URL of an image node once it is ready; `onReady` fires
+ * when one that wasn't has arrived
+ */
+export const getThumbnailUrl = (node: Node, onReady: () => void) => {
+  const path = getThumbnailPath(node);
+  return path ? peekFileUrl(path, THUMBNAIL_TRANSFORM, onReady) : null;
+};
+
+// Decoded thumbnails kept around for the canvas layer, keyed by URL
+const thumbnailCache = new Map<string, HTMLImageElement>();
+
+/**
+ * Get a cached thumbnail image, starting to load it if needed. Returns null
+ * until the image is ready; `onLoad` fires once it is.
+ */
+export const getCachedThumbnail = (url: string, onLoad: () => void) => {
+  const cached = thumbnailCache.get(url);
+  if (cached) return cached.complete && cached.naturalWidth > 0 ? cached : null;
+
+  const image = new Image();
+  image.crossOrigin = "anonymous";
+  image.decoding = "async";
+  image.onload = onLoad;
+  image.src = url;
+  thumbnailCache.set(url, image);
+  return null;
+};
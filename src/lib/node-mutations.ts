@@ -0,0 +1,358 @@
+import type { Json, TablesInsert } from "@/integrations/supabase/types";
+import type { Edge, Node } from "@/types";
+import type { Point, Size } from "@/lib/geometry";
+import { useHistoryStore } from "@/lib/history";
+import { parseNodeStyle } from "@/lib/node-style";
+import { performMutation } from "@/lib/offline-store";
+import { optimisticWrite, patchCachedNode, queryClient, restoreCachedNodes, trashCachedNodes, upsertCachedEdges, upsertCachedNodes } from "@/lib/query-cache";
+
+/**
+ * Node mutations shared by the canvas components. Every user-facing change
+ * goes through here so it can be recorded on the undo/redo stack. Creates,
+ * moves, resizes and deletes land in the cache first and roll back if the
+ * server rejects them. Deleted nodes go to the canvas' trash; the cleanup
+ * function purges them and their files after a grace period.
+ */
+
+export interface NodeGeometry {
+  position: Point;
+  dimensions: Size;
+  // Frame the node belongs to; left unchanged when undefined
+  parentId?: string | null;
+}
+
+export interface GeometryChange {
+  nodeId: string;
+  before: NodeGeometry;
+  after: NodeGeometry;
+}
+
+const record = useHistoryStore.getState().record;
+
+// Convert a loaded node back into an insertable row, keeping its id
+const toNodeRow = (node: Node): TablesInsert<"nodes"> => ({
+  id: node.id,
+  canvas_id: node.canvas_id,
+  node_type: node.node_type,
+  content: node.content ?? null,
+  position: node.position as unknown as Json,
+  dimensions: node.dimensions as unknown as Json,
+  style: (node.style ?? null) as Json,
+  file_path: node.file_path ?? null,
+  file_name: node.file_name ?? null,
+  file_type: node.file_type ?? null,
+  parent_id: node.parent_id ?? null,
+  created_at: node.created_at,
+  updated_at: node.updated_at,
+});
+
+const insertNodeRows = async (nodes: Node[]) => {
+  if (nodes.length === 0) return;
+
+  await optimisticWrite(
+    nodes.map(node => node.id),
+    () => upsertCachedNodes(nodes),
+    () => performMutation({ kind: 'insert', table: 'nodes', rows: nodes.map(toNodeRow) })
+  );
+};
+
+const trashNodeRows = async (nodes: Node[]) => {
+  if (nodes.length === 0) return;
+
+  const nodeIds = nodes.map(node => node.id);
+  const deletedAt = new Date().toISOString();
+  await optimisticWrite(
+    nodeIds,
+    () => trashCachedNodes(nodes, deletedAt),
+    () => performMutation({ kind: 'update', table: 'nodes', ids: nodeIds, changes: { deleted_at: deletedAt } })
+  );
+};
+
+const restoreNodeRows = async (nodes: Node[]) => {
+  if (nodes.length === 0) return;
+
+  const nodeIds = nodes.map(node => node.id);
+  await optimisticWrite(
+    nodeIds,
+    () => restoreCachedNodes(nodes),
+    () => performMutation({ kind: 'update', table: 'nodes', ids: nodeIds, changes: { deleted_at: null } })
+  );
+};
+
+const writeGeometry = async (updates: Array<{ nodeId: string; geometry: NodeGeometry }>) => {
+  const fieldsOf = (geometry: NodeGeometry) => ({
+    position: geometry.position,
+    dimensions: geometry.dimensions,
+    ...(geometry.parentId !== undefined && { parent_id: geometry.parentId })
+  });
+
+  await optimisticWrite(
+    updates.map(({ nodeId }) => nodeId),
+    () => updates.forEach(({ nodeId, geometry }) => patchCachedNode(nodeId, fieldsOf(geometry))),
+    async () => {
+      await Promise.all(updates.map(({ nodeId, geometry }) =>
+        performMutation({ kind: 'update', table: 'nodes', ids: [nodeId], changes: fieldsOf(geometry) })
+      ));
+    }
+  );
+};
+
+/**
+ * Persist a node's text without recording history
+ */
+export const writeContent = async (nodeId: string, content: string) => {
+  const changes = {
+    content,
+    updated_at: new Date().toISOString()
+  };
+
+  await performMutation({ kind: 'update', table: 'nodes', ids: [nodeId], changes });
+  patchCachedNode(nodeId, changes);
+};
+
+const writeStyle = async (nodeId: string, style: Record<string, unknown>) => {
+  const updatedAt = new Date().toISOString();
+
+  await performMutation({
+    kind: 'update',
+    table: 'nodes',
+    ids: [nodeId],
+    changes: { style, updated_at: updatedAt }
+  });
+  patchCachedNode(nodeId, { style, updated_at: updatedAt });
+};
+
+const writeParents = async (children: Array<{ id: string; parent_id: string | null }>) => {
+  await optimisticWrite(
+    children.map(child => child.id),
+    () => children.forEach(child => patchCachedNode(child.id, { parent_id: child.parent_id })),
+    async () => {
+      await Promise.all(children.map(child =>
+        performMutation({
+          kind: 'update',
+          table: 'nodes',
+          ids: [child.id],
+          changes: { parent_id: child.parent_id }
+        })
+      ));
+    }
+  );
+};
+
+// Deleting a frame detaches its children, so remember them for undo. Read
+// from the cache (kept current by realtime) so this also works offline.
+const getFrameChildren = (canvasId: string, nodeIds: string[]) =>
+  (queryClient.getQueryData<Node[]>(["nodes", canvasId]) || [])
+    .filter(node => node.parent_id && nodeIds.includes(node.parent_id) && !nodeIds.includes(node.id))
+    .map(node => ({ id: node.id, parent_id: node.parent_id as string }));
+
+const detach = (children: Array<{ id: string }>) =>
+  children.map(child => ({ id: child.id, parent_id: null }));
+
+/**
+ * Insert a new node and record it on the history stack. The id and
+ * timestamps are assigned here so the node can be shown before the server
+ * has seen it, and exists even while offline.
+ */
+export const createNode = async (row: TablesInsert<"nodes">): Promise<Node> => {
+  const now = new Date().toISOString();
+  const node = {
+    ...row,
+    id: row.id ?? crypto.randomUUID(),
+    created_at: row.created_at ?? now,
+    updated_at: row.updated_at ?? now
+  } as unknown as Node;
+
+  // The node shows up right away and disappears again if the insert fails
+  await insertNodeRows([node]);
+
+  record({
+    label: `Create ${node.node_type}`,
+    undo: () => trashNodeRows([node]),
+    redo: () => restoreNodeRows([node])
+  });
+
+  return node;
+};
+
+/**
+ * Add a batch of prepared nodes and the connectors between them, e.g. from
+ * an imported file, as a single undoable step
+ */
+export const insertNodes = async (nodes: Node[], edges: Edge[] = []) => {
+  if (nodes.length === 0) return;
+
+  await insertNodeRows(nodes);
+  if (edges.length > 0) {
+    await optimisticWrite(
+      edges.map(edge => edge.id),
+      () => upsertCachedEdges(edges),
+      () => performMutation({ kind: 'insert', table: 'edges', rows: edges.map(edge => ({ ...edge })) })
+    );
+  }
+
+  // Connectors stay behind on undo, like when deleting, and reappear on redo
+  record({
+    label: `Add ${nodes.length} ${nodes.length === 1 ? 'node' : 'nodes'}`,
+    undo: () => trashNodeRows(nodes),
+    redo: () => restoreNodeRows(nodes)
+  });
+};
+
+/**
+ * Move nodes to the trash. Their connectors and files are kept so the
+ * nodes can be restored as they were.
+ */
+export const deleteNodes = async (nodes: Node[]) => {
+  if (nodes.length === 0) return;
+
+  const children = getFrameChildren(nodes[0].canvas_id, nodes.map(node => node.id));
+  const trash = async () => {
+    await trashNodeRows(nodes);
+    await writeParents(detach(children));
+  };
+  await trash();
+
+  record({
+    label: nodes.length === 1 ? `Delete ${nodes[0].node_type}` : `Delete ${nodes.length} nodes`,
+    undo: async () => {
+      await restoreNodeRows(nodes);
+      await writeParents(children);
+    },
+    redo: trash
+  });
+};
+
+/**
+ * Swap nodes for new ones as a single undoable step, e.g. when a board is
+ * broken up into notes
+ */
+export const replaceNodes = async (removed: Node[], added: Node[], label = 'Replace nodes') => {
+  await insertNodeRows(added);
+  await trashNodeRows(removed);
+
+  record({
+    label,
+    undo: async () => {
+      await trashNodeRows(added);
+      await restoreNodeRows(removed);
+    },
+    redo: async () => {
+      await restoreNodeRows(added);
+      await trashNodeRows(removed);
+    }
+  });
+};
+
+/**
+ * Move every node on a canvas to the trash
+ */
+export const clearCanvas = async (nodes: Node[]) => {
+  await trashNodeRows(nodes);
+
+  record({
+    label: 'Clear canvas',
+    undo: () => restoreNodeRows(nodes),
+    redo: () => trashNodeRows(nodes)
+  });
+};
+
+/**
+ * Bring nodes back from the trash to where they were deleted
+ */
+export const restoreNodes = async (nodes: Node[]) => {
+  if (nodes.length === 0) return;
+
+  await restoreNodeRows(nodes);
+
+  record({
+    label: nodes.length === 1 ? `Restore ${nodes[0].node_type}` : `Restore ${nodes.length} nodes`,
+    undo: () => trashNodeRows(nodes),
+    redo: () => restoreNodeRows(nodes)
+  });
+};
+
+/**
+ * Move and/or resize one or more nodes as a single undoable step
+ */
+export const updateNodeGeometry = async (allChanges: GeometryChange[]) => {
+  // A click without movement shouldn't clutter the history
+  const changes = allChanges.filter(({ before, after }) =>
+    before.position.x !== after.position.x ||
+    before.position.y !== after.position.y ||
+    before.dimensions.width !== after.dimensions.width ||
+    before.dimensions.height !== after.dimensions.height ||
+    (after.parentId !== undefined && before.parentId !== after.parentId)
+  );
+  if (changes.length === 0) return;
+
+  await writeGeometry(changes.map(({ nodeId, after }) => ({ nodeId, geometry: after })));
+
+  const isResize = changes.some(({ before, after }) =>
+    before.dimensions.width !== after.dimensions.width ||
+    before.dimensions.height !== after.dimensions.height
+  );
+
+  record({
+    label: isResize ? 'Resize' : 'Move',
+    undo: () => writeGeometry(changes.map(({ nodeId, before }) => ({ nodeId, geometry: before }))),
+    redo: () => writeGeometry(changes.map(({ nodeId, after }) => ({ nodeId, geometry: after })))
+  });
+};
+
+/**
+ * Record a text edit that the node has already saved itself
+ */
+export const recordContentChange = (nodeId: string, before: string, after: string) => {
+  if (before === after) return;
+
+  record({
+    label: 'Edit text',
+    undo: () => writeContent(nodeId, before),
+    redo: () => writeContent(nodeId, after)
+  });
+};
+
+/**
+ * Save a node's content (e.g. a frame title) as an undoable step
+ */
+export const updateNodeContent = async (nodeId: string, before: string, after: string) => {
+  if (before === after) return;
+
+  await writeContent(nodeId, after);
+  recordContentChange(nodeId, before, after);
+};
+
+/**
+ * Merge changes into a node's style as an undoable step
+ */
+export const updateNodeStyle = async (node: Node, changes: Record<string, unknown>, label = 'Change style') => {
+  const before = parseNodeStyle(node.style);
+  const after = { ...before, ...changes };
+
+  await writeStyle(node.id, after);
+  record({
+    label,
+    undo: () => writeStyle(node.id, before),
+    redo: () => writeStyle(node.id, after)
+  });
+};
+
+/**
+ * Merge the same changes into the style of several nodes, e.g. a colored
+ * selection, as one undoable step
+ */
+export const updateNodesStyle = async (nodes: Node[], changes: Record<string, unknown>, label = 'Change style') => {
+  if (nodes.length === 0) return;
+
+  const before = nodes.map(node => ({ id: node.id, style: parseNodeStyle(node.style) }));
+  const after = before.map(({ id, style }) => ({ id, style: { ...style, ...changes } }));
+  const write = (styles: typeof before) => Promise.all(styles.map(({ id, style }) => writeStyle(id, style)));
+
+  await write(after);
+  record({
+    label,
+    undo: () => write(before).then(() => undefined),
+    redo: () => write(after).then(() => undefined)
+  });
+};
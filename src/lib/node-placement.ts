@@ -1,4 +1,5 @@
 import { Node, NodeData } from "@/types";
+import type { SpatialIndex } from "@/lib/spatial-index";
 
 /**
  * Enhanced grid-based node placement strategy that prevents overlaps
@@ -118,43 +119,16 @@ export const findNodeClusters = (
   return clusters;
 };
 
-/**
- * Check if two nodes overlap with padding
- */
-const checkOverlap = (
-  posA: Position, 
-  dimA: { width: number; height: number },
-  posB: Position,
-  dimB: { width: number; height: number }
-): boolean => {
-  const paddedPosA = {
-    x: posA.x - NODE_PADDING,
-    y: posA.y - NODE_PADDING
-  };
-  
-  const paddedDimA = {
-    width: dimA.width + (NODE_PADDING * 2),
-    height: dimA.height + (NODE_PADDING * 2)
-  };
-  
-  return (
-    paddedPosA.x < posB.x + dimB.width &&
-    paddedPosA.x + paddedDimA.width > posB.x &&
-    paddedPosA.y < posB.y + dimB.height &&
-    paddedPosA.y + paddedDimA.height > posB.y
-  );
-};
-
 /**
  * Find available position for a new node using an enhanced placement strategy
  */
 export const findAvailablePosition = (
-  nodes: Node[], 
+  index: SpatialIndex,
   dimensions: {width: number, height: number},
   viewport: {x: number, y: number, width: number, height: number} | null
 ): Position => {
   // If no viewport or empty canvas, place in absolute center
-  if (!nodes.length || !viewport) {
+  if (!index.size() || !viewport) {
     return { x: -dimensions.width / 2, y: -dimensions.height / 2 };
   }
 
@@ -164,14 +138,11 @@ export const findAvailablePosition = (
 
   // Try exact center first
   const hasCollision = (x: number, y: number): boolean => {
-    return nodes.some(node => {
-      const nodePos = typeof node.position === 'string' 
-        ? JSON.parse(node.position) 
-        : node.position;
-      const nodeDim = typeof node.dimensions === 'string'
-        ? JSON.parse(node.dimensions)
-        : node.dimensions;
-      return checkOverlap({x, y}, dimensions, nodePos, nodeDim);
+    return index.collides({
+      x: x - NODE_PADDING,
+      y: y - NODE_PADDING,
+      width: dimensions.width + NODE_PADDING * 2,
+      height: dimensions.height + NODE_PADDING * 2
     });
   };
 
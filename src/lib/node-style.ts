@@ -0,0 +1,100 @@
+import { Node } from "@/types";
+
+/**
+ * Safely parse a node's style object that may have been stored as a JSON string
+ */
+export const parseNodeStyle = (style: Node['style'] | string | null | undefined): Record<string, unknown> => {
+  if (!style) return {};
+  if (typeof style === 'string') {
+    try {
+      const parsed = JSON.parse(style);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (e) {
+      console.error('Error parsing style:', e);
+      return {};
+    }
+  }
+  return style;
+};
+
+/**
+ * How a note or file node looks. Kept in `style` next to frame state like
+ * `collapsed`; anything unset falls back to the default card.
+ */
+export type NodeColor = 'yellow' | 'orange' | 'red' | 'pink' | 'purple' | 'blue' | 'teal' | 'green' | 'gray';
+export type NodeBorder = 'none' | 'thin' | 'thick' | 'dashed';
+export type NodeFont = 'sans' | 'serif' | 'mono' | 'hand';
+export type NodeTextAlign = 'left' | 'center' | 'right';
+
+export interface NodeAppearance {
+  color?: NodeColor;
+  // Outline of shape nodes, when it differs from the fill's swatch
+  stroke?: NodeColor;
+  border?: NodeBorder;
+  font?: NodeFont;
+  // Fixed text size in px; the text scales with the node when unset
+  fontSize?: number;
+  textAlign?: NodeTextAlign;
+  opacity?: number;
+}
+
+// Sticky-note backgrounds for light and dark mode, and a stronger swatch
+// used for borders, the minimap and filters
+export const NODE_COLORS: Record<NodeColor, { label: string; light: string; dark: string; swatch: string }> = {
+  yellow: { label: 'Yellow', light: '#fef9c3', dark: '#713f12', swatch: '#eab308' },
+  orange: { label: 'Orange', light: '#ffedd5', dark: '#7c2d12', swatch: '#f97316' },
+  red: { label: 'Red', light: '#fee2e2', dark: '#7f1d1d', swatch: '#ef4444' },
+  pink: { label: 'Pink', light: '#fce7f3', dark: '#831843', swatch: '#ec4899' },
+  purple: { label: 'Purple', light: '#ede9fe', dark: '#4c1d95', swatch: '#8b5cf6' },
+  blue: { label: 'Blue', light: '#dbeafe', dark: '#1e3a8a', swatch: '#3b82f6' },
+  teal: { label: 'Teal', light: '#ccfbf1', dark: '#134e4a', swatch: '#14b8a6' },
+  green: { label: 'Green', light: '#dcfce7', dark: '#14532d', swatch: '#22c55e' },
+  gray: { label: 'Gray', light: '#f1f5f9', dark: '#334155', swatch: '#64748b' },
+};
+
+export const NODE_FONTS: Record<NodeFont, { label: string; family: string }> = {
+  sans: { label: 'Sans', family: 'ui-sans-serif, system-ui, sans-serif' },
+  serif: { label: 'Serif', family: 'ui-serif, Georgia, Cambria, serif' },
+  mono: { label: 'Mono', family: 'ui-monospace, SFMono-Regular, Menlo, monospace' },
+  hand: { label: 'Hand', family: '"Comic Sans MS", "Chalkboard SE", "Comic Neue", cursive' },
+};
+
+export const NODE_BORDERS: Record<NodeBorder, string> = {
+  none: 'None',
+  thin: 'Thin',
+  thick: 'Thick',
+  dashed: 'Dashed',
+};
+
+export const NODE_FONT_SIZES = [12, 14, 16, 20, 24, 32];
+
+export const MIN_NODE_OPACITY = 0.2;
+
+const pick = <T extends string>(value: unknown, options: Record<T, unknown>) =>
+  typeof value === 'string' && value in options ? (value as T) : undefined;
+
+/**
+ * Read a node's appearance, ignoring values this version doesn't know
+ */
+export const getNodeAppearance = (node: Pick<Node, 'style'>): NodeAppearance => {
+  const style = parseNodeStyle(node.style);
+  return {
+    color: pick(style.color, NODE_COLORS),
+    stroke: pick(style.stroke, NODE_COLORS),
+    border: pick(style.border, NODE_BORDERS),
+    font: pick(style.font, NODE_FONTS),
+    fontSize: typeof style.fontSize === 'number' && style.fontSize > 0 ? style.fontSize : undefined,
+    textAlign: pick(style.textAlign, { left: true, center: true, right: true }),
+    opacity: typeof style.opacity === 'number'
+      ? Math.min(1, Math.max(MIN_NODE_OPACITY, style.opacity))
+      : undefined,
+  };
+};
+
+/**
+ * The node's swatch color, if it has one
+ */
+export const getNodeColor = (node: Pick<Node, 'style'>) => {
+  const { color } = getNodeAppearance(node);
+  return color ? NODE_COLORS[color].swatch : null;
+};
@@ -0,0 +1,44 @@
+/**
+ * Minimal key-value wrapper around IndexedDB for the offline cache
+ */
+
+const DB_NAME = 'slate-offline';
+const STORE_NAME = 'keyval';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const readOffline = <T>(key: string) =>
+  runRequest<T | undefined>('readonly', (store) => store.get(key));
+
+export const writeOffline = (key: string, value: unknown) =>
+  runRequest('readwrite', (store) => store.put(value, key)).then(() => undefined);
+
+// Keys used for cached canvas data
+export const offlineKeys = {
+  canvas: (code: string) => `canvas:${code}`,
+  nodes: (canvasId: string) => `nodes:${canvasId}`,
+  edges: (canvasId: string) => `edges:${canvasId}`,
+  mutations: 'mutations',
+};
@@ -0,0 +1,205 @@
+import { create } from "zustand";
+import type { Tables } from "@/integrations/supabase/types";
+import { canvasAuthHeader, supabase } from "@/lib/supabase";
+import { getGrantToken, useAccessStore } from "@/lib/canvas-access";
+import { getCanvasToken } from "@/lib/canvas-token";
+import { offlineKeys, readOffline, writeOffline } from "@/lib/offline-db";
+import { getBackoffDelay, isNetworkError } from "@/lib/retry";
+import { queryClient } from "@/lib/query-cache";
+
+/**
+ * Queue of canvas writes that couldn't reach the server yet. Mutations are
+ * kept in IndexedDB and replayed in order, with backoff, once we're back
+ * online.
+ */
+
+type MutationTable = "nodes" | "edges";
+type RowValues = Record<string, unknown>;
+
+// The canvas a write was made on, so it replays with that canvas' access
+// even if another one is open by then
+interface MutationCanvas {
+  code?: string;
+  canvasId?: string;
+}
+
+export type QueuedMutation = MutationCanvas & (
+  | { id: string; kind: "insert"; table: MutationTable; rows: RowValues[] }
+  | { id: string; kind: "update"; table: MutationTable; ids: string[]; changes: RowValues }
+  | { id: string; kind: "delete"; table: MutationTable; ids: string[] }
+);
+
+// Distributes Omit over the union so each variant keeps its own fields
+type MutationInput = QueuedMutation extends infer M
+  ? M extends QueuedMutation ? Omit<M, "id" | keyof MutationCanvas> : never
+  : never;
+
+export type SyncStatus = "synced" | "offline" | "syncing" | "error";
+
+interface OfflineState {
+  queue: QueuedMutation[];
+  isOnline: boolean;
+  isFlushing: boolean;
+  // Consecutive failed replay attempts, used for backoff
+  attempts: number;
+  lastError: string | null;
+}
+
+export const useOfflineStore = create<OfflineState>(() => ({
+  queue: [],
+  isOnline: typeof navigator === "undefined" ? true : navigator.onLine,
+  isFlushing: false,
+  attempts: 0,
+  lastError: null,
+}));
+
+/**
+ * Summarise the queue state for the sync indicator
+ */
+export const getSyncStatus = (state: OfflineState): SyncStatus => {
+  if (!state.isOnline) return "offline";
+  if (state.lastError && state.queue.length > 0) return "error";
+  if (state.isFlushing || state.queue.length > 0) return "syncing";
+  return "synced";
+};
+
+const setQueue = (queue: QueuedMutation[]) => {
+  useOfflineStore.setState({ queue });
+  writeOffline(offlineKeys.mutations, queue).catch((error) => {
+    console.error("Error saving offline queue:", error);
+  });
+};
+
+const runMutation = async (mutation: QueuedMutation) => {
+  const table = supabase.from(mutation.table);
+  const authorization = canvasAuthHeader(mutation.code ? getGrantToken(mutation.code) : getCanvasToken());
+
+  switch (mutation.kind) {
+    case "insert": {
+      // Upsert so a replay after a lost response doesn't fail on duplicates
+      const { error } = await table.upsert(mutation.rows as never[]).setHeader("Authorization", authorization);
+      if (error) throw error;
+      return;
+    }
+    case "update": {
+      const { error } = await table
+        .update(mutation.changes as never)
+        .in("id", mutation.ids)
+        .setHeader("Authorization", authorization);
+      if (error) throw error;
+      return;
+    }
+    case "delete": {
+      const { error } = await table.delete().in("id", mutation.ids).setHeader("Authorization", authorization);
+      if (error) throw error;
+      return;
+    }
+  }
+};
+
+// Refetch a canvas' rows, or every canvas' when we don't know which one
+const refetchCanvas = (canvasId?: string) => {
+  (["nodes", "edges", "trash"] as const).forEach((key) => {
+    queryClient.invalidateQueries({ queryKey: canvasId ? [key, canvasId] : [key] });
+  });
+};
+
+let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Replay queued mutations in order. Network failures pause the queue and
+ * retry later; mutations the server rejects are dropped and reported.
+ */
+export const flushQueue = async () => {
+  const { isFlushing, isOnline } = useOfflineStore.getState();
+  if (isFlushing || !isOnline) return;
+
+  clearTimeout(retryTimeout);
+  useOfflineStore.setState({ isFlushing: true });
+  let replayed = false;
+
+  try {
+    while (useOfflineStore.getState().queue.length > 0) {
+      const [mutation] = useOfflineStore.getState().queue;
+      try {
+        await runMutation(mutation);
+        replayed = true;
+      } catch (error) {
+        if (isNetworkError(error)) {
+          const attempts = useOfflineStore.getState().attempts;
+          useOfflineStore.setState({
+            attempts: attempts + 1,
+            lastError: error instanceof Error ? error.message : String(error),
+          });
+          retryTimeout = setTimeout(flushQueue, getBackoffDelay(attempts));
+          return;
+        }
+
+        // Drop the optimistic rows the server never accepted
+        refetchCanvas(mutation.canvasId);
+        import("@/lib/error-handler").then(({ handleError }) => {
+          handleError(error, {
+            title: "Sync Failed",
+            message: "An offline change was rejected by the server and has been discarded",
+          });
+        });
+      }
+      setQueue(useOfflineStore.getState().queue.filter((queued) => queued.id !== mutation.id));
+    }
+
+    useOfflineStore.setState({ attempts: 0, lastError: null });
+  } finally {
+    useOfflineStore.setState({ isFlushing: false });
+    // Reconcile with whatever others changed while we were away
+    if (replayed && useOfflineStore.getState().queue.length === 0) {
+      queryClient.invalidateQueries({ queryKey: ["nodes"] });
+      queryClient.invalidateQueries({ queryKey: ["edges"] });
+    }
+  }
+};
+
+/**
+ * Send a write to the server, or queue it when offline. Anything queued
+ * before it goes first so the server sees changes in the order they were made.
+ */
+export const performMutation = async (input: MutationInput) => {
+  const code = useAccessStore.getState().activeCode ?? undefined;
+  const canvasId = code ? queryClient.getQueryData<Tables<"canvases">>(["canvas", code])?.id : undefined;
+  const mutation = { ...input, id: crypto.randomUUID(), code, canvasId } as QueuedMutation;
+  const { queue, isOnline } = useOfflineStore.getState();
+
+  if (isOnline && queue.length === 0) {
+    try {
+      await runMutation(mutation);
+      return;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  setQueue([...useOfflineStore.getState().queue, mutation]);
+  flushQueue();
+};
+
+const setOnline = (isOnline: boolean) => {
+  useOfflineStore.setState({ isOnline });
+  if (isOnline) {
+    useOfflineStore.setState({ attempts: 0 });
+    flushQueue();
+  }
+};
+
+// Restore mutations left over from a previous session and watch connectivity
+if (typeof window !== "undefined") {
+  readOffline<QueuedMutation[]>(offlineKeys.mutations)
+    .then((stored) => {
+      if (stored?.length) {
+        useOfflineStore.setState({ queue: [...stored, ...useOfflineStore.getState().queue] });
+        flushQueue();
+      }
+    })
+    .catch((error) => console.error("Error loading offline queue:", error));
+
+  window.addEventListener("online", () => setOnline(true));
+  window.addEventListener("offline", () => setOnline(false));
+}
@@ -0,0 +1,110 @@
+import { create } from "zustand";
+import type { Point } from "@/lib/geometry";
+
+/**
+ * Shared state for multiplayer presence: who is on the canvas and where
+ * their cursors are (in world coordinates)
+ */
+
+export interface PresenceIdentity {
+  name: string;
+  color: string;
+}
+
+export interface PresencePeer extends PresenceIdentity {
+  id: string;
+}
+
+export const PRESENCE_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+// Minimum delay between two cursor broadcasts from the same visitor
+export const CURSOR_THROTTLE_MS = 80;
+
+const IDENTITY_STORAGE_KEY = "slate-presence-identity";
+
+const createIdentity = (): PresenceIdentity => ({
+  name: `Guest ${Math.floor(1000 + Math.random() * 9000)}`,
+  color: PRESENCE_COLORS[Math.floor(Math.random() * PRESENCE_COLORS.length)],
+});
+
+/**
+ * Load the display name and color chosen on a previous visit, or pick new ones
+ */
+const loadIdentity = (): PresenceIdentity => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(IDENTITY_STORAGE_KEY) || "null");
+    if (stored && typeof stored.name === "string" && typeof stored.color === "string") {
+      return { name: stored.name, color: stored.color };
+    }
+  } catch (e) {
+    console.error("Error loading presence identity:", e);
+  }
+
+  const identity = createIdentity();
+  localStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(identity));
+  return identity;
+};
+
+/**
+ * Initials shown in a visitor's avatar
+ */
+export const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("") || "?";
+
+interface PresenceState {
+  // Identifies this browser tab on the presence channel
+  clientId: string;
+  identity: PresenceIdentity;
+  // Other visitors currently on the canvas
+  peers: PresencePeer[];
+  cursors: Record<string, Point>;
+  setIdentity: (identity: PresenceIdentity) => void;
+  setPeers: (peers: PresencePeer[]) => void;
+  setCursor: (peerId: string, cursor: Point | null) => void;
+  reset: () => void;
+}
+
+export const usePresenceStore = create<PresenceState>((set) => ({
+  clientId: crypto.randomUUID(),
+  identity: loadIdentity(),
+  peers: [],
+  cursors: {},
+  setIdentity: (identity) => {
+    localStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(identity));
+    set({ identity });
+  },
+  setPeers: (peers) =>
+    set((state) => {
+      // Forget cursors of visitors who have left
+      const cursors = { ...state.cursors };
+      Object.keys(cursors).forEach((id) => {
+        if (!peers.some((peer) => peer.id === id)) delete cursors[id];
+      });
+      return { peers, cursors };
+    }),
+  setCursor: (peerId, cursor) =>
+    set((state) => {
+      const cursors = { ...state.cursors };
+      if (cursor) {
+        cursors[peerId] = cursor;
+      } else {
+        delete cursors[peerId];
+      }
+      return { cursors };
+    }),
+  reset: () => set({ peers: [], cursors: {} }),
+}));
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Edge, Node } from "@/types";
+import { makeEdge, makeNode } from "@/test/fixtures";
+import {
+  hasPendingWrite,
+  optimisticWrite,
+  patchCachedNode,
+  queryClient,
+  reconcileRows,
+  removeRows,
+  upsertRows,
+} from "@/lib/query-cache";
+
+describe("upsertRows", () => {
+  it("merges changed rows and appends new ones", () => {
+    const a = makeNode("a");
+    const b = makeNode("b");
+
+    const next = upsertRows([a, b], [{ id: "a", content: "moved" }, makeNode("c")]);
+
+    expect(next.map((node) => node.content)).toEqual(["moved", "b", "c"]);
+    expect(next[1]).toBe(b);
+  });
+
+  it("keeps the list when an echo changes nothing", () => {
+    const rows = [makeNode("a", { position: { x: 10, y: 20 } })];
+
+    expect(upsertRows(rows, [{ id: "a", position: { x: 10, y: 20 } }])).toBe(rows);
+  });
+
+  it("ignores columns the payload left out", () => {
+    const [row] = upsertRows(
+      [makeNode("a", { content: "long text" })],
+      [{ id: "a", content: undefined, style: { color: "red" } }]
+    );
+
+    expect(row).toMatchObject({ content: "long text", style: { color: "red" } });
+  });
+
+  it("only updates when inserting missing rows is turned off", () => {
+    expect(upsertRows([makeNode("a")], [makeNode("b")], false).map((node) => node.id)).toEqual(["a"]);
+  });
+});
+
+describe("removeRows", () => {
+  it("keeps the list when nothing matches", () => {
+    const rows = [makeNode("a"), makeNode("b")];
+
+    expect(removeRows(rows, (row) => row.id === "c")).toBe(rows);
+    expect(removeRows(rows, (row) => row.id === "a")).toEqual([rows[1]]);
+  });
+});
+
+const cachedNodes = () => queryClient.getQueryData<Node[]>(["nodes", "canvas"]) as Node[];
+const cachedEdges = () => queryClient.getQueryData<Edge[]>(["edges", "canvas"]) as Edge[];
+
+// A write that stays in flight until the test settles it
+const deferredWrite = () => {
+  let settle: { resolve: () => void; reject: (error: Error) => void } | undefined;
+  const promise = new Promise<void>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+  return { write: () => promise, ...(settle as NonNullable<typeof settle>) };
+};
+
+describe("optimisticWrite", () => {
+  beforeEach(() => {
+    queryClient.clear();
+    queryClient.setQueryData(["nodes", "canvas"], [makeNode("a"), makeNode("b")]);
+    queryClient.setQueryData(["edges", "canvas"], [makeEdge("ab", "a", "b"), makeEdge("bb", "b", "b")]);
+  });
+
+  it("keeps the optimistic rows when a refetch lands before the write", async () => {
+    const { write, resolve } = deferredWrite();
+    const pending = optimisticWrite(["a"], () => patchCachedNode("a", { content: "edited" }), write);
+    const stale = [makeNode("a"), makeNode("b", { content: "changed elsewhere" })];
+
+    expect(hasPendingWrite(makeNode("a"))).toBe(true);
+    expect(hasPendingWrite(makeEdge("ab", "a", "b"))).toBe(true);
+    expect(hasPendingWrite(makeNode("b"))).toBe(false);
+    expect(reconcileRows(stale, cachedNodes()).map((node) => node.content)).toEqual(["edited", "changed elsewhere"]);
+
+    resolve();
+    await pending;
+  });
+
+  it("keeps unsaved inserts and deletes out of a refetch", async () => {
+    const insert = deferredWrite();
+    const remove = deferredWrite();
+    const inserting = optimisticWrite(["c"], () => {
+      queryClient.setQueryData<Node[]>(["nodes", "canvas"], (nodes) => upsertRows(nodes, [makeNode("c")]));
+    }, insert.write);
+    const removing = optimisticWrite(["b"], () => {
+      queryClient.setQueryData<Node[]>(["nodes", "canvas"], (nodes) => removeRows(nodes, (node) => node.id === "b"));
+    }, remove.write);
+
+    const fetched = [makeNode("a"), makeNode("b")];
+    expect(reconcileRows(fetched, cachedNodes()).map((node) => node.id)).toEqual(["a", "c"]);
+
+    insert.resolve();
+    remove.resolve();
+    await Promise.all([inserting, removing]);
+  });
+
+  it("rolls back only the touched rows when the write fails", async () => {
+    const { write, reject } = deferredWrite();
+    const failing = optimisticWrite(["b"], () => {
+      queryClient.setQueryData<Node[]>(["nodes", "canvas"], (nodes) => removeRows(nodes, (node) => node.id === "b"));
+      queryClient.setQueryData<Edge[]>(["edges", "canvas"], (edges) =>
+        removeRows(edges, (edge) => edge.source_id === "b" || edge.target_id === "b")
+      );
+    }, write);
+    // Another change lands while the write is in flight
+    patchCachedNode("a", { content: "kept" });
+
+    reject(new Error("Permission denied"));
+
+    await expect(failing).rejects.toThrow("Permission denied");
+    expect(cachedNodes().map((node) => [node.id, node.content])).toEqual([["a", "kept"], ["b", "b"]]);
+    expect(cachedEdges().map((edge) => edge.id)).toEqual(["ab", "bb"]);
+    expect(hasPendingWrite(makeNode("b"))).toBe(false);
+  });
+
+  it("stops protecting rows once every write on them has settled", async () => {
+    const first = deferredWrite();
+    const second = deferredWrite();
+    const writes = [
+      optimisticWrite(["a"], () => patchCachedNode("a", { content: "first" }), first.write),
+      optimisticWrite(["a"], () => patchCachedNode("a", { content: "second" }), second.write),
+    ];
+
+    first.resolve();
+    await writes[0];
+    expect(hasPendingWrite(makeNode("a"))).toBe(true);
+
+    second.resolve();
+    await writes[1];
+    expect(hasPendingWrite(makeNode("a"))).toBe(false);
+
+    const fetched = [makeNode("a", { content: "from server" })];
+    expect(reconcileRows(fetched, cachedNodes())).toBe(fetched);
+  });
+});
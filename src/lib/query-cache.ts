@@ -0,0 +1,230 @@
+import { QueryClient } from "@tanstack/react-query";
+import type { Edge, Node } from "@/types";
+
+/**
+ * The app-wide react-query client, plus helpers that patch cached canvas
+ * rows in place instead of refetching whole tables
+ */
+
+export const queryClient = new QueryClient();
+
+type Row = { id: string };
+
+const isSameRow = (a: Row, b: Row) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every((key) =>
+    JSON.stringify(a[key as keyof Row]) === JSON.stringify(b[key as keyof Row])
+  );
+};
+
+/**
+ * Insert or merge rows into a cached list. Rows that wouldn't change keep
+ * their identity and the list itself is returned untouched when nothing
+ * changed, so echoes of our own writes don't re-render anything.
+ */
+export const upsertRows = <T extends Row>(
+  rows: T[] | undefined,
+  incoming: Array<Partial<T> & Row>,
+  insertMissing = true
+): T[] => {
+  const current = rows || [];
+  let next = current;
+
+  incoming.forEach((row) => {
+    // Drop columns the payload left out (e.g. unchanged large values)
+    const defined = Object.fromEntries(
+      Object.entries(row).filter(([, value]) => value !== undefined)
+    ) as Partial<T> & Row;
+    const index = next.findIndex((existing) => existing.id === row.id);
+
+    if (index === -1) {
+      if (insertMissing) next = [...next, defined as T];
+      return;
+    }
+
+    const merged = { ...next[index], ...defined };
+    if (isSameRow(next[index], merged)) return;
+
+    next = next === current ? [...current] : next;
+    next[index] = merged;
+  });
+
+  return next;
+};
+
+/**
+ * Remove rows from a cached list, keeping the list identity when none match
+ */
+export const removeRows = <T extends Row>(rows: T[] | undefined, shouldRemove: (row: T) => boolean): T[] => {
+  const current = rows || [];
+  return current.some(shouldRemove) ? current.filter((row) => !shouldRemove(row)) : current;
+};
+
+/**
+ * Apply a change to every cached node list
+ */
+export const patchCachedNodes = (update: (nodes: Node[]) => Node[]) => {
+  queryClient.setQueriesData<Node[]>({ queryKey: ["nodes"] }, (nodes) => nodes && update(nodes));
+};
+
+/**
+ * Apply a change to every cached connector list
+ */
+export const patchCachedEdges = (update: (edges: Edge[]) => Edge[]) => {
+  queryClient.setQueriesData<Edge[]>({ queryKey: ["edges"] }, (edges) => edges && update(edges));
+};
+
+/**
+ * Reflect a successful write to a single node in the cache right away
+ */
+export const patchCachedNode = (nodeId: string, fields: Partial<Node>) => {
+  patchCachedNodes((nodes) => upsertRows(nodes, [{ ...fields, id: nodeId }], false));
+};
+
+/**
+ * Add or replace complete rows in the node list of their canvas
+ */
+export const upsertCachedNodes = (rows: Node[]) => {
+  const canvasIds = new Set(rows.map((row) => row.canvas_id));
+  canvasIds.forEach((canvasId) => {
+    queryClient.setQueryData<Node[]>(["nodes", canvasId], (nodes) =>
+      upsertRows(nodes, rows.filter((row) => row.canvas_id === canvasId))
+    );
+  });
+};
+
+/**
+ * Add or replace complete rows in the connector list of their canvas
+ */
+export const upsertCachedEdges = (rows: Edge[]) => {
+  const canvasIds = new Set(rows.map((row) => row.canvas_id));
+  canvasIds.forEach((canvasId) => {
+    queryClient.setQueryData<Edge[]>(["edges", canvasId], (edges) =>
+      upsertRows(edges, rows.filter((row) => row.canvas_id === canvasId))
+    );
+  });
+};
+
+/**
+ * Move nodes from their canvas into its trash. Connectors stay cached, like
+ * they stay in the database, so they reappear when the nodes are restored.
+ */
+export const trashCachedNodes = (nodes: Node[], deletedAt: string) => {
+  const nodeIds = nodes.map((node) => node.id);
+  patchCachedNodes((cached) => removeRows(cached, (node) => nodeIds.includes(node.id)));
+  new Set(nodes.map((node) => node.canvas_id)).forEach((canvasId) => {
+    queryClient.setQueryData<Node[]>(["trash", canvasId], (trash) =>
+      trash && upsertRows(trash, nodes
+        .filter((node) => node.canvas_id === canvasId)
+        .map((node) => ({ ...node, deleted_at: deletedAt })))
+    );
+  });
+};
+
+/**
+ * Put trashed nodes back on their canvas
+ */
+export const restoreCachedNodes = (nodes: Node[]) => {
+  const nodeIds = nodes.map((node) => node.id);
+  queryClient.setQueriesData<Node[]>({ queryKey: ["trash"] }, (trash) =>
+    trash && removeRows(trash, (node) => nodeIds.includes(node.id))
+  );
+  upsertCachedNodes(nodes.map((node) => ({ ...node, deleted_at: null })));
+};
+
+// Rows with a write in flight, counted so overlapping writes nest
+const pendingRowIds = new Map<string, number>();
+
+const markPending = (rowIds: string[], delta: 1 | -1) => {
+  rowIds.forEach((rowId) => {
+    const count = (pendingRowIds.get(rowId) ?? 0) + delta;
+    if (count > 0) {
+      pendingRowIds.set(rowId, count);
+    } else {
+      pendingRowIds.delete(rowId);
+    }
+  });
+};
+
+type RowSnapshot = Array<{ queryKey: readonly unknown[]; rows: Row[] }>;
+
+// Rows a write may touch: the rows themselves and, for nodes, their connectors
+const touchesRows = (row: Row, rowIds: Pick<Set<string>, "has">) => {
+  const { source_id, target_id } = row as Partial<Edge>;
+  return rowIds.has(row.id) ||
+    (!!source_id && rowIds.has(source_id)) ||
+    (!!target_id && rowIds.has(target_id));
+};
+
+/**
+ * Whether a row has an optimistic write that the server hasn't confirmed yet.
+ * Realtime echoes and refetches for such rows are stale and must not
+ * overwrite the optimistic state.
+ */
+export const hasPendingWrite = (row: Row) => touchesRows(row, pendingRowIds);
+
+const snapshotRows = (rowIds: Set<string>): RowSnapshot =>
+  [
+    ...queryClient.getQueriesData<Row[]>({ queryKey: ["nodes"] }),
+    ...queryClient.getQueriesData<Row[]>({ queryKey: ["edges"] }),
+    ...queryClient.getQueriesData<Row[]>({ queryKey: ["trash"] }),
+  ]
+    .filter(([, rows]) => rows)
+    .map(([queryKey, rows]) => ({
+      queryKey,
+      rows: (rows as Row[]).filter((row) => touchesRows(row, rowIds)),
+    }));
+
+// Put touched rows back as they were, leaving everything else alone
+const restoreRows = (snapshot: RowSnapshot, rowIds: Set<string>) => {
+  snapshot.forEach(({ queryKey, rows: saved }) => {
+    queryClient.setQueryData<Row[]>(queryKey, (rows) => {
+      if (!rows) return rows;
+      const restored = rows
+        .filter((row) => !touchesRows(row, rowIds) || saved.some((s) => s.id === row.id))
+        .map((row) => saved.find((s) => s.id === row.id) ?? row);
+      const missing = saved.filter((s) => !restored.some((row) => row.id === s.id));
+      return [...restored, ...missing];
+    });
+  });
+};
+
+/**
+ * Apply a change to the cache straight away, then write it to the server.
+ * If the write fails, the rows it touched are rolled back and the error is
+ * rethrown for the caller to report.
+ */
+export const optimisticWrite = async (rowIds: string[], apply: () => void, write: () => Promise<void>) => {
+  const ids = new Set(rowIds);
+  const snapshot = snapshotRows(ids);
+
+  markPending(rowIds, 1);
+  apply();
+
+  try {
+    await write();
+  } catch (error) {
+    restoreRows(snapshot, ids);
+    throw error;
+  } finally {
+    markPending(rowIds, -1);
+  }
+};
+
+/**
+ * Merge a fresh server list with the cache, keeping the optimistic version
+ * of rows whose writes haven't landed yet (including unsaved inserts and
+ * deletes)
+ */
+export const reconcileRows = <T extends Row>(fetched: T[], cached: T[] | undefined): T[] => {
+  if (!cached || pendingRowIds.size === 0) return fetched;
+
+  const kept = fetched
+    .filter((row) => !hasPendingWrite(row) || cached.some((c) => c.id === row.id))
+    .map((row) => (hasPendingWrite(row) ? cached.find((c) => c.id === row.id) as T : row));
+  const unsaved = cached.filter((row) =>
+    hasPendingWrite(row) && !fetched.some((f) => f.id === row.id)
+  );
+
+  return [...kept, ...unsaved];
+};
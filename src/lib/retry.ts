@@ -0,0 +1,29 @@
+/**
+ * Backoff helpers for retrying requests that failed because of the network
+ */
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+/**
+ * Exponential backoff with jitter: ~1s, 2s, 4s … capped at 30s
+ */
+export const getBackoffDelay = (attempt: number) => {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  // Spread retries out so reconnecting clients don't all hit the server at once
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+/**
+ * Returns true when a request failed because the server couldn't be reached,
+ * as opposed to the server rejecting it
+ */
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+
+  const message = error instanceof Error
+    ? error.message
+    : (error as { message?: string } | null)?.message;
+
+  return !!message && /failed to fetch|networkerror|network request failed|load failed|timeout/i.test(message);
+};
@@ -0,0 +1,126 @@
+import type { Node } from "@/types";
+import type { Rect, Size } from "@/lib/geometry";
+import { getNodeAppearance, NODE_COLORS, parseNodeStyle } from "@/lib/node-style";
+
+/**
+ * Shape nodes: flowchart boxes drawn as SVG with a label inside. The kind
+ * lives in `style.shape`, the fill is the same `style.color` notes use and
+ * the label is the node's content.
+ */
+
+export type ShapeKind = 'rectangle' | 'rounded' | 'ellipse' | 'diamond' | 'triangle' | 'cylinder';
+
+// Names and the size new shapes start at
+export const SHAPE_KINDS: Record<ShapeKind, { label: string; size: Size }> = {
+  rectangle: { label: 'Rectangle', size: { width: 180, height: 100 } },
+  rounded: { label: 'Rounded rectangle', size: { width: 180, height: 100 } },
+  ellipse: { label: 'Ellipse', size: { width: 180, height: 110 } },
+  diamond: { label: 'Diamond', size: { width: 200, height: 130 } },
+  triangle: { label: 'Triangle', size: { width: 170, height: 140 } },
+  cylinder: { label: 'Cylinder', size: { width: 150, height: 140 } },
+};
+
+// Unfilled shapes look like a plain card; unstyled outlines are slate gray
+export const DEFAULT_SHAPE_COLORS = { light: '#ffffff', dark: '#1f2937', stroke: '#64748b' };
+
+const STROKE_WIDTH = 2;
+
+export const isShape = (node: Node) => node.node_type === 'shape';
+
+export const getShapeKind = (node: Pick<Node, 'style'>): ShapeKind => {
+  const kind = parseNodeStyle(node.style).shape;
+  return typeof kind === 'string' && kind in SHAPE_KINDS ? (kind as ShapeKind) : 'rectangle';
+};
+
+/**
+ * Fill for both themes and outline of a shape. The outline takes the
+ * `stroke` color, else the fill's swatch; `border` sets its width and dash.
+ */
+export const getShapeStyle = (node: Pick<Node, 'style'>) => {
+  const { color, stroke, border } = getNodeAppearance(node);
+  const strokeWidth = border === 'none' ? 0 : border === 'thick' ? STROKE_WIDTH * 2 : STROKE_WIDTH;
+
+  return {
+    fill: color ? { light: NODE_COLORS[color].light, dark: NODE_COLORS[color].dark } : DEFAULT_SHAPE_COLORS,
+    stroke: stroke ? NODE_COLORS[stroke].swatch : color ? NODE_COLORS[color].swatch : DEFAULT_SHAPE_COLORS.stroke,
+    strokeWidth,
+    dashArray: border === 'dashed' ? `${strokeWidth * 4} ${strokeWidth * 3}` : undefined,
+  };
+};
+
+/**
+ * SVG path data for a shape filling a `width` x `height` box, kept `inset`
+ * in from the edges so the outline isn't clipped. Cylinders also get the
+ * front rim of their lid as `detail`.
+ */
+export const getShapePaths = (
+  kind: ShapeKind,
+  width: number,
+  height: number,
+  inset = 0
+): { outline: string; detail?: string } => {
+  const left = inset;
+  const top = inset;
+  const right = Math.max(left, width - inset);
+  const bottom = Math.max(top, height - inset);
+  const w = right - left;
+  const h = bottom - top;
+  const cx = left + w / 2;
+  const cy = top + h / 2;
+
+  switch (kind) {
+    case 'rounded': {
+      const r = Math.min(16, w / 4, h / 4);
+      const corner = (x: number, y: number) => `A ${r} ${r} 0 0 1 ${x} ${y}`;
+      return {
+        outline: [
+          `M ${left + r} ${top} H ${right - r}`, corner(right, top + r),
+          `V ${bottom - r}`, corner(right - r, bottom),
+          `H ${left + r}`, corner(left, bottom - r),
+          `V ${top + r}`, corner(left + r, top), 'Z',
+        ].join(' '),
+      };
+    }
+    case 'ellipse':
+      return {
+        outline: `M ${left} ${cy} A ${w / 2} ${h / 2} 0 1 1 ${right} ${cy} A ${w / 2} ${h / 2} 0 1 1 ${left} ${cy} Z`,
+      };
+    case 'diamond':
+      return { outline: `M ${cx} ${top} L ${right} ${cy} L ${cx} ${bottom} L ${left} ${cy} Z` };
+    case 'triangle':
+      return { outline: `M ${cx} ${top} L ${right} ${bottom} L ${left} ${bottom} Z` };
+    case 'cylinder': {
+      const rx = w / 2;
+      const ry = getCylinderLidHeight(w, h);
+      return {
+        outline: `M ${left} ${top + ry} A ${rx} ${ry} 0 0 1 ${right} ${top + ry} V ${bottom - ry} A ${rx} ${ry} 0 0 1 ${left} ${bottom - ry} Z`,
+        detail: `M ${left} ${top + ry} A ${rx} ${ry} 0 0 0 ${right} ${top + ry}`,
+      };
+    }
+    default:
+      return { outline: `M ${left} ${top} H ${right} V ${bottom} H ${left} Z` };
+  }
+};
+
+const getCylinderLidHeight = (width: number, height: number) => Math.min(height * 0.15, width / 4, 24);
+
+/**
+ * Part of a `width` x `height` shape its label is laid out in, so text stays
+ * inside slanted and curved outlines
+ */
+export const getShapeLabelRect = (kind: ShapeKind, width: number, height: number): Rect => {
+  switch (kind) {
+    case 'ellipse':
+      return { x: width * 0.15, y: height * 0.15, width: width * 0.7, height: height * 0.7 };
+    case 'diamond':
+      return { x: width / 4, y: height / 4, width: width / 2, height: height / 2 };
+    case 'triangle':
+      return { x: width / 4, y: height * 0.45, width: width / 2, height: height * 0.5 };
+    case 'cylinder': {
+      const lid = getCylinderLidHeight(width, height);
+      return { x: 0, y: lid * 2, width, height: Math.max(0, height - lid * 3) };
+    }
+    default:
+      return { x: 0, y: 0, width, height };
+  }
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { Node } from "@/types";
+import { makeNode } from "@/test/fixtures";
+import { createSpatialIndex } from "@/lib/spatial-index";
+
+const at = (id: string, x: number, y: number, width = 100, height = 100) =>
+  makeNode(id, { position: { x, y }, dimensions: { width, height } });
+
+const ids = (nodes: Node[]) => nodes.map((node) => node.id);
+
+describe("createSpatialIndex", () => {
+  it("finds only the nodes overlapping a rectangle, in canvas order", () => {
+    const index = createSpatialIndex();
+    index.sync([at("c", 0, 0), at("a", 50, 50), at("far", 1000, 1000)]);
+
+    expect(ids(index.search({ x: 40, y: 40, width: 20, height: 20 }))).toEqual(["c", "a"]);
+    expect(ids(index.search({ x: 500, y: 500, width: 10, height: 10 }))).toEqual([]);
+  });
+
+  it("counts touching borders as overlapping", () => {
+    const index = createSpatialIndex();
+    index.sync([at("a", 0, 0)]);
+
+    expect(ids(index.searchPoint({ x: 100, y: 100 }))).toEqual(["a"]);
+    expect(ids(index.searchPoint({ x: 100.5, y: 100 }))).toEqual([]);
+  });
+
+  it("matches a linear scan after splitting into quadrants", () => {
+    const nodes = Array.from({ length: 400 }, (_, i) =>
+      at(`n${i}`, (i % 20) * 150 - 1500, Math.floor(i / 20) * 150 - 1500, 120, 80)
+    );
+    const index = createSpatialIndex();
+    index.sync(nodes);
+    const area = { x: -400, y: -300, width: 700, height: 500 };
+
+    const expected = nodes.filter((node) =>
+      node.position.x <= area.x + area.width &&
+      node.position.x + node.dimensions.width >= area.x &&
+      node.position.y <= area.y + area.height &&
+      node.position.y + node.dimensions.height >= area.y
+    );
+    expect(ids(index.search(area))).toEqual(ids(expected));
+    expect(index.size()).toBe(400);
+  });
+
+  it("grows to hold nodes far outside its starting extent", () => {
+    const index = createSpatialIndex();
+    index.sync([at("near", 0, 0), at("far", -50_000, 80_000)]);
+
+    expect(ids(index.searchPoint({ x: -49_950, y: 80_050 }))).toEqual(["far"]);
+    expect(ids(index.searchPoint({ x: 50, y: 50 }))).toEqual(["near"]);
+  });
+
+  it("follows moved and removed nodes on sync", () => {
+    const index = createSpatialIndex();
+    const moving = at("moving", 0, 0);
+    index.sync([moving, at("gone", 300, 300)]);
+
+    index.sync([{ ...moving, position: { x: 600, y: 0 } }]);
+
+    expect(index.size()).toBe(1);
+    expect(index.collides({ x: 10, y: 10, width: 10, height: 10 })).toBe(false);
+    expect(index.collides({ x: 300, y: 300, width: 10, height: 10 })).toBe(false);
+    expect(ids(index.searchPoint({ x: 650, y: 50 }))).toEqual(["moving"]);
+  });
+
+  it("skips nodes with corrupt geometry", () => {
+    const index = createSpatialIndex();
+    index.sync([at("bad", NaN, 0), at("good", 0, 0)]);
+
+    expect(index.size()).toBe(1);
+  });
+});
@@ -0,0 +1,188 @@
+import { Node } from "@/types";
+import { getNodeRect, Point, Rect } from "@/lib/geometry";
+
+/**
+ * Quadtree over node bounds, so viewport culling and hit-testing only look
+ * at nodes near the area in question instead of scanning every node.
+ * The tree grows outwards as nodes are placed further away on the canvas.
+ */
+
+// Entries a leaf holds before it is split into quadrants
+const MAX_ENTRIES = 16;
+const MAX_DEPTH = 16;
+// Starting extent of the tree, grown on demand
+const INITIAL_EXTENT = 4096;
+
+interface Entry {
+  node: Node;
+  rect: Rect;
+}
+
+interface Quad {
+  bounds: Rect;
+  depth: number;
+  entries: Entry[];
+  children: Quad[] | null;
+}
+
+export interface SpatialIndex {
+  // Bring the index in line with the latest node list
+  sync: (nodes: Node[]) => void;
+  // Nodes whose bounds overlap the rectangle, in canvas order
+  search: (rect: Rect) => Node[];
+  // Nodes under a point, in canvas order (topmost last)
+  searchPoint: (point: Point) => Node[];
+  // Whether any node overlaps the rectangle
+  collides: (rect: Rect) => boolean;
+  size: () => number;
+}
+
+// Edges count as overlapping so point queries on a border still hit
+const overlaps = (a: Rect, b: Rect) =>
+  a.x <= b.x + b.width &&
+  a.x + a.width >= b.x &&
+  a.y <= b.y + b.height &&
+  a.y + a.height >= b.y;
+
+const contains = (outer: Rect, inner: Rect) =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+const createQuad = (bounds: Rect, depth: number): Quad => ({ bounds, depth, entries: [], children: null });
+
+const getQuadrants = ({ x, y, width, height }: Rect): Rect[] => {
+  const halfWidth = width / 2;
+  const halfHeight = height / 2;
+  return [
+    { x, y, width: halfWidth, height: halfHeight },
+    { x: x + halfWidth, y, width: halfWidth, height: halfHeight },
+    { x, y: y + halfHeight, width: halfWidth, height: halfHeight },
+    { x: x + halfWidth, y: y + halfHeight, width: halfWidth, height: halfHeight },
+  ];
+};
+
+export const createSpatialIndex = (): SpatialIndex => {
+  let root = createQuad(
+    { x: -INITIAL_EXTENT, y: -INITIAL_EXTENT, width: INITIAL_EXTENT * 2, height: INITIAL_EXTENT * 2 },
+    0
+  );
+  // Where each node currently lives in the tree
+  const locations = new Map<string, { quad: Quad; entry: Entry }>();
+  // Position of each node in the canvas list, used to keep results in paint order
+  let order = new Map<string, number>();
+
+  const insertInto = (quad: Quad, entry: Entry) => {
+    let current = quad;
+
+    while (current.children) {
+      const child = current.children.find((c) => contains(c.bounds, entry.rect));
+      // Entries straddling a split stay with the parent
+      if (!child) break;
+      current = child;
+    }
+
+    current.entries.push(entry);
+    locations.set(entry.node.id, { quad: current, entry });
+
+    if (!current.children && current.entries.length > MAX_ENTRIES && current.depth < MAX_DEPTH) {
+      current.children = getQuadrants(current.bounds).map((bounds) => createQuad(bounds, current.depth + 1));
+      const entries = current.entries;
+      current.entries = [];
+      entries.forEach((existing) => insertInto(current, existing));
+    }
+  };
+
+  // Double the root towards the rectangle until it fits
+  const growToFit = (rect: Rect) => {
+    while (!contains(root.bounds, rect)) {
+      const { x, y, width, height } = root.bounds;
+      const bounds = {
+        x: rect.x < x ? x - width : x,
+        y: rect.y < y ? y - height : y,
+        width: width * 2,
+        height: height * 2,
+      };
+      const grown = createQuad(bounds, 0);
+      const previous = root;
+
+      grown.children = getQuadrants(bounds).map((quadrant) =>
+        quadrant.x === x && quadrant.y === y ? previous : createQuad(quadrant, 1)
+      );
+
+      // Depths shift by one now that the old root sits underneath
+      const deepen = (quad: Quad) => {
+        quad.depth += 1;
+        quad.children?.forEach(deepen);
+      };
+      deepen(previous);
+      root = grown;
+    }
+  };
+
+  const insert = (node: Node) => {
+    const rect = getNodeRect(node);
+    // Skip nodes with corrupt geometry rather than growing the tree forever
+    if (![rect.x, rect.y, rect.width, rect.height].every(Number.isFinite)) return;
+
+    growToFit(rect);
+    insertInto(root, { node, rect });
+  };
+
+  const remove = (nodeId: string) => {
+    const location = locations.get(nodeId);
+    if (!location) return;
+
+    const { quad, entry } = location;
+    quad.entries.splice(quad.entries.indexOf(entry), 1);
+    locations.delete(nodeId);
+  };
+
+  const collect = (quad: Quad, rect: Rect, results: Node[]) => {
+    if (!overlaps(quad.bounds, rect)) return;
+
+    quad.entries.forEach((entry) => {
+      if (overlaps(entry.rect, rect)) results.push(entry.node);
+    });
+    quad.children?.forEach((child) => collect(child, rect, results));
+  };
+
+  const search = (rect: Rect) => {
+    const results: Node[] = [];
+    collect(root, rect, results);
+    return results.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+  };
+
+  const sync = (nodes: Node[]) => {
+    const seen = new Set<string>();
+
+    nodes.forEach((node) => {
+      seen.add(node.id);
+      const existing = locations.get(node.id);
+      // Cached rows keep their identity until they change, so this is cheap
+      if (existing?.entry.node === node) return;
+
+      remove(node.id);
+      insert(node);
+    });
+
+    Array.from(locations.keys()).forEach((nodeId) => {
+      if (!seen.has(nodeId)) remove(nodeId);
+    });
+
+    order = new Map(nodes.map((node, index) => [node.id, index]));
+  };
+
+  return {
+    sync,
+    search,
+    searchPoint: (point) => search({ ...point, width: 0, height: 0 }),
+    collides: (rect) => {
+      const results: Node[] = [];
+      collect(root, rect, results);
+      return results.length > 0;
+    },
+    size: () => locations.size,
+  };
+};
@@ -0,0 +1,87 @@
+import { create } from "zustand";
+import type { Point, Rect } from "@/lib/geometry";
+
+/**
+ * Move/resize applied to a group of nodes while one of them is being dragged
+ */
+export interface GroupTransform {
+  leaderId: string;
+  // Nodes that follow the leader: the rest of the selection and frame children
+  memberIds: string[];
+  dx: number;
+  dy: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+/**
+ * Transient canvas interaction state shared between nodes and overlays
+ */
+interface CanvasState {
+  // Geometry of nodes that are currently being dragged or resized
+  liveRects: Record<string, Rect>;
+  // Connector being drawn from a node towards the pointer
+  pendingLink: { sourceId: string; pointer: Point } | null;
+  // Ids of the nodes in the current selection
+  selectedIds: string[];
+  groupTransform: GroupTransform | null;
+  // Set when this visitor may only look at the canvas
+  readOnly: boolean;
+  setLiveRect: (nodeId: string, rect: Rect) => void;
+  clearLiveRect: (nodeId: string) => void;
+  setPendingLink: (link: { sourceId: string; pointer: Point } | null) => void;
+  setSelection: (nodeIds: string[]) => void;
+  addToSelection: (nodeIds: string[]) => void;
+  toggleSelected: (nodeId: string) => void;
+  clearSelection: () => void;
+  setGroupTransform: (transform: GroupTransform | null) => void;
+  setReadOnly: (readOnly: boolean) => void;
+}
+
+export const useCanvasStore = create<CanvasState>((set) => ({
+  liveRects: {},
+  pendingLink: null,
+  selectedIds: [],
+  groupTransform: null,
+  readOnly: false,
+  setLiveRect: (nodeId, rect) =>
+    set((state) => ({ liveRects: { ...state.liveRects, [nodeId]: rect } })),
+  clearLiveRect: (nodeId) =>
+    set((state) => {
+      if (!(nodeId in state.liveRects)) return state;
+      const liveRects = { ...state.liveRects };
+      delete liveRects[nodeId];
+      return { liveRects };
+    }),
+  setPendingLink: (pendingLink) => set({ pendingLink }),
+  setSelection: (selectedIds) => set({ selectedIds }),
+  addToSelection: (nodeIds) =>
+    set((state) => ({
+      selectedIds: Array.from(new Set([...state.selectedIds, ...nodeIds])),
+    })),
+  toggleSelected: (nodeId) =>
+    set((state) => ({
+      selectedIds: state.selectedIds.includes(nodeId)
+        ? state.selectedIds.filter((id) => id !== nodeId)
+        : [...state.selectedIds, nodeId],
+    })),
+  clearSelection: () =>
+    set((state) => (state.selectedIds.length ? { selectedIds: [] } : state)),
+  setGroupTransform: (groupTransform) => set({ groupTransform }),
+  setReadOnly: (readOnly) => set({ readOnly }),
+}));
+
+/**
+ * Apply a group transform to the geometry of a node that follows the leader
+ */
+export const applyGroupTransform = (
+  rect: Rect,
+  transform: GroupTransform,
+  minSize: { width: number; height: number } = { width: 100, height: 100 }
+): Rect => ({
+  x: rect.x + transform.dx,
+  y: rect.y + transform.dy,
+  // Only clamp when actually resizing so collapsed frames keep their height
+  width: transform.scaleX === 1 ? rect.width : Math.max(rect.width * transform.scaleX, minSize.width),
+  height: transform.scaleY === 1 ? rect.height : Math.max(rect.height * transform.scaleY, minSize.height),
+});
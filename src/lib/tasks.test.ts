@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { makeNode } from "@/test/fixtures";
+import { countTasks, getTaskItems, hasOpenTasks, setTaskChecked } from "@/lib/tasks";
+
+const note = [
+  "# Packing",
+  "- [x] Passport",
+  "* [ ] Charger",
+  "1. [X] Tickets",
+  "> - [ ] Quoted",
+  "```",
+  "- [ ] Not a task",
+  "```",
+  "- [] Missing space",
+  "- [ ]No space after",
+  "  + [ ] Nested",
+].join("\n");
+
+describe("getTaskItems", () => {
+  it("finds list tasks outside code fences", () => {
+    expect(getTaskItems(note)).toEqual([
+      { line: 1, checked: true },
+      { line: 2, checked: false },
+      { line: 3, checked: true },
+      { line: 4, checked: false },
+      { line: 10, checked: false },
+    ]);
+  });
+
+  it("handles empty notes", () => {
+    expect(getTaskItems(null)).toEqual([]);
+    expect(countTasks("")).toEqual({ done: 0, total: 0 });
+  });
+});
+
+describe("countTasks", () => {
+  it("counts done and total tasks", () => {
+    expect(countTasks(note)).toEqual({ done: 2, total: 5 });
+  });
+});
+
+describe("hasOpenTasks", () => {
+  it("only looks at text notes with unchecked tasks", () => {
+    expect(hasOpenTasks(makeNode("note", { content: note }))).toBe(true);
+    expect(hasOpenTasks(makeNode("done", { content: "- [x] Done" }))).toBe(false);
+    expect(hasOpenTasks(makeNode("note", { node_type: "shape", content: note }))).toBe(false);
+  });
+});
+
+describe("setTaskChecked", () => {
+  it("toggles the task on the given line only", () => {
+    const checked = setTaskChecked(note, 4, true);
+
+    expect(checked.split("\n")[4]).toBe("> - [x] Quoted");
+    expect(checked.split("\n").filter((_, line) => line !== 4)).toEqual(
+      note.split("\n").filter((_, line) => line !== 4)
+    );
+    expect(setTaskChecked(note, 3, false).split("\n")[3]).toBe("1. [ ] Tickets");
+  });
+
+  it("leaves lines without a task alone", () => {
+    expect(setTaskChecked(note, 0, true)).toBe(note);
+    expect(setTaskChecked(note, 99, true)).toBe(note);
+  });
+});
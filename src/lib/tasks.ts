@@ -0,0 +1,59 @@
+import type { Node } from "@/types";
+
+/**
+ * GFM task lists in notes. Tasks are found line by line for counting them,
+ * skipping fenced code since it renders no checkboxes. Ticking one goes by
+ * the source line of its list item.
+ */
+
+export interface TaskItem {
+  // Index of the line holding the task
+  line: number;
+  checked: boolean;
+}
+
+// List marker, optionally inside quotes, followed by `[ ]` or `[x]`
+const TASK_PATTERN = /^((?:\s*>)*\s*(?:[-*+]|\d+[.)])\s+)\[([ xX])\](?=\s|$)/;
+const FENCE_PATTERN = /^(?:\s*>)*\s*(```|~~~)/;
+
+export const getTaskItems = (content: string | null | undefined): TaskItem[] => {
+  const items: TaskItem[] = [];
+  let inFence = false;
+
+  (content || "").split("\n").forEach((text, line) => {
+    if (FENCE_PATTERN.test(text)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+
+    const match = TASK_PATTERN.exec(text);
+    if (match) items.push({ line, checked: match[2] !== " " });
+  });
+
+  return items;
+};
+
+/**
+ * How many of a note's tasks are done, out of how many
+ */
+export const countTasks = (content: string | null | undefined) => {
+  const items = getTaskItems(content);
+  return { done: items.filter((item) => item.checked).length, total: items.length };
+};
+
+export const hasOpenTasks = (node: Node) =>
+  node.node_type === "text" && getTaskItems(node.content).some((item) => !item.checked);
+
+/**
+ * Check or uncheck the task on `line` (0-based), leaving the rest of the
+ * text as is. The line comes from the rendered list item rather than from
+ * counting tasks, so raw HTML checkboxes can't throw it off.
+ */
+export const setTaskChecked = (content: string, line: number, checked: boolean) => {
+  const lines = content.split("\n");
+  if (!TASK_PATTERN.test(lines[line] ?? "")) return content;
+
+  lines[line] = lines[line].replace(TASK_PATTERN, (_, marker: string) => `${marker}[${checked ? "x" : " "}]`);
+  return lines.join("\n");
+};
@@ -3,9 +3,26 @@ import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Helmet } from "react-helmet-async";
+import { LayoutTemplate } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ImportCanvasDialog } from "@/components/Canvas/ImportCanvasDialog";
+import { TemplateGallery } from "@/components/Canvas/TemplateGallery";
+import { sanitizeCanvasCode } from "@/lib/canvas-bundle";
+import type { CanvasTemplate } from "@/lib/canvas-templates";
 
 const Index = () => {
   const [code, setCode] = useState("");
+  const [template, setTemplate] = useState<CanvasTemplate | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
   const navigate = useNavigate();
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -15,8 +32,9 @@ const Index = () => {
       return;
     }
     
-    const cleanCode = code.trim().replace(/[^a-zA-Z0-9-_]/g, '');
-    navigate(`/${cleanCode}`);
+    const cleanCode = sanitizeCanvasCode(code);
+    // Only canvases opened from here are created, from the template, if they don't exist yet
+    navigate(`/${cleanCode}`, { state: { create: true, template: template?.id } });
   };
 
   return (
@@ -62,10 +80,37 @@ const Index = () => {
               Go!
             </Button>
           </form>
+
+          <div className="flex justify-center mt-4">
+            <Dialog open={templatesOpen} onOpenChange={setTemplatesOpen}>
+              <DialogTrigger asChild>
+                <Button variant="link" className="text-muted-foreground">
+                  <LayoutTemplate className="mr-2 h-4 w-4" />
+                  {template ? `Template: ${template.name}` : "Start from a template"}
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Choose a template</DialogTitle>
+                  <DialogDescription>Your new canvas starts with this layout.</DialogDescription>
+                </DialogHeader>
+                <ScrollArea className="h-[60vh] pr-3">
+                  <TemplateGallery selectedId={template?.id ?? null} onSelect={setTemplate} allowBlank />
+                </ScrollArea>
+                <DialogFooter>
+                  <Button onClick={() => setTemplatesOpen(false)}>Use {template ? template.name : "blank canvas"}</Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
           
           <p className="text-center text-sm text-muted-foreground mt-8">
             No login required - Start collaborating instantly
           </p>
+
+          <div className="flex justify-center mt-2">
+            <ImportCanvasDialog />
+          </div>
           
           <footer className="mt-16 text-center text-xs text-muted-foreground">
             <p>
@@ -1,12 +1,33 @@
 
 import { InfiniteCanvas as Canvas } from "@/components/Canvas/InfiniteCanvas";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useParams } from "react-router-dom";
-import { toast } from "@/hooks/use-toast";
-import { useEffect } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { unlockCanvas } from "@/lib/canvas-access";
 
 const InfiniteCanvas = () => {
   const { code } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const shareKey = searchParams.get("key");
+  const [isUnlocking, setIsUnlocking] = useState(!!shareKey);
+
+  // Trade a share link's key for access, then drop it from the address bar
+  useEffect(() => {
+    if (!code || !shareKey) return;
+
+    setIsUnlocking(true);
+    unlockCanvas(code, { key: shareKey })
+      .catch((error) => {
+        import('@/lib/error-handler').then(({ handleError }) => {
+          // The function's message says whether the link was revoked
+          handleError(error, { title: "Share Link Failed" });
+        });
+      })
+      .finally(() => {
+        setIsUnlocking(false);
+        setSearchParams({}, { replace: true });
+      });
+  }, [code, shareKey, setSearchParams]);
 
   useEffect(() => {
     // Prevent zooming on mobile browsers
@@ -15,12 +36,6 @@ const InfiniteCanvas = () => {
     
     metaViewport?.setAttribute('content', 'width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no');
     
-    // Show toast warning about the 3-day deletion policy
-    toast({
-      title: "Temporary Canvas",
-      description: "This canvas and all its files will be automatically deleted after 3 days."
-    });
-    
     return () => {
       if (originalContent) {
         metaViewport?.setAttribute('content', originalContent);
@@ -32,7 +47,16 @@ const InfiniteCanvas = () => {
     return <div className="p-8 text-center">No canvas code provided</div>;
   }
 
-  return <Canvas />;
+  if (isUnlocking) {
+    return (
+      <div className="fixed inset-0 p-8 bg-gray-100 dark:bg-gray-900">
+        <Skeleton className="h-full w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  // Start from scratch when moving to another canvas, e.g. a fresh duplicate
+  return <Canvas key={code} />;
 };
 
 export default InfiniteCanvas;
@@ -0,0 +1,46 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { Edge, Node } from "@/types";
+
+/**
+ * Rows for unit tests, filled with defaults so each test only spells out
+ * the fields it is about. A node's content defaults to its id.
+ */
+
+export const makeNode = (id: string, changes: Partial<Node> = {}): Node => ({
+  id,
+  canvas_id: "canvas",
+  node_type: "text",
+  content: id,
+  position: { x: 0, y: 0 },
+  dimensions: { width: 100, height: 100 },
+  created_at: "",
+  updated_at: "",
+  ...changes,
+});
+
+export const makeEdge = (id: string, source_id: string, target_id: string, changes: Partial<Edge> = {}): Edge => ({
+  id,
+  canvas_id: "canvas",
+  source_id,
+  target_id,
+  arrow_start: false,
+  arrow_end: true,
+  line_style: "solid",
+  created_at: "",
+  updated_at: "",
+  ...changes,
+});
+
+export const makeCanvas = (changes: Partial<Tables<"canvases">> = {}): Tables<"canvases"> => ({
+  id: "canvas",
+  code: "code",
+  created_at: "2026-01-01T00:00:00.000Z",
+  updated_at: "2026-01-01T00:00:00.000Z",
+  last_accessed_at: "2026-01-01T00:00:00.000Z",
+  retention: "3d",
+  retention_started_at: "2026-01-01T00:00:00.000Z",
+  has_password: false,
+  public_access: "edit",
+  view_config: {},
+  ...changes,
+});
@@ -1,7 +1,7 @@
 export interface Node {
   id: string;
   canvas_id: string;
-  node_type: 'text' | 'image' | 'video' | 'pdf';
+  node_type: 'text' | 'image' | 'video' | 'pdf' | 'frame' | 'drawing' | 'shape' | 'kanban';
   content?: string;
   position: { x: number; y: number };
   dimensions: { width: number; height: number };
@@ -9,6 +9,10 @@ export interface Node {
   file_path?: string;
   file_type?: string;
   file_name?: string;
+  // Frame that contains this node, if any
+  parent_id?: string | null;
+  // Set while the node is in the canvas' trash
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
   keep_minimap_hidden?: boolean;
@@ -17,7 +21,7 @@ export interface Node {
 // Type for creating new nodes (subset of Node without id and timestamps)
 export interface NodeData {
   canvas_id: string;
-  node_type: 'text' | 'image' | 'video' | 'pdf' | 'file';
+  node_type: 'text' | 'image' | 'video' | 'pdf' | 'file' | 'frame' | 'drawing' | 'shape' | 'kanban';
   content?: string;
   position: { x: number; y: number };
   dimensions: { width: number; height: number };
@@ -25,9 +29,36 @@ export interface NodeData {
   file_path?: string;
   file_type?: string;
   file_name?: string;
+  parent_id?: string | null;
   keep_minimap_hidden?: boolean;
 }
 
+export type EdgeLineStyle = 'solid' | 'dashed' | 'dotted';
+
+export interface Edge {
+  id: string;
+  canvas_id: string;
+  source_id: string;
+  target_id: string;
+  label?: string | null;
+  arrow_start: boolean;
+  arrow_end: boolean;
+  line_style: EdgeLineStyle;
+  created_at: string;
+  updated_at: string;
+}
+
+// Type for creating new edges (subset of Edge without id and timestamps)
+export interface EdgeData {
+  canvas_id: string;
+  source_id: string;
+  target_id: string;
+  label?: string | null;
+  arrow_start?: boolean;
+  arrow_end?: boolean;
+  line_style?: EdgeLineStyle;
+}
+
 export interface ViewConfig {
   zoom: number;
   position: { x: number; y: number };
@@ -0,0 +1,270 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.7'
+import { SignJWT, jwtVerify } from 'https://esm.sh/jose@5.2.4'
+
+// Define CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Create Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// Must be the project's JWT secret so PostgREST and Realtime accept the tokens:
+// supabase secrets set CANVAS_JWT_SECRET=<project JWT secret>
+const jwtSecret = new TextEncoder().encode(Deno.env.get('CANVAS_JWT_SECRET') || '')
+
+// How long an unlocked canvas stays unlocked
+const TOKEN_TTL_SECONDS = 60 * 60 * 12
+
+const PBKDF2_ITERATIONS = 100_000
+
+type Access = 'edit' | 'view' | 'none'
+
+class AccessError extends Error {
+  constructor(message: string, public status = 403) {
+    super(message)
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+
+const derive = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256)
+  return new Uint8Array(bits)
+}
+
+// Stored as pbkdf2$<iterations>$<salt>$<hash>
+const hashPassword = async (password: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS)
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`
+}
+
+const verifyPassword = async (password: string, stored: string) => {
+  const [, iterations, salt, expected] = stored.split('$')
+  const hash = toBase64(await derive(password, fromBase64(salt), Number(iterations)))
+  // Constant-time comparison
+  let diff = hash.length ^ expected.length
+  for (let i = 0; i < Math.min(hash.length, expected.length); i++) {
+    diff |= hash.charCodeAt(i) ^ expected.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+const issueToken = async (canvasId: string, access: Access) => {
+  const expiresAt = Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS
+  const token = await new SignJWT({ role: 'anon', canvas_id: canvasId, canvas_access: access })
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setIssuedAt()
+    .setExpirationTime(expiresAt)
+    .sign(jwtSecret)
+  return { token, access, expires_at: new Date(expiresAt * 1000).toISOString() }
+}
+
+const loadCanvas = async (code: string) => {
+  const { data: canvas, error } = await supabase
+    .from('canvases')
+    .select('id, public_access, has_password')
+    .eq('code', code)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!canvas) throw new AccessError('Canvas not found', 404)
+  return canvas as { id: string; public_access: Access; has_password: boolean }
+}
+
+// Secrets are created lazily the first time a canvas' sharing is configured
+const loadSecrets = async (canvasId: string) => {
+  const { data, error } = await supabase
+    .from('canvas_secrets')
+    .upsert({ canvas_id: canvasId }, { onConflict: 'canvas_id', ignoreDuplicates: true })
+    .select('password_hash, edit_key, view_key')
+    .maybeSingle()
+
+  if (error) throw error
+  if (data) return data
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('canvas_secrets')
+    .select('password_hash, edit_key, view_key')
+    .eq('canvas_id', canvasId)
+    .single()
+
+  if (fetchError) throw fetchError
+  return existing
+}
+
+// Access carried by the caller's own canvas token, if any
+const getCallerAccess = async (req: Request, canvasId: string): Promise<Access> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) return 'none'
+
+  try {
+    const { payload } = await jwtVerify(token, jwtSecret)
+    return payload.canvas_id === canvasId ? (payload.canvas_access as Access) : 'none'
+  } catch {
+    return 'none'
+  }
+}
+
+// Who is making an unlock attempt. The gateway puts the client's address
+// first in x-forwarded-for.
+const getCallerAddress = (req: Request) =>
+  req.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown'
+
+// Unlock attempts are throttled per canvas and caller so passwords can't be
+// guessed online; every attempt counts until one succeeds
+const claimUnlockAttempt = async (canvasId: string, caller: string) => {
+  const { data: blockedUntil, error } = await supabase.rpc('claim_unlock_attempt', {
+    target_canvas: canvasId,
+    caller_address: caller,
+  })
+  if (error) throw error
+  if (!blockedUntil) return
+
+  const seconds = Math.max(1, Math.ceil((new Date(blockedUntil).getTime() - Date.now()) / 1000))
+  throw new AccessError(`Too many attempts. Try again in ${seconds} seconds`, 429)
+}
+
+const unlocked = async (canvasId: string, caller: string, access: Access) => {
+  const { error } = await supabase
+    .from('canvas_unlock_attempts')
+    .delete()
+    .eq('canvas_id', canvasId)
+    .eq('caller', caller)
+
+  if (error) throw error
+  return issueToken(canvasId, access)
+}
+
+const requireEditor = async (req: Request, canvas: { id: string; public_access: Access }) => {
+  if (canvas.public_access === 'edit') return
+  if (await getCallerAccess(req, canvas.id) === 'edit') return
+  throw new AccessError('Only editors can change sharing settings')
+}
+
+/**
+ * unlock:   trade a password or share key for a scoped token
+ * links:    share keys for an editor to hand out
+ * configure: set or remove the password and what the bare code allows
+ */
+const handlers: Record<string, (req: Request, body: Record<string, unknown>) => Promise<unknown>> = {
+  unlock: async (req, body) => {
+    const canvas = await loadCanvas(String(body.code))
+    const secrets = await loadSecrets(canvas.id)
+    const caller = getCallerAddress(req)
+    await claimUnlockAttempt(canvas.id, caller)
+
+    if (typeof body.key === 'string') {
+      if (body.key === secrets.edit_key) return unlocked(canvas.id, caller, 'edit')
+      if (body.key === secrets.view_key) return unlocked(canvas.id, caller, 'view')
+      throw new AccessError('This share link is no longer valid')
+    }
+
+    if (typeof body.password === 'string' && secrets.password_hash) {
+      if (await verifyPassword(body.password, secrets.password_hash)) {
+        return unlocked(canvas.id, caller, 'edit')
+      }
+    }
+
+    throw new AccessError('Incorrect password')
+  },
+
+  links: async (req, body) => {
+    const canvas = await loadCanvas(String(body.code))
+    await requireEditor(req, canvas)
+    const secrets = await loadSecrets(canvas.id)
+    return { edit_key: secrets.edit_key, view_key: secrets.view_key }
+  },
+
+  configure: async (req, body) => {
+    const canvas = await loadCanvas(String(body.code))
+    await requireEditor(req, canvas)
+    const current = await loadSecrets(canvas.id)
+
+    const publicAccess = body.public_access as Access
+    if (!['edit', 'view', 'none'].includes(publicAccess)) {
+      throw new AccessError('Unknown access level', 400)
+    }
+
+    // undefined keeps the current password, null removes it
+    const secretChanges: Record<string, unknown> = { updated_at: new Date().toISOString() }
+    if (body.password === null) {
+      secretChanges.password_hash = null
+    } else if (typeof body.password === 'string' && body.password.length > 0) {
+      secretChanges.password_hash = await hashPassword(body.password)
+    }
+    const hasPassword = 'password_hash' in secretChanges
+      ? secretChanges.password_hash !== null
+      : !!current.password_hash
+    if (hasPassword && publicAccess === 'edit') {
+      throw new AccessError('A password only helps if the code alone no longer grants editing', 400)
+    }
+    if (body.rotate_keys === true) {
+      secretChanges.edit_key = crypto.randomUUID().replaceAll('-', '')
+      secretChanges.view_key = crypto.randomUUID().replaceAll('-', '')
+    }
+
+    const { error: secretsError } = await supabase
+      .from('canvas_secrets')
+      .update(secretChanges)
+      .eq('canvas_id', canvas.id)
+
+    if (secretsError) throw secretsError
+
+    const { error } = await supabase
+      .from('canvases')
+      .update({ public_access: publicAccess, has_password: hasPassword })
+      .eq('id', canvas.id)
+
+    if (error) throw error
+
+    // Whoever locked the canvas keeps editing it
+    return issueToken(canvas.id, 'edit')
+  },
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.json()
+    const handler = handlers[body.action]
+    if (!handler) throw new AccessError('Unknown action', 400)
+
+    const result = await handler(req, body)
+
+    return new Response(
+      JSON.stringify(result),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        },
+        status: 200
+      }
+    )
+  } catch (error) {
+    console.error('Error in canvas access:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        },
+        status: error instanceof AccessError ? error.status : 500
+      }
+    )
+  }
+})
@@ -12,6 +12,9 @@ const supabaseUrl = Deno.env.get('SUPABASE_URL') || ''
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
 const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
+// How long deleted nodes stay in a canvas' trash before they are purged
+const TRASH_GRACE_DAYS = 7
+
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -21,14 +24,11 @@ Deno.serve(async (req) => {
   try {
     console.log('Starting cleanup of old canvases...')
     
-    // Get canvases older than 3 days
-    const threeDaysAgo = new Date()
-    threeDaysAgo.setDate(threeDaysAgo.getDate() - 3)
-    
+    // Get canvases past their retention, which honours last_accessed_at
+    // for canvases kept alive by activity
     const { data: oldCanvases, error: fetchError } = await supabase
-      .from('canvases')
+      .rpc('expired_canvases')
       .select('id, code')
-      .lt('created_at', threeDaysAgo.toISOString())
     
     if (fetchError) {
       throw fetchError
@@ -90,12 +90,51 @@ Deno.serve(async (req) => {
       }
     }
     
+    // Purge nodes that have been in the trash for longer than the grace period
+    const trashCutoff = new Date()
+    trashCutoff.setDate(trashCutoff.getDate() - TRASH_GRACE_DAYS)
+
+    const { data: trashedNodes, error: trashError } = await supabase
+      .from('nodes')
+      .select('id, file_path')
+      .lt('deleted_at', trashCutoff.toISOString())
+
+    if (trashError) {
+      throw trashError
+    }
+
+    console.log(`Found ${trashedNodes?.length || 0} trashed nodes to purge`)
+
+    const trashedFiles = trashedNodes?.map(node => node.file_path).filter(Boolean) || []
+    if (trashedFiles.length > 0) {
+      const { error: filesError } = await supabase
+        .storage
+        .from('slate_files')
+        .remove(trashedFiles)
+
+      if (filesError) {
+        console.error('Error deleting files of trashed nodes:', filesError)
+      }
+    }
+
+    if (trashedNodes && trashedNodes.length > 0) {
+      // Connectors are removed by cascade
+      const { error: purgeError } = await supabase
+        .from('nodes')
+        .delete()
+        .in('id', trashedNodes.map(node => node.id))
+
+      if (purgeError) {
+        console.error('Error purging trashed nodes:', purgeError)
+      }
+    }
+
     console.log('Cleanup completed successfully')
     
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: `Cleaned up ${oldCanvases?.length || 0} old canvases` 
+        message: `Cleaned up ${oldCanvases?.length || 0} old canvases and ${trashedNodes?.length || 0} trashed nodes` 
       }),
       {
         headers: {
@@ -0,0 +1,179 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.7'
+import { jwtVerify } from 'https://esm.sh/jose@5.2.4'
+
+// Define CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Create Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// The same secret canvas_access signs its tokens with
+const jwtSecret = new TextEncoder().encode(Deno.env.get('CANVAS_JWT_SECRET') || '')
+
+// Storage copies made at once
+const COPY_BATCH_SIZE = 10
+
+class DuplicateError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+  }
+}
+
+const sanitizeCode = (code: string) => code.trim().replace(/[^a-zA-Z0-9-_]/g, '')
+
+const randomSuffix = () => crypto.randomUUID().replaceAll('-', '').slice(0, 6)
+
+// Viewers may duplicate a canvas too: the copy is theirs to edit
+const canView = async (req: Request, canvas: { id: string; public_access: string }) => {
+  if (canvas.public_access !== 'none') return true
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) return false
+
+  try {
+    const { payload } = await jwtVerify(token, jwtSecret)
+    return payload.canvas_id === canvas.id && ['view', 'edit'].includes(payload.canvas_access as string)
+  } catch {
+    return false
+  }
+}
+
+const isCodeTaken = async (code: string) => {
+  const { data, error } = await supabase
+    .from('canvases')
+    .select('id')
+    .eq('code', code)
+    .maybeSingle()
+
+  if (error) throw error
+  return !!data
+}
+
+/**
+ * Copy every file of the source canvas into the new code's folder, keeping
+ * its path inside the folder so files can't overwrite each other. Returns
+ * old path -> new path for the files that could be copied, and the names of
+ * the files nodes lose.
+ */
+const copyFiles = async (canvasId: string, newCode: string) => {
+  const { data: nodes, error } = await supabase
+    .from('nodes')
+    .select('file_path, file_name')
+    .eq('canvas_id', canvasId)
+    .is('deleted_at', null)
+    .not('file_path', 'is', null)
+
+  if (error) throw error
+
+  const paths = Array.from(new Set((nodes || []).map((node) => node.file_path as string)))
+  const copied: Record<string, string> = {}
+
+  for (let i = 0; i < paths.length; i += COPY_BATCH_SIZE) {
+    await Promise.all(paths.slice(i, i + COPY_BATCH_SIZE).map(async (path) => {
+      // Everything below the source canvas' folder
+      const relative = path.includes('/') ? path.slice(path.indexOf('/') + 1) : path
+      const target = `${newCode}/${relative}`
+      const { error: copyError } = await supabase.storage.from('slate_files').copy(path, target)
+      if (copyError) {
+        console.error(`Error copying ${path}:`, copyError)
+        return
+      }
+      copied[path] = target
+    }))
+  }
+
+  return {
+    copied,
+    missingFiles: (nodes || [])
+      .filter((node) => !((node.file_path as string) in copied))
+      .map((node) => node.file_name || (node.file_path as string).split('/').pop()),
+  }
+}
+
+const duplicate = async (req: Request, body: Record<string, unknown>) => {
+  const { data: source, error: sourceError } = await supabase
+    .from('canvases')
+    .select('id, code, public_access')
+    .eq('code', String(body.code))
+    .maybeSingle()
+
+  if (sourceError) throw sourceError
+  if (!source || !(await canView(req, source))) {
+    throw new DuplicateError('Canvas not found', 404)
+  }
+
+  let newCode = typeof body.new_code === 'string' ? sanitizeCode(body.new_code) : ''
+  if (newCode) {
+    if (await isCodeTaken(newCode)) {
+      throw new DuplicateError(`A canvas called "${newCode}" already exists`, 409)
+    }
+  } else {
+    do {
+      newCode = `${source.code}-${randomSuffix()}`
+    } while (await isCodeTaken(newCode))
+  }
+
+  const { copied: filePaths, missingFiles } = await copyFiles(source.id, newCode)
+
+  const { data: canvas, error } = await supabase.rpc('duplicate_canvas', {
+    source_canvas: source.id,
+    new_code: newCode,
+    file_paths: filePaths,
+  })
+
+  if (error) {
+    // Nothing refers to the copied files if the rows weren't created
+    const copiedPaths = Object.values(filePaths)
+    if (copiedPaths.length > 0) {
+      await supabase.storage.from('slate_files').remove(copiedPaths)
+    }
+    // Someone else took the code in the meantime
+    if (error.code === '23505') {
+      throw new DuplicateError(`A canvas called "${newCode}" already exists`, 409)
+    }
+    throw error
+  }
+
+  return { code: canvas.code, missing_files: missingFiles }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const result = await duplicate(req, await req.json())
+
+    return new Response(
+      JSON.stringify(result),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        },
+        status: 200
+      }
+    )
+  } catch (error) {
+    console.error('Error duplicating canvas:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        },
+        status: error instanceof DuplicateError ? error.status : 500
+      }
+    )
+  }
+})
@@ -0,0 +1,31 @@
+-- Connector edges between two nodes on the same canvas
+create table if not exists public.edges (
+  id uuid primary key default gen_random_uuid(),
+  canvas_id uuid not null references public.canvases(id) on delete cascade,
+  source_id uuid not null references public.nodes(id) on delete cascade,
+  target_id uuid not null references public.nodes(id) on delete cascade,
+  label text,
+  arrow_start boolean not null default false,
+  arrow_end boolean not null default true,
+  line_style text not null default 'solid'
+    check (line_style in ('solid', 'dashed', 'dotted')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint edges_distinct_endpoints check (source_id <> target_id)
+);
+
+create index if not exists edges_canvas_id_idx on public.edges (canvas_id);
+create index if not exists edges_source_id_idx on public.edges (source_id);
+create index if not exists edges_target_id_idx on public.edges (target_id);
+
+-- Canvases are shared by code, so edges follow the same open access as nodes
+alter table public.edges enable row level security;
+
+create policy "Edges are publicly accessible"
+  on public.edges for all
+  using (true)
+  with check (true);
+
+-- Deletes must carry the full row so filtered realtime subscriptions receive them
+alter table public.edges replica identity full;
+alter publication supabase_realtime add table public.edges;
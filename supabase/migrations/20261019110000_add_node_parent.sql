@@ -0,0 +1,5 @@
+-- Frames contain other nodes; children are kept when their frame is deleted
+alter table public.nodes
+  add column if not exists parent_id uuid references public.nodes(id) on delete set null;
+
+create index if not exists nodes_parent_id_idx on public.nodes (parent_id);
@@ -0,0 +1,214 @@
+-- Optional passwords and read-only sharing for canvases.
+--
+-- Every canvas has a public access level: what someone who only knows the
+-- code may do. Passwords and share keys live in canvas_secrets, which is
+-- only reachable through the canvas_access edge function. That function
+-- hands out short-lived JWTs carrying `canvas_id` and `canvas_access`
+-- claims, which the policies below honour.
+
+alter table public.canvases
+  add column if not exists public_access text not null default 'edit'
+    check (public_access in ('edit', 'view', 'none')),
+  add column if not exists has_password boolean not null default false;
+
+create table if not exists public.canvas_secrets (
+  canvas_id uuid primary key references public.canvases(id) on delete cascade,
+  password_hash text,
+  edit_key text not null default encode(extensions.gen_random_bytes(18), 'hex'),
+  view_key text not null default encode(extensions.gen_random_bytes(18), 'hex'),
+  updated_at timestamptz not null default now()
+);
+
+-- No policies: only the service role (edge functions) can read secrets
+alter table public.canvas_secrets enable row level security;
+
+-- Highest of the canvas' public level and whatever the caller's token grants
+create or replace function public.canvas_access_level(target_canvas uuid)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  public_level text;
+  token_level text;
+begin
+  select public_access into public_level from canvases where id = target_canvas;
+
+  if (auth.jwt() ->> 'canvas_id') = target_canvas::text then
+    token_level := auth.jwt() ->> 'canvas_access';
+  end if;
+
+  if public_level = 'edit' or token_level = 'edit' then
+    return 'edit';
+  end if;
+  if public_level = 'view' or token_level = 'view' then
+    return 'view';
+  end if;
+  return 'none';
+end;
+$$;
+
+create or replace function public.can_view_canvas(target_canvas uuid)
+returns boolean
+language sql
+stable
+as $$
+  select public.canvas_access_level(target_canvas) in ('view', 'edit');
+$$;
+
+create or replace function public.can_edit_canvas(target_canvas uuid)
+returns boolean
+language sql
+stable
+as $$
+  select public.canvas_access_level(target_canvas) = 'edit';
+$$;
+
+-- Replace the old open-to-everyone policies
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public' and tablename in ('canvases', 'nodes', 'edges')
+  loop
+    execute format('drop policy %I on public.%I', policy.policyname, policy.tablename);
+  end loop;
+
+  -- Including any blanket write access to the files bucket
+  for policy in
+    select policyname from pg_policies
+    where schemaname = 'storage' and tablename = 'objects' and cmd <> 'SELECT'
+      and (coalesce(qual, '') || coalesce(with_check, '')) like '%slate_files%'
+  loop
+    execute format('drop policy %I on storage.objects', policy.policyname);
+  end loop;
+end;
+$$;
+
+alter table public.canvases enable row level security;
+alter table public.nodes enable row level security;
+
+-- Canvas rows only hold the code, view state and access settings, and the
+-- lock screen needs them before anything has been unlocked
+create policy "Canvases are visible to everyone"
+  on public.canvases for select
+  using (true);
+
+-- New canvases always start open; locking them goes through the edge function
+create policy "Anyone can create an open canvas"
+  on public.canvases for insert
+  with check (public_access = 'edit' and has_password = false);
+
+create policy "Editors can update canvases"
+  on public.canvases for update
+  using (public.can_edit_canvas(id))
+  with check (public.can_edit_canvas(id));
+
+-- Access settings can't be changed through the API
+revoke update on public.canvases from anon, authenticated;
+grant update (view_config, last_accessed_at, updated_at) on public.canvases to anon, authenticated;
+
+create policy "Nodes are visible to viewers"
+  on public.nodes for select
+  using (public.can_view_canvas(canvas_id));
+
+create policy "Editors can add nodes"
+  on public.nodes for insert
+  with check (public.can_edit_canvas(canvas_id));
+
+create policy "Editors can change nodes"
+  on public.nodes for update
+  using (public.can_edit_canvas(canvas_id))
+  with check (public.can_edit_canvas(canvas_id));
+
+create policy "Editors can delete nodes"
+  on public.nodes for delete
+  using (public.can_edit_canvas(canvas_id));
+
+create policy "Edges are visible to viewers"
+  on public.edges for select
+  using (public.can_view_canvas(canvas_id));
+
+create policy "Editors can add edges"
+  on public.edges for insert
+  with check (public.can_edit_canvas(canvas_id));
+
+create policy "Editors can change edges"
+  on public.edges for update
+  using (public.can_edit_canvas(canvas_id))
+  with check (public.can_edit_canvas(canvas_id));
+
+create policy "Editors can delete edges"
+  on public.edges for delete
+  using (public.can_edit_canvas(canvas_id));
+
+-- Uploaded files are stored under the canvas code
+create or replace function public.can_edit_canvas_code(target_code text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select public.can_edit_canvas(id) from canvases where code = target_code),
+    false
+  );
+$$;
+
+create policy "Editors can upload canvas files"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'slate_files'
+    and public.can_edit_canvas_code((storage.foldername(name))[1])
+  );
+
+create policy "Editors can delete canvas files"
+  on storage.objects for delete
+  using (
+    bucket_id = 'slate_files'
+    and public.can_edit_canvas_code((storage.foldername(name))[1])
+  );
+
+-- Private realtime channels: cursors need view access, text co-editing
+-- (`text:<node id>`) needs edit access to send
+create or replace function public.can_use_channel(topic text, needs_edit boolean)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  target_canvas uuid;
+begin
+  if topic like 'presence:%' then
+    select id into target_canvas from canvases where code = substr(topic, 10);
+  elsif topic like 'text:%' then
+    select canvas_id into target_canvas from nodes where id::text = substr(topic, 6);
+  else
+    return false;
+  end if;
+
+  if target_canvas is null then
+    return false;
+  end if;
+
+  return case
+    when needs_edit and topic like 'text:%' then public.can_edit_canvas(target_canvas)
+    else public.can_view_canvas(target_canvas)
+  end;
+end;
+$$;
+
+create policy "Viewers can join canvas channels"
+  on realtime.messages for select
+  using (public.can_use_channel(realtime.topic(), false));
+
+create policy "Members can send to canvas channels"
+  on realtime.messages for insert
+  with check (public.can_use_channel(realtime.topic(), true));
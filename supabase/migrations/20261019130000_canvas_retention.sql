@@ -0,0 +1,92 @@
+-- Per-canvas retention instead of a blanket 3 days from creation.
+--
+-- Fixed retentions run from retention_started_at, which is reset whenever
+-- the retention is changed or extended. 'activity' keeps a canvas for a
+-- week after it was last opened.
+
+alter table public.canvases
+  add column if not exists retention text not null default '3d'
+    check (retention in ('1d', '3d', '7d', '30d', 'activity')),
+  add column if not exists retention_started_at timestamptz not null default now();
+
+-- Existing canvases keep the deadline they were created with
+update public.canvases set retention_started_at = created_at;
+
+create or replace function public.canvas_expires_at(canvas public.canvases)
+returns timestamptz
+language sql
+stable
+as $$
+  select case canvas.retention
+    when '1d' then canvas.retention_started_at + interval '1 day'
+    when '7d' then canvas.retention_started_at + interval '7 days'
+    when '30d' then canvas.retention_started_at + interval '30 days'
+    when 'activity' then greatest(canvas.last_accessed_at, canvas.retention_started_at) + interval '7 days'
+    else canvas.retention_started_at + interval '3 days'
+  end;
+$$;
+
+-- Used by the clean_old_canvases function
+create or replace function public.expired_canvases()
+returns setof public.canvases
+language sql
+stable
+as $$
+  select * from public.canvases c where public.canvas_expires_at(c) < now();
+$$;
+
+revoke execute on function public.expired_canvases() from public, anon, authenticated;
+
+-- Viewers count as activity too, but may not update the row themselves
+create or replace function public.touch_canvas(target_canvas uuid)
+returns timestamptz
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  touched timestamptz;
+begin
+  if not public.can_view_canvas(target_canvas) then
+    raise exception 'Canvas not accessible' using errcode = '42501';
+  end if;
+
+  update canvases set last_accessed_at = now()
+  where id = target_canvas
+  returning last_accessed_at into touched;
+
+  return touched;
+end;
+$$;
+
+-- Editors choose and extend the retention. The clock always restarts at
+-- the server's now(), so nobody can push a deadline into the future.
+create or replace function public.set_canvas_retention(target_canvas uuid, new_retention text)
+returns timestamptz
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  started timestamptz;
+begin
+  if not public.can_edit_canvas(target_canvas) then
+    raise exception 'Canvas not editable' using errcode = '42501';
+  end if;
+
+  update canvases set retention = new_retention, retention_started_at = now()
+  where id = target_canvas
+  returning retention_started_at into started;
+
+  return started;
+end;
+$$;
+
+-- Deadlines only move through the functions above: clients may no longer
+-- set last_accessed_at themselves, nor any timestamps on new canvases
+revoke update on public.canvases from anon, authenticated;
+grant update (view_config, updated_at) on public.canvases to anon, authenticated;
+revoke insert on public.canvases from anon, authenticated;
+grant insert (code, view_config) on public.canvases to anon, authenticated;
@@ -0,0 +1,9 @@
+-- Deleted nodes go to a per-canvas trash instead of being removed straight
+-- away. Their connectors are kept so they come back on restore. The
+-- clean_old_canvases function purges trashed nodes and their files once the
+-- grace period is over.
+alter table public.nodes
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists nodes_deleted_at_idx on public.nodes (deleted_at)
+  where deleted_at is not null;
@@ -0,0 +1,81 @@
+-- Copy a canvas, its nodes and its connectors to a new code in one
+-- transaction. Called by the duplicate_canvas edge function, which copies
+-- the files first and passes their new paths in `file_paths` (old path ->
+-- new path). Nodes whose file isn't in there become notes naming the file.
+-- Trashed nodes are left behind, and the copy starts open, with a fresh
+-- retention period and no password.
+create or replace function public.duplicate_canvas(
+  source_canvas uuid,
+  new_code text,
+  file_paths jsonb default '{}'::jsonb
+)
+returns public.canvases
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  source public.canvases;
+  copied public.canvases;
+  ids jsonb;
+begin
+  select * into source from canvases where id = source_canvas;
+  if not found then
+    raise exception 'Canvas not found' using errcode = 'P0002';
+  end if;
+
+  insert into canvases (code, view_config, retention)
+  values (new_code, source.view_config, source.retention)
+  returning * into copied;
+
+  -- Old node id -> new node id
+  select coalesce(jsonb_object_agg(id, gen_random_uuid()), '{}'::jsonb) into ids
+  from nodes
+  where canvas_id = source_canvas and deleted_at is null;
+
+  -- Foreign keys are checked at the end of the statement, so children may
+  -- come before their frames
+  insert into nodes (
+    id, canvas_id, node_type, content, position, dimensions, style,
+    file_path, file_name, file_type, parent_id
+  )
+  select
+    (ids ->> n.id::text)::uuid,
+    copied.id,
+    case when f.lost then 'text' else n.node_type end,
+    case
+      when f.lost then format(E'**%s**\n\n_This file couldn''t be copied._', coalesce(n.file_name, 'File'))
+      else n.content
+    end,
+    n.position,
+    n.dimensions,
+    n.style,
+    -- Files that couldn't be copied are dropped rather than shared
+    file_paths ->> n.file_path,
+    case when f.lost then null else n.file_name end,
+    case when f.lost then null else n.file_type end,
+    (ids ->> n.parent_id::text)::uuid
+  from nodes n
+  cross join lateral (select n.file_path is not null and not (file_paths ? n.file_path) as lost) f
+  where n.canvas_id = source_canvas and n.deleted_at is null;
+
+  insert into edges (canvas_id, source_id, target_id, label, arrow_start, arrow_end, line_style)
+  select
+    copied.id,
+    (ids ->> e.source_id::text)::uuid,
+    (ids ->> e.target_id::text)::uuid,
+    e.label,
+    e.arrow_start,
+    e.arrow_end,
+    e.line_style
+  from edges e
+  where e.canvas_id = source_canvas
+    and ids ? e.source_id::text
+    and ids ? e.target_id::text;
+
+  return copied;
+end;
+$$;
+
+revoke execute on function public.duplicate_canvas(uuid, text, jsonb) from public, anon, authenticated;
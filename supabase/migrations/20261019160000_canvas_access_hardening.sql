@@ -0,0 +1,96 @@
+-- Tighten canvas sharing: files are no longer readable by anyone who can
+-- guess their path, and password guesses are throttled per caller.
+
+-- Drop the remaining blanket read access to the files bucket
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname from pg_policies
+    where schemaname = 'storage' and tablename = 'objects' and cmd = 'SELECT'
+      and (coalesce(qual, '') || coalesce(with_check, '')) like '%slate_files%'
+  loop
+    execute format('drop policy %I on storage.objects', policy.policyname);
+  end loop;
+end;
+$$;
+
+-- The bucket is private, so files are only served through signed URLs,
+-- which storage only signs for people who may view the canvas
+update storage.buckets set public = false where id = 'slate_files';
+
+create or replace function public.can_view_canvas_code(target_code text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select public.can_view_canvas(id) from canvases where code = target_code),
+    false
+  );
+$$;
+
+create policy "Viewers can read canvas files"
+  on storage.objects for select
+  using (
+    bucket_id = 'slate_files'
+    and public.can_view_canvas_code((storage.foldername(name))[1])
+  );
+
+-- Unlock attempts since a caller's last successful one, and when their next
+-- may be made. Keyed by caller as well as canvas so one visitor guessing
+-- passwords can't lock everyone else out.
+create table if not exists public.canvas_unlock_attempts (
+  canvas_id uuid not null references public.canvases(id) on delete cascade,
+  -- The caller's IP address, as seen by the canvas_access edge function
+  caller text not null,
+  failed_unlocks integer not null default 0,
+  blocked_until timestamptz,
+  last_attempt_at timestamptz not null default now(),
+  primary key (canvas_id, caller)
+);
+
+-- No policies: only the service role (edge functions) can read attempts
+alter table public.canvas_unlock_attempts enable row level security;
+
+-- Count an unlock attempt by a caller before checking it. The first few are
+-- free; after that each one doubles the wait before the next, up to 15
+-- minutes, until an attempt succeeds or a day passes without any. Returns
+-- null when the attempt may go ahead, otherwise when the next one may.
+create or replace function public.claim_unlock_attempt(target_canvas uuid, caller_address text)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  blocked timestamptz;
+begin
+  delete from canvas_unlock_attempts
+  where canvas_id = target_canvas and last_attempt_at < now() - interval '1 day';
+
+  insert into canvas_unlock_attempts as attempts (canvas_id, caller, failed_unlocks)
+  values (target_canvas, caller_address, 1)
+  on conflict (canvas_id, caller) do update
+  set failed_unlocks = attempts.failed_unlocks + 1,
+      last_attempt_at = now(),
+      blocked_until = now() + make_interval(secs => case
+        when attempts.failed_unlocks < 5 then 0
+        else least(power(2, attempts.failed_unlocks - 4), 900)
+      end)
+  where attempts.blocked_until is null or attempts.blocked_until <= now();
+
+  if found then
+    return null;
+  end if;
+
+  select blocked_until into blocked from canvas_unlock_attempts
+  where canvas_id = target_canvas and caller = caller_address;
+  return blocked;
+end;
+$$;
+
+revoke execute on function public.claim_unlock_attempt(uuid, text) from public, anon, authenticated;
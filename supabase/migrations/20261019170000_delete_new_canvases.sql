@@ -0,0 +1,6 @@
+-- Let a canvas import that fails part way remove the canvas it created.
+-- Only canvases made in the last hour can be deleted this way; older ones
+-- are left to expire with their retention.
+create policy "Editors can delete new canvases"
+  on public.canvases for delete
+  using (public.can_edit_canvas(id) and created_at > now() - interval '1 hour');